@@ -1,5 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import User from '../models/User';
+import Session from '../models/Session';
+import { AccessTokenPayload, jwtSecret } from '../utils/sessions';
+import { SchoolRole, DEFAULT_SCHOOL_ROLE } from '../utils/schoolRoles';
+import { Permission, hasPermission } from '../utils/permissions';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -7,10 +12,18 @@ export interface AuthRequest extends Request {
     role: string;
     email: string;
     schoolId?: string;
+    schoolRole?: SchoolRole;
+    sessionId?: string;
   };
 }
 
-export const authMiddleware = (req: AuthRequest, res: Response, next: NextFunction): void => {
+/**
+ * Accept a valid access token only while its user is active, its session
+ * hasn't been revoked and the user's token version hasn't moved on.
+ * The role and school come from the database, so changes apply immediately.
+ */
+export const authMiddleware = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  let decoded: Partial<AccessTokenPayload>;
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
 
@@ -19,32 +32,61 @@ export const authMiddleware = (req: AuthRequest, res: Response, next: NextFuncti
       return;
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret') as {
-      id: string;
-      role: string;
-      email: string;
-      schoolId?: string;
-    };
-
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, jwtSecret()) as Partial<AccessTokenPayload>;
   } catch (error) {
     res.status(401).json({ message: 'Invalid token.' });
+    return;
+  }
+
+  try {
+    const [user, session] = await Promise.all([
+      User.findById(decoded.id).select('role email schoolId schoolRole isActive tokenVersion'),
+      decoded.sid ? Session.findById(decoded.sid).select('revokedAt') : null,
+    ]);
+
+    // Tokens from before sessions existed carry no version and count as version 0
+    if (!user || !user.isActive || (decoded.tv ?? 0) !== (user.tokenVersion || 0) || (decoded.sid && (!session || session.revokedAt))) {
+      res.status(401).json({ message: 'Session expired. Please log in again.' });
+      return;
+    }
+
+    req.user = {
+      id: String(user._id),
+      role: user.role,
+      email: user.email,
+      schoolId: user.schoolId ? String(user.schoolId) : undefined,
+      schoolRole: user.role === 'school' ? user.schoolRole || DEFAULT_SCHOOL_ROLE : undefined,
+      sessionId: decoded.sid,
+    };
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: 'Server error', error: error.message });
   }
 };
 
-export const roleMiddleware = (...roles: string[]) => {
+/**
+ * Require a permission from the registry. With `schoolParam`, the route
+ * parameter names the school the request acts on, so `own_school` grants
+ * only pass for the user's own school. Records loaded inside the handler
+ * are checked there with `hasPermission`.
+ */
+export const can = (permission: Permission, options: { schoolParam?: string } = {}) => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({ message: 'Unauthorized' });
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!hasPermission(req.user, permission)) {
       res.status(403).json({ message: 'Access denied. Insufficient permissions.' });
       return;
     }
 
+    if (options.schoolParam && !hasPermission(req.user, permission, { schoolId: req.params[options.schoolParam] })) {
+      res.status(403).json({ message: 'Not authorized to access this school' });
+      return;
+    }
+
     next();
   };
 };
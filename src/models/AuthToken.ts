@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * Single-use token emailed to a user. Only its hash is stored.
+ */
+export interface IAuthToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+const AuthTokenSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['password_reset', 'email_verification'],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+AuthTokenSchema.index({ userId: 1, purpose: 1 });
+
+// Expired tokens are removed by MongoDB
+AuthTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAuthToken>('AuthToken', AuthTokenSchema);
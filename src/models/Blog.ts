@@ -1,4 +1,18 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import crypto from 'crypto';
+
+export type BlogStatus = 'draft_writer' | 'draft_created' | 'review' | 'approved_school' | 'rejected' | 'published_wp';
+
+export interface IBlogStatusChange {
+  from?: BlogStatus;
+  to: BlogStatus;
+  actor: mongoose.Types.ObjectId;
+  actorRole: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export type BlogSyncStatus = 'not_published' | 'in_sync' | 'local_changes' | 'remote_changes' | 'conflict' | 'missing';
 
 export interface IBlog extends Document {
   submissionId: mongoose.Types.ObjectId;
@@ -12,16 +26,59 @@ export interface IBlog extends Document {
   category: string;
   seoKeywords: string[];
   readingTime: number;
-  status: 'draft_writer' | 'draft_created' | 'review' | 'approved_school' | 'rejected' | 'published_wp';
+  status: BlogStatus;
+  statusHistory: IBlogStatusChange[];
   assignedSchool?: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
+  wordpressSite: 'central' | 'school'; // Site holding wordpressPostId
   wordpressPostId?: number;
   wordpressUrl?: string;
+  mirrorWordpressPostId?: number;      // Copy on the other site when publishing to both
+  mirrorWordpressUrl?: string;
+  mirrorWordpressMediaId?: number;
+  wordpressStatus?: 'publish' | 'draft' | 'trash';
+  wordpressModifiedAt?: string; // modified_gmt of the WordPress post when we last synced
+  wordpressSyncHash?: string;   // Hash of the fields last pushed to WordPress
+  wordpressMediaId?: number;
+  wordpressMediaSource?: string; // featuredImage that wordpressMediaId was uploaded from
+  syncStatus: BlogSyncStatus;
+  lastSyncedAt?: Date;
   publishedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const BlogStatusChangeSchema: Schema = new Schema(
+  {
+    from: {
+      type: String,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    actorRole: {
+      type: String,
+      required: true,
+    },
+    reason: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
 const BlogSchema: Schema = new Schema(
   {
     submissionId: {
@@ -74,6 +131,10 @@ const BlogSchema: Schema = new Schema(
       enum: ['draft_writer', 'draft_created', 'review', 'approved_school', 'rejected', 'published_wp'],
       default: 'draft_writer',
     },
+    statusHistory: {
+      type: [BlogStatusChangeSchema],
+      default: [],
+    },
     assignedSchool: {
       type: Schema.Types.ObjectId,
       ref: 'School',
@@ -83,12 +144,50 @@ const BlogSchema: Schema = new Schema(
       ref: 'User',
       required: true,
     },
+    wordpressSite: {
+      type: String,
+      enum: ['central', 'school'],
+      default: 'central',
+    },
     wordpressPostId: {
       type: Number,
     },
     wordpressUrl: {
       type: String,
     },
+    mirrorWordpressPostId: {
+      type: Number,
+    },
+    mirrorWordpressUrl: {
+      type: String,
+    },
+    mirrorWordpressMediaId: {
+      type: Number,
+    },
+    wordpressStatus: {
+      type: String,
+      enum: ['publish', 'draft', 'trash'],
+    },
+    wordpressModifiedAt: {
+      type: String,
+    },
+    wordpressSyncHash: {
+      type: String,
+    },
+    wordpressMediaId: {
+      type: Number,
+    },
+    wordpressMediaSource: {
+      type: String,
+    },
+    syncStatus: {
+      type: String,
+      enum: ['not_published', 'in_sync', 'local_changes', 'remote_changes', 'conflict', 'missing'],
+      default: 'not_published',
+    },
+    lastSyncedAt: {
+      type: Date,
+    },
     publishedAt: {
       type: Date,
     },
@@ -98,4 +197,39 @@ const BlogSchema: Schema = new Schema(
   }
 );
 
+/**
+ * Hash of the fields we push to WordPress, used to detect local drift.
+ */
+export const computeSyncHash = (blog: Pick<IBlog, 'title' | 'content' | 'slug' | 'metaTitle' | 'metaDescription' | 'tags' | 'featuredImage'>): string =>
+  crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      blog.title,
+      blog.content,
+      blog.slug,
+      blog.metaTitle,
+      blog.metaDescription,
+      blog.tags || [],
+      blog.featuredImage || '',
+    ]))
+    .digest('hex');
+
+// Flag local edits to a published post so the UI can offer a re-sync
+BlogSchema.pre('save', function (next) {
+  const blog = this as unknown as IBlog;
+  if (!blog.wordpressSyncHash) return next();
+
+  const changed = computeSyncHash(blog) !== blog.wordpressSyncHash;
+  const remoteChanged = blog.syncStatus === 'remote_changes' || blog.syncStatus === 'conflict';
+
+  if (changed) {
+    blog.syncStatus = remoteChanged ? 'conflict' : 'local_changes';
+  } else if (blog.syncStatus === 'local_changes') {
+    blog.syncStatus = 'in_sync';
+  } else if (blog.syncStatus === 'conflict') {
+    blog.syncStatus = 'remote_changes';
+  }
+  next();
+});
+
 export default mongoose.model<IBlog>('Blog', BlogSchema);
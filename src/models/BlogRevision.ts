@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBlogRevision extends Document {
+  blogId: mongoose.Types.ObjectId;
+  revision: number;
+  title: string;
+  content: string;
+  metaTitle: string;
+  metaDescription: string;
+  tags: string[];
+  seoKeywords: string[];
+  source: 'baseline' | 'writer' | 'review' | 'ai' | 'restore';
+  restoredFrom?: number;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const BlogRevisionSchema: Schema = new Schema(
+  {
+    blogId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Blog',
+      required: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    metaTitle: {
+      type: String,
+    },
+    metaDescription: {
+      type: String,
+    },
+    tags: [{
+      type: String,
+    }],
+    seoKeywords: [{
+      type: String,
+    }],
+    source: {
+      type: String,
+      enum: ['baseline', 'writer', 'review', 'ai', 'restore'],
+      required: true,
+    },
+    restoredFrom: {
+      type: Number,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+BlogRevisionSchema.index({ blogId: 1, revision: 1 }, { unique: true });
+
+export default mongoose.model<IBlogRevision>('BlogRevision', BlogRevisionSchema);
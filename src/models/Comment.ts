@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICommentAnchor {
+  start: number;
+  end: number;
+  quote?: string;
+}
+
+export interface IComment extends Document {
+  targetType: 'blog' | 'submission';
+  targetId: mongoose.Types.ObjectId;
+  schoolId?: mongoose.Types.ObjectId; // School owning the target, used for scoping
+  parentId?: mongoose.Types.ObjectId; // Set on replies
+  author: mongoose.Types.ObjectId;
+  body: string;
+  anchor?: ICommentAnchor;
+  mentions: mongoose.Types.ObjectId[];
+  isResolved: boolean;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentSchema: Schema = new Schema(
+  {
+    targetType: {
+      type: String,
+      enum: ['blog', 'submission'],
+      required: true,
+    },
+    targetId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    schoolId: {
+      type: Schema.Types.ObjectId,
+      ref: 'School',
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    anchor: {
+      start: { type: Number },
+      end: { type: Number },
+      quote: { type: String },
+    },
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    isResolved: {
+      type: Boolean,
+      default: false,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    resolvedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CommentSchema.index({ targetType: 1, targetId: 1, createdAt: 1 });
+CommentSchema.index({ mentions: 1 });
+
+export default mongoose.model<IComment>('Comment', CommentSchema);
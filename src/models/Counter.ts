@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Named sequence, incremented atomically (e.g. invoice numbers per financial year).
+ */
+export interface ICounter extends Document {
+    key: string;
+    seq: number;
+}
+
+const CounterSchema: Schema = new Schema({
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    seq: {
+        type: Number,
+        default: 0,
+    },
+});
+
+export default mongoose.model<ICounter>('Counter', CounterSchema);
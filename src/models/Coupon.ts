@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type CouponDiscountType = 'percent' | 'flat';
+
+/**
+ * Campaign code a school enters when buying credits.
+ */
+export interface ICoupon extends Document {
+    code: string;
+    description?: string;
+    discountType: CouponDiscountType;
+    discountValue: number; // Percent, or rupees for a flat discount
+    bonusCoins: number; // Credited on top of the pack's coins
+    startsAt?: Date;
+    expiresAt?: Date;
+    maxRedemptions?: number; // Across all schools; unlimited when unset
+    perSchoolLimit: number;
+    allowedSchoolIds: mongoose.Types.ObjectId[]; // Empty means any school
+    redemptionCount: number; // Paid orders that used the code
+    isActive: boolean;
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CouponSchema: Schema = new Schema(
+    {
+        code: {
+            type: String,
+            required: true,
+            unique: true,
+            uppercase: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+        },
+        discountType: {
+            type: String,
+            enum: ['percent', 'flat'],
+            default: 'percent',
+        },
+        discountValue: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        bonusCoins: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        startsAt: {
+            type: Date,
+        },
+        expiresAt: {
+            type: Date,
+        },
+        maxRedemptions: {
+            type: Number,
+            min: 1,
+        },
+        perSchoolLimit: {
+            type: Number,
+            default: 1,
+            min: 1,
+        },
+        allowedSchoolIds: [{
+            type: Schema.Types.ObjectId,
+            ref: 'School',
+        }],
+        redemptionCount: {
+            type: Number,
+            default: 0,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+export default mongoose.model<ICoupon>('Coupon', CouponSchema);
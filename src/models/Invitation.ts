@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SchoolRole, SCHOOL_ROLES } from '../utils/schoolRoles';
+
+export type InvitationRole = 'admin' | 'writer' | 'school' | 'marketer';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+/**
+ * Invitation to create an account with a set role (and school, for school
+ * users). Only the token's hash is stored; the link is emailed to the invitee.
+ */
+export interface IInvitation extends Document {
+  email: string;
+  role: InvitationRole;
+  schoolId?: mongoose.Types.ObjectId;
+  schoolRole?: SchoolRole; // For school users
+  tokenHash: string;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  sentCount: number;
+  lastSentAt: Date;
+  acceptedAt?: Date;
+  acceptedUserId?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvitationSchema: Schema = new Schema(
+  {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    role: {
+      type: String,
+      enum: ['admin', 'writer', 'school', 'marketer'],
+      required: true,
+    },
+    schoolId: {
+      type: Schema.Types.ObjectId,
+      ref: 'School',
+    },
+    schoolRole: {
+      type: String,
+      enum: SCHOOL_ROLES,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    sentCount: {
+      type: Number,
+      default: 1,
+    },
+    lastSentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+InvitationSchema.index({ email: 1, acceptedAt: 1, revokedAt: 1 });
+InvitationSchema.index({ schoolId: 1, createdAt: -1 });
+
+/**
+ * Where an invitation stands; expiry is worked out from `expiresAt`.
+ */
+export const invitationStatus = (invitation: IInvitation): InvitationStatus => {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.revokedAt) return 'revoked';
+  if (invitation.expiresAt <= new Date()) return 'expired';
+  return 'pending';
+};
+
+export default mongoose.model<IInvitation>('Invitation', InvitationSchema);
@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IInvoiceParty {
+    name: string;
+    address?: string;
+    city?: string;
+    state?: string;
+    pincode?: string;
+    gstin?: string;
+    email?: string;
+}
+
+export interface IInvoiceLine {
+    description: string;
+    amount: number; // In paise
+    taxable: boolean;
+}
+
+export interface IInvoice extends Document {
+    invoiceNumber: string;
+    financialYear: string; // e.g. 2026-27
+    sequence: number;
+    schoolId: mongoose.Types.ObjectId;
+    paymentOrderId: mongoose.Types.ObjectId;
+    razorpayPaymentId?: string;
+    issuedAt: Date;
+    seller: IInvoiceParty; // Snapshots, so later edits never change an issued invoice
+    billTo: IInvoiceParty;
+    supplyType: 'intra_state' | 'inter_state';
+    lines: IInvoiceLine[];
+    coins: number;
+    // Amounts in paise
+    subtotal: number;
+    taxableValue: number;
+    gstPercent: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+    createdAt: Date;
+}
+
+const PartySchema = new Schema(
+    {
+        name: { type: String, required: true },
+        address: String,
+        city: String,
+        state: String,
+        pincode: String,
+        gstin: String,
+        email: String,
+    },
+    { _id: false }
+);
+
+const InvoiceSchema: Schema = new Schema(
+    {
+        invoiceNumber: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        financialYear: {
+            type: String,
+            required: true,
+        },
+        sequence: {
+            type: Number,
+            required: true,
+        },
+        schoolId: {
+            type: Schema.Types.ObjectId,
+            ref: 'School',
+            required: true,
+        },
+        paymentOrderId: {
+            type: Schema.Types.ObjectId,
+            ref: 'PaymentOrder',
+            required: true,
+            unique: true,
+        },
+        razorpayPaymentId: {
+            type: String,
+        },
+        issuedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        seller: {
+            type: PartySchema,
+            required: true,
+        },
+        billTo: {
+            type: PartySchema,
+            required: true,
+        },
+        supplyType: {
+            type: String,
+            enum: ['intra_state', 'inter_state'],
+            required: true,
+        },
+        lines: [{
+            _id: false,
+            description: { type: String, required: true },
+            amount: { type: Number, required: true },
+            taxable: { type: Boolean, default: false },
+        }],
+        coins: {
+            type: Number,
+            required: true,
+        },
+        subtotal: {
+            type: Number,
+            required: true,
+        },
+        taxableValue: {
+            type: Number,
+            required: true,
+        },
+        gstPercent: {
+            type: Number,
+            required: true,
+        },
+        cgst: {
+            type: Number,
+            default: 0,
+        },
+        sgst: {
+            type: Number,
+            default: 0,
+        },
+        igst: {
+            type: Number,
+            default: 0,
+        },
+        total: {
+            type: Number,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+InvoiceSchema.index({ schoolId: 1, issuedAt: -1 });
+InvoiceSchema.index({ issuedAt: -1 });
+
+export default mongoose.model<IInvoice>('Invoice', InvoiceSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type NotificationType = 'low_balance' | 'blocked_schools_digest';
+
+export interface INotification extends Document {
+    userId: mongoose.Types.ObjectId;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string; // Where the frontend should take the user
+    data?: Record<string, any>;
+    readAt?: Date;
+    createdAt: Date;
+}
+
+const NotificationSchema: Schema = new Schema(
+    {
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: ['low_balance', 'blocked_schools_digest'],
+            required: true,
+        },
+        title: {
+            type: String,
+            required: true,
+        },
+        message: {
+            type: String,
+            required: true,
+        },
+        link: {
+            type: String,
+        },
+        data: {
+            type: Schema.Types.Mixed,
+        },
+        readAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Short-lived record tying an OAuth `state` value to the data needed
+ * to finish the flow in the callback (e.g. a PKCE code verifier).
+ */
+export interface IOAuthState extends Document {
+    platform: string;
+    state: string;
+    codeVerifier?: string;
+    metadata?: Record<string, any>;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+const OAuthStateSchema: Schema = new Schema(
+    {
+        platform: {
+            type: String,
+            required: true,
+        },
+        state: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        codeVerifier: {
+            type: String,
+        },
+        metadata: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// MongoDB removes expired states automatically
+OAuthStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IOAuthState>('OAuthState', OAuthStateSchema);
@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PriceBreakdown } from '../utils/pricing';
+
+// amount_mismatch: Razorpay captured a different amount than ordered; held for an admin to review
+export type PaymentOrderStatus = 'created' | 'paid' | 'failed' | 'partially_refunded' | 'refunded' | 'amount_mismatch';
+
+export interface IPaymentOrder extends Document {
+    schoolId: mongoose.Types.ObjectId;
+    razorpayOrderId: string;
+    amount: number; // In paise, as sent to Razorpay
+    baseAmount: number; // Price before fees, in rupees
+    packId?: mongoose.Types.ObjectId;
+    packName?: string;
+    breakdown?: PriceBreakdown; // Snapshot of the price at order time, in paise
+    couponId?: mongoose.Types.ObjectId;
+    couponCode?: string;
+    bonusCoins: number; // Coupon bonus, credited on top of `coins`
+    couponRejectedReason?: string; // Set when the coupon was over its limits at credit time; no bonus was paid
+    currency: string;
+    coins: number; // Coins credited once the order is paid
+    receipt?: string;
+    status: PaymentOrderStatus;
+    razorpayPaymentId?: string;
+    creditedAt?: Date; // Set once, by whichever of verify/webhook gets there first
+    creditedVia?: 'verify' | 'webhook';
+    verifiedAt?: Date; // First browser verification; later ones are replays
+    failureReason?: string;
+    capturedAmount?: number; // In paise; only stored when it differs from `amount`
+    refundedAmount: number; // In paise
+    refundedCoins: number; // Coins taken back from the school for those refunds
+    refundIds: string[]; // Razorpay refund IDs already applied
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PaymentOrderSchema: Schema = new Schema(
+    {
+        schoolId: {
+            type: Schema.Types.ObjectId,
+            ref: 'School',
+            required: true,
+        },
+        razorpayOrderId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+        },
+        baseAmount: {
+            type: Number,
+            required: true,
+        },
+        packId: {
+            type: Schema.Types.ObjectId,
+        },
+        packName: {
+            type: String,
+        },
+        breakdown: {
+            base: Number,
+            discount: Number,
+            couponDiscount: Number,
+            subtotal: Number,
+            platformFee: Number,
+            gst: Number,
+            rounding: Number,
+            total: Number,
+            discountPercent: Number,
+            platformFeePercent: Number,
+            gstPercent: Number,
+        },
+        couponId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Coupon',
+        },
+        couponCode: {
+            type: String,
+        },
+        bonusCoins: {
+            type: Number,
+            default: 0,
+        },
+        couponRejectedReason: {
+            type: String,
+        },
+        currency: {
+            type: String,
+            default: 'INR',
+        },
+        coins: {
+            type: Number,
+            required: true,
+        },
+        receipt: {
+            type: String,
+        },
+        status: {
+            type: String,
+            enum: ['created', 'paid', 'failed', 'partially_refunded', 'refunded', 'amount_mismatch'],
+            default: 'created',
+        },
+        razorpayPaymentId: {
+            type: String,
+        },
+        creditedAt: {
+            type: Date,
+        },
+        creditedVia: {
+            type: String,
+            enum: ['verify', 'webhook'],
+        },
+        verifiedAt: {
+            type: Date,
+        },
+        failureReason: {
+            type: String,
+        },
+        capturedAmount: {
+            type: Number,
+        },
+        refundedAmount: {
+            type: Number,
+            default: 0,
+        },
+        refundedCoins: {
+            type: Number,
+            default: 0,
+        },
+        refundIds: [{
+            type: String,
+        }],
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+PaymentOrderSchema.index({ razorpayPaymentId: 1 });
+PaymentOrderSchema.index({ schoolId: 1, createdAt: -1 });
+
+export default mongoose.model<IPaymentOrder>('PaymentOrder', PaymentOrderSchema);
@@ -0,0 +1,192 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PricedAction = 'publish';
+
+export interface ICreditPack {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    description?: string;
+    coins: number;
+    baseAmount: number; // Price before fees and GST, in rupees
+    isActive: boolean;
+    sortOrder: number;
+}
+
+export type PlanPeriod = 'monthly' | 'yearly';
+
+export interface ISubscriptionPlan {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    description?: string;
+    period: PlanPeriod; // How often the school is billed
+    baseAmount: number; // Price per billing period before fees and GST, in rupees
+    monthlyCoins: number; // Allowance granted every month while the plan is paid for
+    rolloverLimit: number; // Most unused allowance coins carried into the next month
+    razorpayPlanId: string; // Razorpay plans can't be edited; a price change creates a new one
+    isActive: boolean;
+    sortOrder: number;
+}
+
+export interface IActionPricing {
+    action: PricedAction;
+    cost: number;   // Coins debited when the action happens
+    reward: number; // Coins credited back once it succeeds
+}
+
+export interface IPricingConfig extends Document {
+    key: string; // There is a single 'default' config
+    currency: string;
+    platformFeePercent: number; // Charged on the (discounted) base price
+    gstPercent: number;         // Charged on the platform fee
+    lowBalanceThreshold: number; // Schools are alerted when a debit takes them below this
+    referralReward: number; // Coins a school earns when a school it referred first buys credits
+    packs: ICreditPack[];
+    plans: ISubscriptionPlan[];
+    actions: IActionPricing[];
+    updatedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CreditPackSchema = new Schema(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+        },
+        coins: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        baseAmount: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        sortOrder: {
+            type: Number,
+            default: 0,
+        },
+    }
+);
+
+const SubscriptionPlanSchema = new Schema(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+        },
+        period: {
+            type: String,
+            enum: ['monthly', 'yearly'],
+            required: true,
+        },
+        baseAmount: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        monthlyCoins: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        rolloverLimit: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        razorpayPlanId: {
+            type: String,
+            required: true,
+        },
+        isActive: {
+            type: Boolean,
+            default: true,
+        },
+        sortOrder: {
+            type: Number,
+            default: 0,
+        },
+    }
+);
+
+const ActionPricingSchema = new Schema(
+    {
+        action: {
+            type: String,
+            enum: ['publish'],
+            required: true,
+        },
+        cost: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        reward: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+    },
+    { _id: false }
+);
+
+const PricingConfigSchema: Schema = new Schema(
+    {
+        key: {
+            type: String,
+            default: 'default',
+            unique: true,
+        },
+        currency: {
+            type: String,
+            default: 'INR',
+        },
+        platformFeePercent: {
+            type: Number,
+            default: 2,
+            min: 0,
+        },
+        gstPercent: {
+            type: Number,
+            default: 18,
+            min: 0,
+        },
+        lowBalanceThreshold: {
+            type: Number,
+            default: 200,
+            min: 0,
+        },
+        referralReward: {
+            type: Number,
+            default: 100,
+            min: 0,
+        },
+        packs: [CreditPackSchema],
+        plans: [SubscriptionPlanSchema],
+        actions: [ActionPricingSchema],
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+export default mongoose.model<IPricingConfig>('PricingConfig', PricingConfigSchema);
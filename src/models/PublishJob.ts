@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPublishJob extends Document {
+  blogId: mongoose.Types.ObjectId;
+  schoolId: mongoose.Types.ObjectId;
+  status: 'in_progress' | 'completed' | 'failed';
+  coinsReserved: number;  // Coins held back from the school until WordPress confirms
+  coinsBefore?: number;   // School balance before the reservation
+  coinsReward: number;    // Reward fixed at reservation time so retries pay the same
+  wordpressSite?: 'central' | 'school';
+  featuredMediaId?: number;
+  wordpressPostId?: number;
+  wordpressUrl?: string;
+  ledgerCommitted: boolean; // Debit and reward written to the Transaction ledger
+  attempts: number;
+  lastError?: string;
+  startedBy: mongoose.Types.ObjectId;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PublishJobSchema: Schema = new Schema(
+  {
+    blogId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Blog',
+      required: true,
+      unique: true,
+    },
+    schoolId: {
+      type: Schema.Types.ObjectId,
+      ref: 'School',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['in_progress', 'completed', 'failed'],
+      default: 'in_progress',
+    },
+    coinsReserved: {
+      type: Number,
+      default: 0,
+    },
+    coinsBefore: {
+      type: Number,
+    },
+    coinsReward: {
+      type: Number,
+      default: 0,
+    },
+    wordpressSite: {
+      type: String,
+      enum: ['central', 'school'],
+    },
+    featuredMediaId: {
+      type: Number,
+    },
+    wordpressPostId: {
+      type: Number,
+    },
+    wordpressUrl: {
+      type: String,
+    },
+    ledgerCommitted: {
+      type: Boolean,
+      default: false,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: String,
+    },
+    startedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IPublishJob>('PublishJob', PublishJobSchema);
@@ -1,4 +1,19 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PricedAction } from './PricingConfig';
+
+export interface ISchoolWordPress {
+  baseUrl?: string;
+  username?: string;
+  appPassword?: string; // Encrypted with utils/encryption
+  verifiedAt?: Date;
+}
+
+// Partner pricing that replaces the defaults for one school
+export interface ISchoolPricingOverride {
+  discountPercent?: number; // Off the base price of every credit pack
+  actions?: Array<{ action: PricedAction; cost?: number; reward?: number }>;
+  note?: string;
+}
 
 export interface ISchool extends Document {
   name: string;
@@ -13,9 +28,20 @@ export interface ISchool extends Document {
   logo?: string;
   website?: string;
   coins: number;
+  billingName?: string; // Legal name printed on tax invoices
+  gstin?: string;
   instagramAccessToken?: string;
   instagramAccountId?: string;
   instagramPageId?: string;
+  wordpress?: ISchoolWordPress;
+  publishTarget: 'central' | 'school' | 'both';
+  socialTarget: 'central' | 'school' | 'both';
+  pricingOverride?: ISchoolPricingOverride;
+  lowBalanceThreshold?: number; // Replaces the platform default when set
+  lowBalanceNotifiedAt?: Date; // Set once alerted; cleared when the balance recovers
+  referralCode?: string; // Other schools enter this to be referred by this one
+  referredBy?: mongoose.Types.ObjectId;
+  referralRewardedAt?: Date; // Set once the referrer has been rewarded for this school
   createdAt: Date;
   updatedAt: Date;
 }
@@ -70,6 +96,15 @@ const SchoolSchema: Schema = new Schema(
       type: Number,
       default: 0,
     },
+    billingName: {
+      type: String,
+      trim: true,
+    },
+    gstin: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
     instagramAccessToken: {
       type: String,
     },
@@ -79,6 +114,53 @@ const SchoolSchema: Schema = new Schema(
     instagramPageId: {
       type: String,
     },
+    wordpress: {
+      baseUrl: { type: String, trim: true },
+      username: { type: String, trim: true },
+      appPassword: { type: String, select: false },
+      verifiedAt: { type: Date },
+    },
+    publishTarget: {
+      type: String,
+      enum: ['central', 'school', 'both'],
+      default: 'central',
+    },
+    socialTarget: {
+      type: String,
+      enum: ['central', 'school', 'both'],
+      default: 'central',
+    },
+    pricingOverride: {
+      discountPercent: { type: Number, min: 0, max: 100 },
+      actions: [{
+        _id: false,
+        action: { type: String, enum: ['publish'], required: true },
+        cost: { type: Number, min: 0 },
+        reward: { type: Number, min: 0 },
+      }],
+      note: { type: String },
+    },
+    lowBalanceThreshold: {
+      type: Number,
+      min: 0,
+    },
+    lowBalanceNotifiedAt: {
+      type: Date,
+    },
+    referralCode: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      unique: true,
+      sparse: true,
+    },
+    referredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'School',
+    },
+    referralRewardedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type SecurityEventType =
+    | 'payment_signature_invalid'
+    | 'payment_order_mismatch'
+    | 'payment_replay'
+    | 'payment_duplicate'
+    | 'payment_amount_mismatch'
+    | 'refresh_token_reuse';
+
+export interface ISecurityEvent extends Document {
+    type: SecurityEventType;
+    schoolId?: mongoose.Types.ObjectId;
+    userId?: mongoose.Types.ObjectId;
+    ip?: string;
+    details?: Record<string, any>;
+    reviewedAt?: Date;
+    reviewedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+}
+
+const SecurityEventSchema: Schema = new Schema(
+    {
+        type: {
+            type: String,
+            enum: [
+                'payment_signature_invalid',
+                'payment_order_mismatch',
+                'payment_replay',
+                'payment_duplicate',
+                'payment_amount_mismatch',
+                'refresh_token_reuse',
+            ],
+            required: true,
+        },
+        schoolId: {
+            type: Schema.Types.ObjectId,
+            ref: 'School',
+        },
+        userId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        ip: {
+            type: String,
+        },
+        details: {
+            type: Schema.Types.Mixed,
+        },
+        reviewedAt: {
+            type: Date,
+        },
+        reviewedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+SecurityEventSchema.index({ createdAt: -1 });
+SecurityEventSchema.index({ type: 1, createdAt: -1 });
+
+export default mongoose.model<ISecurityEvent>('SecurityEvent', SecurityEventSchema);
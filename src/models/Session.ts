@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * A signed-in device. The refresh token itself is never stored, only its
+ * hash; each refresh replaces it, and the one before is kept so a stolen,
+ * already-used token can be recognised.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHash?: string;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'revoked' | 'reuse_detected' | 'token_version';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    previousTokenHash: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    ip: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'reuse_detected', 'token_version'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+SessionSchema.index({ previousTokenHash: 1 }, { sparse: true });
+
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
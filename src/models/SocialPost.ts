@@ -1,13 +1,24 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type SocialPostStatus = 'draft' | 'scheduled' | 'publishing' | 'published' | 'failed' | 'deleted';
+
 export interface ISocialPost extends Document {
   blogId: mongoose.Types.ObjectId;
   platform: 'instagram' | 'linkedin' | 'twitter' | 'facebook';
+  account: 'central' | 'school'; // Which account the post goes out on
+  schoolId?: mongoose.Types.ObjectId; // Set for school account posts
   caption: string;
   hashtags: string[];
   scheduledFor?: Date;
-  isPublished: boolean;
+  status: SocialPostStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  lastError?: string;
+  errorPayload?: any; // Raw error body returned by the platform
+  isPublished: boolean; // Virtual: status === 'published'
   publishedId?: string;
+  publishedAt?: Date;
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -25,6 +36,15 @@ const SocialPostSchema: Schema = new Schema(
       enum: ['instagram', 'linkedin', 'twitter', 'facebook'],
       required: true,
     },
+    account: {
+      type: String,
+      enum: ['central', 'school'],
+      default: 'central',
+    },
+    schoolId: {
+      type: Schema.Types.ObjectId,
+      ref: 'School',
+    },
     caption: {
       type: String,
       required: true,
@@ -35,13 +55,33 @@ const SocialPostSchema: Schema = new Schema(
     scheduledFor: {
       type: Date,
     },
-    isPublished: {
-      type: Boolean,
-      default: false,
+    status: {
+      type: String,
+      enum: ['draft', 'scheduled', 'publishing', 'published', 'failed', 'deleted'],
+      default: 'draft',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lastAttemptAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    errorPayload: {
+      type: Schema.Types.Mixed,
     },
     publishedId: {
       type: String,
     },
+    publishedAt: {
+      type: Date,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -50,7 +90,24 @@ const SocialPostSchema: Schema = new Schema(
   },
   {
     timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
   }
 );
 
+// Kept for clients that still read the old boolean
+SocialPostSchema.virtual('isPublished').get(function (this: ISocialPost) {
+  return this.status === 'published';
+});
+
+// Posts saved before the status field existed only have isPublished
+SocialPostSchema.pre('init', function (raw: any) {
+  if (!raw.status) {
+    raw.status = raw.isPublished ? 'published' : 'draft';
+  }
+});
+
+SocialPostSchema.index({ status: 1, nextAttemptAt: 1 });
+SocialPostSchema.index({ status: 1, platform: 1, createdAt: -1 });
+
 export default mongoose.model<ISocialPost>('SocialPost', SocialPostSchema);
@@ -1,13 +1,17 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
 export interface ISocialToken extends Document {
-    platform: 'facebook' | 'linkedin';
+    platform: 'facebook' | 'instagram' | 'linkedin' | 'twitter';
+    schoolId?: mongoose.Types.ObjectId; // Unset for the central SchoolChamps accounts
     accessToken: string;
     refreshToken?: string;
     tokenExpiresAt?: Date;
     pageId?: string;        // Facebook Page ID
+    instagramAccountId?: string; // Instagram business account linked to the page
     personUrn?: string;     // LinkedIn person URN (urn:li:person:xxx)
     orgUrn?: string;        // LinkedIn organization URN (optional)
+    userId?: string;        // Twitter/X user ID
+    username?: string;      // Twitter/X handle
     metadata?: Record<string, any>;
     updatedAt: Date;
     createdAt: Date;
@@ -17,9 +21,13 @@ const SocialTokenSchema: Schema = new Schema(
     {
         platform: {
             type: String,
-            enum: ['facebook', 'linkedin'],
+            enum: ['facebook', 'instagram', 'linkedin', 'twitter'],
             required: true,
-            unique: true,
+        },
+        schoolId: {
+            type: Schema.Types.ObjectId,
+            ref: 'School',
+            default: null,
         },
         accessToken: {
             type: String,
@@ -34,12 +42,21 @@ const SocialTokenSchema: Schema = new Schema(
         pageId: {
             type: String,
         },
+        instagramAccountId: {
+            type: String,
+        },
         personUrn: {
             type: String,
         },
         orgUrn: {
             type: String,
         },
+        userId: {
+            type: String,
+        },
+        username: {
+            type: String,
+        },
         metadata: {
             type: Schema.Types.Mixed,
             default: {},
@@ -50,4 +67,7 @@ const SocialTokenSchema: Schema = new Schema(
     }
 );
 
+// One account per platform for SchoolChamps (schoolId null) and per school
+SocialTokenSchema.index({ platform: 1, schoolId: 1 }, { unique: true });
+
 export default mongoose.model<ISocialToken>('SocialToken', SocialTokenSchema);
@@ -0,0 +1,139 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PlanPeriod } from './PricingConfig';
+
+// Razorpay subscription states
+export type SubscriptionStatus =
+    | 'created'
+    | 'authenticated'
+    | 'active'
+    | 'pending'
+    | 'halted'
+    | 'cancelled'
+    | 'completed'
+    | 'expired';
+
+export interface ISubscriptionPayment {
+    paymentId: string;
+    amount: number; // In paise
+    paidAt: Date;
+}
+
+export interface ISubscription extends Document {
+    schoolId: mongoose.Types.ObjectId;
+    planId: mongoose.Types.ObjectId;
+    // Plan terms at sign-up; later plan edits don't change them
+    planName: string;
+    period: PlanPeriod;
+    amount: number; // Charged per billing period, in paise
+    monthlyCoins: number;
+    rolloverLimit: number;
+    razorpaySubscriptionId: string;
+    razorpayPlanId: string;
+    shortUrl?: string; // Razorpay hosted checkout link
+    status: SubscriptionStatus;
+    currentPeriodStart?: Date;
+    currentPeriodEnd?: Date; // Paid up to here; no allowance is granted after it
+    cancelAtPeriodEnd: boolean;
+    allowanceAnchor?: Date; // Allowances fall due on this date each month
+    allowancesGranted: number;
+    nextAllowanceAt?: Date;
+    allowanceRemaining: number; // Allowance coins not yet spent, for the rollover limit
+    payments: ISubscriptionPayment[];
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SubscriptionSchema: Schema = new Schema(
+    {
+        schoolId: {
+            type: Schema.Types.ObjectId,
+            ref: 'School',
+            required: true,
+        },
+        planId: {
+            type: Schema.Types.ObjectId,
+            required: true,
+        },
+        planName: {
+            type: String,
+            required: true,
+        },
+        period: {
+            type: String,
+            enum: ['monthly', 'yearly'],
+            required: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+        },
+        monthlyCoins: {
+            type: Number,
+            required: true,
+        },
+        rolloverLimit: {
+            type: Number,
+            default: 0,
+        },
+        razorpaySubscriptionId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        razorpayPlanId: {
+            type: String,
+            required: true,
+        },
+        shortUrl: {
+            type: String,
+        },
+        status: {
+            type: String,
+            enum: ['created', 'authenticated', 'active', 'pending', 'halted', 'cancelled', 'completed', 'expired'],
+            default: 'created',
+        },
+        currentPeriodStart: {
+            type: Date,
+        },
+        currentPeriodEnd: {
+            type: Date,
+        },
+        cancelAtPeriodEnd: {
+            type: Boolean,
+            default: false,
+        },
+        allowanceAnchor: {
+            type: Date,
+        },
+        allowancesGranted: {
+            type: Number,
+            default: 0,
+        },
+        nextAllowanceAt: {
+            type: Date,
+        },
+        allowanceRemaining: {
+            type: Number,
+            default: 0,
+        },
+        payments: [{
+            _id: false,
+            paymentId: { type: String, required: true },
+            amount: { type: Number, required: true },
+            paidAt: { type: Date, default: Date.now },
+        }],
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+SubscriptionSchema.index({ schoolId: 1, createdAt: -1 });
+SubscriptionSchema.index({ status: 1, nextAllowanceAt: 1 });
+
+export default mongoose.model<ISubscription>('Subscription', SubscriptionSchema);
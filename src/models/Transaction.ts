@@ -1,14 +1,41 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type TransactionType =
+    | 'purchase'
+    | 'debit'
+    | 'reward'
+    | 'refund'
+    | 'adjustment_credit'
+    | 'adjustment_debit'
+    | 'allowance' // Monthly subscription coins
+    | 'allowance_expiry' // Unused allowance over the plan's rollover limit
+    | 'bonus' // Coupon bonus coins
+    | 'referral_reward';
+
+export const TRANSACTION_TYPES: TransactionType[] = [
+    'purchase',
+    'debit',
+    'reward',
+    'refund',
+    'adjustment_credit',
+    'adjustment_debit',
+    'allowance',
+    'allowance_expiry',
+    'bonus',
+    'referral_reward',
+];
+
 export interface ITransaction extends Document {
     schoolId: mongoose.Types.ObjectId;
-    type: 'purchase' | 'debit' | 'reward';
-    coins: number;
+    type: TransactionType;
+    coins: number; // Always positive; the type says which way the balance moved
     amount?: number; // Real money amount in currency (e.g., 99 for purchase)
     coinsBefore: number;
     coinsAfter: number;
-    referenceId?: string; // Razorpay payment ID or Blog ID
+    referenceId?: string; // Razorpay payment/refund/subscription ID or Blog ID
     description?: string;
+    code?: string; // Coupon or referral code the entry came from
+    createdBy?: mongoose.Types.ObjectId; // Admin who made a refund or manual adjustment
     createdAt: Date;
 }
 
@@ -21,7 +48,7 @@ const TransactionSchema: Schema = new Schema(
         },
         type: {
             type: String,
-            enum: ['purchase', 'debit', 'reward'],
+            enum: TRANSACTION_TYPES,
             required: true,
         },
         coins: {
@@ -45,10 +72,26 @@ const TransactionSchema: Schema = new Schema(
         description: {
             type: String,
         },
+        code: {
+            type: String,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
     },
     {
         timestamps: { createdAt: true, updatedAt: false },
     }
 );
 
+TransactionSchema.index({ schoolId: 1, createdAt: -1 });
+TransactionSchema.index({ code: 1 }, { sparse: true });
+
+// A Razorpay payment can only ever be credited once
+TransactionSchema.index(
+    { referenceId: 1 },
+    { unique: true, partialFilterExpression: { type: 'purchase' } }
+);
+
 export default mongoose.model<ITransaction>('Transaction', TransactionSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { SchoolRole, SCHOOL_ROLES } from '../utils/schoolRoles';
 
 export interface IUser extends Document {
   name: string;
@@ -6,7 +7,12 @@ export interface IUser extends Document {
   password: string;
   role: 'admin' | 'writer' | 'school' | 'marketer';
   schoolId?: mongoose.Types.ObjectId;
+  schoolRole?: SchoolRole; // What a school user may do for their school; unset means school_admin
   isActive: boolean;
+  tokenVersion: number; // Bumped to invalidate every token issued before
+  emailVerified?: boolean; // False until a self-registered user confirms their email
+  emailVerifiedAt?: Date;
+  passwordChangedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,10 +45,27 @@ const UserSchema: Schema = new Schema(
       ref: 'School',
       required: false,
     },
+    schoolRole: {
+      type: String,
+      enum: SCHOOL_ROLES,
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    emailVerified: {
+      type: Boolean,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
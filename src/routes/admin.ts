@@ -1,21 +1,40 @@
 import { Router, Response } from 'express';
+import mongoose from 'mongoose';
 import School from '../models/School';
 import Submission from '../models/Submission';
 import Blog from '../models/Blog';
-import { body, validationResult } from 'express-validator';
-import bcrypt from 'bcryptjs';
+import { body, param, query, validationResult } from 'express-validator';
 import User from '../models/User';
 import Transaction from '../models/Transaction';
-import { authMiddleware, roleMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import SecurityEvent from '../models/SecurityEvent';
+import Invoice from '../models/Invoice';
+import PaymentOrder from '../models/PaymentOrder';
+import Subscription from '../models/Subscription';
+import Coupon, { ICoupon } from '../models/Coupon';
+import { ICreditPack, ISubscriptionPlan } from '../models/PricingConfig';
+import { getPricingConfig, PRICED_ACTIONS } from '../utils/pricing';
+import { invoicesToCsv } from '../utils/invoices';
+import { PaymentError, refundPaymentOrder } from '../utils/paymentOrders';
+import { CoinError, adjustSchoolCoins, reconcileLedger } from '../utils/coinService';
+import ledgerReconciliationService from '../utils/ledgerReconciliationService';
+import { getBlockedSchools } from '../utils/lowBalanceAlerts';
+import { createRazorpayPlan } from '../utils/subscriptions';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { transitionBlog, WorkflowError } from '../utils/blogWorkflow';
+import { invalidateUserTokens } from '../utils/sessions';
+import { setUserPassword } from '../utils/accountTokens';
+import { InvitationError, createInvitation } from '../utils/invitations';
+import { ROLES, describePermissions, permissionsFor } from '../utils/permissions';
+import { SchoolRole, SCHOOL_ROLES, DEFAULT_SCHOOL_ROLE } from '../utils/schoolRoles';
 
 const router = Router();
 
 // @route   GET /api/admin/overview
 // @desc    Get admin dashboard overview
-// @access  Private (Admin only)
+// @access  Private (analytics.read)
 router.get(
   '/overview',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('analytics.read')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const totalSchools = await School.countDocuments({ isActive: true });
@@ -93,10 +112,10 @@ router.get(
 
 // @route   GET /api/admin/blogs
 // @desc    Get all blogs for admin
-// @access  Private (Admin only)
+// @access  Private (blog.manage)
 router.get(
   '/blogs',
-  [authMiddleware, roleMiddleware('admin', 'writer')],
+  [authMiddleware, can('blog.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blogs = await Blog.find()
@@ -115,35 +134,32 @@ router.get(
 
 // @route   PUT /api/admin/blogs/:id/status
 // @desc    Update blog status
-// @access  Private (Admin only)
+// @access  Private (blog.manage)
 router.put(
   '/blogs/:id/status',
-  [authMiddleware, roleMiddleware('admin', 'writer')],
+  [authMiddleware, can('blog.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { status } = req.body;
+      const { status, reason } = req.body;
 
-      if (!['draft_writer', 'draft_created', 'review', 'approved_school', 'rejected', 'published_wp'].includes(status)) {
-        res.status(400).json({ message: 'Invalid status' });
-        return;
-      }
-
-      const blog = await Blog.findByIdAndUpdate(
-        req.params.id,
-        { status },
-        { new: true }
-      );
+      const blog = await Blog.findById(req.params.id);
 
       if (!blog) {
         res.status(404).json({ message: 'Blog not found' });
         return;
       }
 
+      await transitionBlog(blog, status, req.user!, reason);
+
       res.json({
         message: 'Blog status updated successfully',
         blog,
       });
     } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
       console.error('Update blog status error:', error);
       res.status(500).json({ message: 'Server error', error: error.message });
     }
@@ -152,10 +168,10 @@ router.put(
 
 // @route   GET /api/admin/users
 // @desc    Get all users
-// @access  Private (Admin only)
+// @access  Private (user.manage)
 router.get(
   '/users',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('user.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const users = await User.find()
@@ -172,11 +188,11 @@ router.get(
 );
 
 // @route   PUT /api/admin/users/:id/toggle-active
-// @desc    Toggle user active status
-// @access  Private (Admin only)
+// @desc    Toggle user active status. Deactivating signs the user out everywhere.
+// @access  Private (user.manage)
 router.put(
   '/users/:id/toggle-active',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('user.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const user = await User.findById(req.params.id);
@@ -189,6 +205,10 @@ router.put(
       user.isActive = !user.isActive;
       await user.save();
 
+      if (!user.isActive) {
+        await invalidateUserTokens(String(user._id));
+      }
+
       res.json({
         message: `User ${user.isActive ? 'activated' : 'deactivated'} successfully`,
         user: {
@@ -206,17 +226,16 @@ router.put(
 );
 
 // @route   POST /api/admin/users
-// @desc    Create a new user (Writer/Marketer)
-// @access  Private (Admin only)
+// @desc    Invite a new admin, writer or marketer ({ email, role }). The account is created
+//          when they accept; see /api/invitations for resending and revoking.
+// @access  Private (user.manage)
 router.post(
   '/users',
   [
     authMiddleware,
-    roleMiddleware('admin'),
-    body('name').trim().notEmpty().withMessage('Name is required'),
+    can('user.manage'),
     body('email').isEmail().withMessage('Valid email is required'),
-    body('role').isIn(['writer', 'marketer']).withMessage('Invalid role'),
-    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+    body('role').isIn(['admin', 'writer', 'marketer']).withMessage('Invalid role'),
   ],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -226,39 +245,23 @@ router.post(
         return;
       }
 
-      const { name, email, password, role } = req.body;
-
-      // Check if user already exists
-      const existingUser = await User.findOne({ email });
-      if (existingUser) {
-        res.status(400).json({ message: 'User already exists' });
-        return;
-      }
-
-      // Hash password
-      const salt = await bcrypt.genSalt(10);
-      const hashedPassword = await bcrypt.hash(password, salt);
-
-      const user = new User({
-        name,
-        email,
-        password: hashedPassword,
-        role,
-        isActive: true,
-      });
-
-      await user.save();
+      const inviter = await User.findById(req.user!.id);
+      const invitation = await createInvitation({ email: req.body.email, role: req.body.role }, inviter!);
 
       res.status(201).json({
-        message: 'User created successfully',
-        user: {
-          id: user._id,
-          name: user.name,
-          email: user.email,
-          role: user.role,
+        message: 'Invitation sent',
+        invitation: {
+          id: invitation._id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
         },
       });
     } catch (error: any) {
+      if (error instanceof InvitationError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
       console.error('Create user error:', error);
       res.status(500).json({ message: 'Server error', error: error.message });
     }
@@ -266,13 +269,13 @@ router.post(
 );
 
 // @route   POST /api/admin/users/:id/reset-password
-// @desc    Reset user password
-// @access  Private (Admin only)
+// @desc    Reset user password and sign the user out everywhere
+// @access  Private (user.manage)
 router.post(
   '/users/:id/reset-password',
   [
     authMiddleware,
-    roleMiddleware('admin'),
+    can('user.manage'),
     body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
   ],
   async (req: AuthRequest, res: Response): Promise<void> => {
@@ -291,12 +294,7 @@ router.post(
         return;
       }
 
-      // Hash password
-      const salt = await bcrypt.genSalt(10);
-      const hashedPassword = await bcrypt.hash(password, salt);
-
-      user.password = hashedPassword;
-      await user.save();
+      await setUserPassword(user, password);
 
       res.json({ message: 'Password reset successfully' });
     } catch (error: any) {
@@ -308,20 +306,25 @@ router.post(
 
 // @route   GET /api/admin/credit-analytics
 // @desc    Get credit management analytics for super admin
-// @access  Private (Admin only)
+// @access  Private (billing.audit)
 router.get(
   '/credit-analytics',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('billing.audit')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       // 1. Total coins across all schools
       const schools = await School.find({}, 'name coins city');
       const totalCoins = schools.reduce((sum, school) => sum + (school.coins || 0), 0);
 
-      // 2. Total revenue (sum of amounts in purchase transactions)
+      // 2. Total revenue (purchase amounts less refunds)
       const revenueData = await Transaction.aggregate([
-        { $match: { type: 'purchase' } },
-        { $group: { _id: null, totalRevenue: { $sum: '$amount' } } }
+        { $match: { type: { $in: ['purchase', 'refund'] } } },
+        {
+          $group: {
+            _id: null,
+            totalRevenue: { $sum: { $cond: [{ $eq: ['$type', 'refund'] }, { $multiply: ['$amount', -1] }, '$amount'] } },
+          }
+        }
       ]);
       const totalRevenue = revenueData.length > 0 ? revenueData[0].totalRevenue : 0;
 
@@ -364,4 +367,872 @@ router.get(
   }
 );
 
+// The listed fields that are present in the request body
+const pickFields = <T>(input: any, fields: readonly (keyof T & string)[]): Partial<T> => {
+  const picked: Partial<T> = {};
+  for (const field of fields) {
+    if (input[field] !== undefined) picked[field] = input[field];
+  }
+  return picked;
+};
+
+const PACK_FIELDS = ['name', 'description', 'coins', 'baseAmount', 'isActive', 'sortOrder'] as const;
+
+const PLAN_FIELDS = [
+  'name', 'description', 'period', 'baseAmount', 'monthlyCoins', 'rolloverLimit', 'isActive', 'sortOrder',
+] as const;
+
+// @route   GET /api/admin/pricing
+// @desc    Get the pricing config (fees, GST, credit packs, action costs)
+// @access  Private (pricing.manage)
+router.get(
+  '/pricing',
+  [authMiddleware, can('pricing.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const pricing = await getPricingConfig();
+      res.json({ pricing });
+    } catch (error: any) {
+      console.error('Get pricing error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/admin/pricing
+// @desc    Update platform fee, GST, low balance threshold, referral reward and per-action coin costs/rewards
+// @access  Private (pricing.manage)
+router.put(
+  '/pricing',
+  [
+    authMiddleware,
+    can('pricing.manage'),
+    body('platformFeePercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Platform fee must be 0-100%'),
+    body('gstPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('GST must be 0-100%'),
+    body('lowBalanceThreshold').optional().isInt({ min: 0 }).withMessage('Low balance threshold must be a whole number of coins'),
+    body('referralReward').optional().isInt({ min: 0 }).withMessage('Referral reward must be a whole number of coins'),
+    body('actions').optional().isArray().withMessage('Actions must be an array'),
+    body('actions.*.action').isIn(PRICED_ACTIONS).withMessage('Invalid action'),
+    body('actions.*.cost').isInt({ min: 0 }).withMessage('Cost must be a whole number of coins'),
+    body('actions.*.reward').optional().isInt({ min: 0 }).withMessage('Reward must be a whole number of coins'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const pricing = await getPricingConfig();
+      const { platformFeePercent, gstPercent, lowBalanceThreshold, referralReward, actions } = req.body;
+
+      if (platformFeePercent !== undefined) pricing.platformFeePercent = platformFeePercent;
+      if (gstPercent !== undefined) pricing.gstPercent = gstPercent;
+      if (lowBalanceThreshold !== undefined) pricing.lowBalanceThreshold = lowBalanceThreshold;
+      if (referralReward !== undefined) pricing.referralReward = referralReward;
+      if (actions !== undefined) {
+        // Actions not in the request keep their current pricing
+        for (const update of actions) {
+          const existing = pricing.actions.find(a => a.action === update.action);
+          if (existing) {
+            existing.cost = update.cost;
+            existing.reward = update.reward ?? existing.reward;
+          } else {
+            pricing.actions.push({ action: update.action, cost: update.cost, reward: update.reward ?? 0 });
+          }
+        }
+      }
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.json({ message: 'Pricing updated successfully', pricing });
+    } catch (error: any) {
+      console.error('Update pricing error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/admin/pricing/packs
+// @desc    Add a credit pack
+// @access  Private (pricing.manage)
+router.post(
+  '/pricing/packs',
+  [
+    authMiddleware,
+    can('pricing.manage'),
+    body('name').trim().notEmpty().withMessage('Pack name is required'),
+    body('coins').isInt({ min: 1 }).withMessage('Coins must be a positive whole number'),
+    body('baseAmount').isFloat({ min: 1 }).withMessage('Base amount must be at least ₹1'),
+    body('isActive').optional().isBoolean(),
+    body('sortOrder').optional().isInt(),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { name, description, coins, baseAmount, isActive, sortOrder } = req.body;
+      const pricing = await getPricingConfig();
+
+      // Unset isActive and sortOrder take their schema defaults
+      pricing.packs.push({ _id: new mongoose.Types.ObjectId(), name, description, coins, baseAmount, isActive, sortOrder });
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.status(201).json({
+        message: 'Credit pack created successfully',
+        pack: pricing.packs[pricing.packs.length - 1],
+      });
+    } catch (error: any) {
+      console.error('Create credit pack error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/admin/pricing/packs/:packId
+// @desc    Update a credit pack. Orders already placed keep their price.
+// @access  Private (pricing.manage)
+router.put(
+  '/pricing/packs/:packId',
+  [
+    authMiddleware,
+    can('pricing.manage'),
+    body('name').optional().trim().notEmpty().withMessage('Pack name cannot be empty'),
+    body('coins').optional().isInt({ min: 1 }).withMessage('Coins must be a positive whole number'),
+    body('baseAmount').optional().isFloat({ min: 1 }).withMessage('Base amount must be at least ₹1'),
+    body('isActive').optional().isBoolean(),
+    body('sortOrder').optional().isInt(),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const pricing = await getPricingConfig();
+      const pack = pricing.packs.find(p => p._id.toString() === req.params.packId);
+      if (!pack) {
+        res.status(404).json({ message: 'Credit pack not found' });
+        return;
+      }
+
+      Object.assign(pack, pickFields<ICreditPack>(req.body, PACK_FIELDS));
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.json({ message: 'Credit pack updated successfully', pack });
+    } catch (error: any) {
+      console.error('Update credit pack error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/admin/pricing/packs/:packId
+// @desc    Remove a credit pack
+// @access  Private (pricing.manage)
+router.delete(
+  '/pricing/packs/:packId',
+  [authMiddleware, can('pricing.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const pricing = await getPricingConfig();
+      const index = pricing.packs.findIndex(p => p._id.toString() === req.params.packId);
+      if (index === -1) {
+        res.status(404).json({ message: 'Credit pack not found' });
+        return;
+      }
+
+      pricing.packs.splice(index, 1);
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.json({ message: 'Credit pack removed' });
+    } catch (error: any) {
+      console.error('Delete credit pack error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/admin/pricing/plans
+// @desc    Add a subscription plan (also creates the Razorpay plan it bills through)
+// @access  Private (pricing.manage)
+router.post(
+  '/pricing/plans',
+  [
+    authMiddleware,
+    can('pricing.manage'),
+    body('name').trim().notEmpty().withMessage('Plan name is required'),
+    body('period').isIn(['monthly', 'yearly']).withMessage('Period must be monthly or yearly'),
+    body('baseAmount').isFloat({ min: 1 }).withMessage('Base amount must be at least ₹1'),
+    body('monthlyCoins').isInt({ min: 1 }).withMessage('Monthly coins must be a positive whole number'),
+    body('rolloverLimit').optional().isInt({ min: 0 }).withMessage('Rollover limit must be a whole number of coins'),
+    body('isActive').optional().isBoolean(),
+    body('sortOrder').optional().isInt(),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { name, description, period, baseAmount, monthlyCoins, rolloverLimit, isActive, sortOrder } = req.body;
+      const pricing = await getPricingConfig();
+      const razorpayPlanId = await createRazorpayPlan({ name, description, period, baseAmount }, pricing);
+
+      pricing.plans.push({
+        _id: new mongoose.Types.ObjectId(),
+        name, description, period, baseAmount, monthlyCoins, rolloverLimit, razorpayPlanId, isActive, sortOrder,
+      });
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.status(201).json({
+        message: 'Subscription plan created successfully',
+        plan: pricing.plans[pricing.plans.length - 1],
+      });
+    } catch (error: any) {
+      console.error('Create subscription plan error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/admin/pricing/plans/:planId
+// @desc    Update a subscription plan. Existing subscribers keep the terms they signed up on;
+//          a new price, period or name creates a new Razorpay plan for future subscribers.
+// @access  Private (pricing.manage)
+router.put(
+  '/pricing/plans/:planId',
+  [
+    authMiddleware,
+    can('pricing.manage'),
+    body('name').optional().trim().notEmpty().withMessage('Plan name cannot be empty'),
+    body('period').optional().isIn(['monthly', 'yearly']).withMessage('Period must be monthly or yearly'),
+    body('baseAmount').optional().isFloat({ min: 1 }).withMessage('Base amount must be at least ₹1'),
+    body('monthlyCoins').optional().isInt({ min: 1 }).withMessage('Monthly coins must be a positive whole number'),
+    body('rolloverLimit').optional().isInt({ min: 0 }).withMessage('Rollover limit must be a whole number of coins'),
+    body('isActive').optional().isBoolean(),
+    body('sortOrder').optional().isInt(),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const pricing = await getPricingConfig();
+      const plan = pricing.plans.find(p => p._id.toString() === req.params.planId);
+      if (!plan) {
+        res.status(404).json({ message: 'Subscription plan not found' });
+        return;
+      }
+
+      const billingChanged = (['name', 'period', 'baseAmount'] as const)
+        .some(field => req.body[field] !== undefined && req.body[field] !== plan[field]);
+
+      Object.assign(plan, pickFields<ISubscriptionPlan>(req.body, PLAN_FIELDS));
+
+      if (billingChanged) {
+        plan.razorpayPlanId = await createRazorpayPlan(plan, pricing);
+      }
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.json({ message: 'Subscription plan updated successfully', plan });
+    } catch (error: any) {
+      console.error('Update subscription plan error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/admin/pricing/plans/:planId
+// @desc    Remove a subscription plan. Existing subscriptions carry on.
+// @access  Private (pricing.manage)
+router.delete(
+  '/pricing/plans/:planId',
+  [authMiddleware, can('pricing.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const pricing = await getPricingConfig();
+      const index = pricing.plans.findIndex(p => p._id.toString() === req.params.planId);
+      if (index === -1) {
+        res.status(404).json({ message: 'Subscription plan not found' });
+        return;
+      }
+
+      pricing.plans.splice(index, 1);
+      pricing.updatedBy = new mongoose.Types.ObjectId(req.user!.id);
+      await pricing.save();
+
+      res.json({ message: 'Subscription plan removed' });
+    } catch (error: any) {
+      console.error('Delete subscription plan error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+const couponValidators = (create: boolean) => [
+  create
+    ? body('code').trim().notEmpty().withMessage('Coupon code is required')
+    : body('code').optional().trim().notEmpty().withMessage('Coupon code cannot be empty'),
+  body('code').optional().matches(/^[A-Za-z0-9_-]{3,32}$/).withMessage('Codes are 3-32 letters, digits, - or _'),
+  body('discountType').optional().isIn(['percent', 'flat']).withMessage('Discount type must be percent or flat'),
+  body('discountValue').optional().isFloat({ min: 0 }).withMessage('Discount must be a positive number'),
+  body('discountValue').optional().custom((value, { req }) => req.body.discountType !== 'percent' || value <= 100)
+    .withMessage('A percentage discount cannot be over 100'),
+  body('bonusCoins').optional().isInt({ min: 0 }).withMessage('Bonus coins must be a whole number'),
+  body('startsAt').optional({ values: 'null' }).isISO8601().withMessage('Invalid start date'),
+  body('expiresAt').optional({ values: 'null' }).isISO8601().withMessage('Invalid expiry date'),
+  body('maxRedemptions').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Max redemptions must be at least 1'),
+  body('perSchoolLimit').optional().isInt({ min: 1 }).withMessage('Per-school limit must be at least 1'),
+  body('allowedSchoolIds').optional().isArray().withMessage('Allowed schools must be an array'),
+  body('allowedSchoolIds.*').isMongoId().withMessage('Invalid school id'),
+  body('isActive').optional().isBoolean(),
+];
+
+const COUPON_FIELDS = [
+  'code', 'description', 'discountType', 'discountValue', 'bonusCoins', 'startsAt', 'expiresAt',
+  'maxRedemptions', 'perSchoolLimit', 'allowedSchoolIds', 'isActive',
+] as const;
+
+// @route   GET /api/admin/coupons
+// @desc    List coupons. Filters: active (true/false), search (code), page, limit
+// @access  Private (coupon.manage)
+router.get(
+  '/coupons',
+  [authMiddleware, can('coupon.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { active, search } = req.query;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      const filter: any = {};
+      if (active !== undefined) filter.isActive = active === 'true';
+      if (search) filter.code = { $regex: (search as string).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+
+      const [items, total] = await Promise.all([
+        Coupon.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        Coupon.countDocuments(filter),
+      ]);
+
+      res.json({ items, total, page, limit });
+    } catch (error: any) {
+      console.error('Get coupons error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/admin/coupons
+// @desc    Create a coupon code
+// @access  Private (coupon.manage)
+router.post(
+  '/coupons',
+  [authMiddleware, can('coupon.manage'), ...couponValidators(true)],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const coupon = await Coupon.create({
+        ...pickFields<ICoupon>(req.body, COUPON_FIELDS),
+        createdBy: new mongoose.Types.ObjectId(req.user!.id),
+      });
+
+      res.status(201).json({ message: 'Coupon created successfully', coupon });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A coupon with this code already exists' });
+        return;
+      }
+      console.error('Create coupon error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/admin/coupons/:id
+// @desc    Update a coupon. Orders already placed keep the discount they were quoted.
+// @access  Private (coupon.manage)
+router.put(
+  '/coupons/:id',
+  [authMiddleware, can('coupon.manage'), ...couponValidators(false)],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const coupon = await Coupon.findById(req.params.id);
+      if (!coupon) {
+        res.status(404).json({ message: 'Coupon not found' });
+        return;
+      }
+
+      coupon.set(pickFields<ICoupon>(req.body, COUPON_FIELDS));
+      await coupon.save();
+
+      res.json({ message: 'Coupon updated successfully', coupon });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({ message: 'A coupon with this code already exists' });
+        return;
+      }
+      console.error('Update coupon error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/admin/coupons/:id
+// @desc    Delete a coupon nobody has redeemed. Redeemed coupons are deactivated instead,
+//          so their orders and ledger rows keep pointing at them.
+// @access  Private (coupon.manage)
+router.delete(
+  '/coupons/:id',
+  [authMiddleware, can('coupon.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const coupon = await Coupon.findById(req.params.id);
+      if (!coupon) {
+        res.status(404).json({ message: 'Coupon not found' });
+        return;
+      }
+
+      if (coupon.redemptionCount > 0) {
+        coupon.isActive = false;
+        await coupon.save();
+        res.json({ message: 'Coupon deactivated', coupon });
+        return;
+      }
+
+      await coupon.deleteOne();
+      res.json({ message: 'Coupon deleted' });
+    } catch (error: any) {
+      console.error('Delete coupon error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/coupons/:id/redemptions
+// @desc    Paid orders that used a coupon (page, limit). Orders the coupon was refused on at
+//          credit time carry couponRejectedReason.
+// @access  Private (coupon.manage)
+router.get(
+  '/coupons/:id/redemptions',
+  [authMiddleware, can('coupon.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+      const filter = { couponId: req.params.id, creditedAt: { $exists: true } };
+
+      const [items, total] = await Promise.all([
+        PaymentOrder.find(filter)
+          .populate('schoolId', 'name')
+          .select('schoolId razorpayPaymentId packName coins bonusCoins couponRejectedReason breakdown amount creditedAt status')
+          .sort({ creditedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        PaymentOrder.countDocuments(filter),
+      ]);
+
+      res.json({ items, total, page, limit });
+    } catch (error: any) {
+      console.error('Get coupon redemptions error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/subscriptions
+// @desc    List school subscriptions. Filters: status (comma separated), schoolId, page, limit
+// @access  Private (billing.audit)
+router.get(
+  '/subscriptions',
+  [authMiddleware, can('billing.audit')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { status, schoolId } = req.query;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      const filter: any = {};
+      if (status) filter.status = { $in: (status as string).split(',') };
+      if (schoolId) filter.schoolId = schoolId;
+
+      const [subscriptions, total] = await Promise.all([
+        Subscription.find(filter)
+          .populate('schoolId', 'name city coins')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Subscription.countDocuments(filter),
+      ]);
+
+      res.json({ subscriptions, total, page, limit });
+    } catch (error: any) {
+      console.error('Get subscriptions error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/admin/schools/:id/pricing
+// @desc    Set a school's partner pricing (pack discount, action cost/reward overrides).
+//          Send an empty body to clear it.
+// @access  Private (pricing.manage)
+router.put(
+  '/schools/:id/pricing',
+  [
+    authMiddleware,
+    can('pricing.manage'),
+    body('discountPercent').optional({ values: 'null' }).isFloat({ min: 0, max: 100 }).withMessage('Discount must be 0-100%'),
+    body('actions').optional().isArray().withMessage('Actions must be an array'),
+    body('actions.*.action').isIn(PRICED_ACTIONS).withMessage('Invalid action'),
+    body('actions.*.cost').optional().isInt({ min: 0 }).withMessage('Cost must be a whole number of coins'),
+    body('actions.*.reward').optional().isInt({ min: 0 }).withMessage('Reward must be a whole number of coins'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { discountPercent, actions, note } = req.body;
+      const hasOverride = discountPercent != null || (actions && actions.length > 0) || !!note;
+
+      const school = await School.findByIdAndUpdate(
+        req.params.id,
+        hasOverride
+          ? { pricingOverride: { discountPercent: discountPercent ?? undefined, actions: actions || [], note } }
+          : { $unset: { pricingOverride: 1 } },
+        { new: true, runValidators: true }
+      );
+
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      res.json({
+        message: hasOverride ? 'School pricing override saved' : 'School pricing override cleared',
+        pricingOverride: school.pricingOverride || null,
+      });
+    } catch (error: any) {
+      console.error('Update school pricing error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/admin/payment-orders/:id/refund
+// @desc    Refund a paid order through Razorpay and take the coins back
+//          Body: { amount? (rupees, defaults to everything not yet refunded), reason }
+// @access  Private (billing.adjust)
+router.post(
+  '/payment-orders/:id/refund',
+  [
+    authMiddleware,
+    can('billing.adjust'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be a positive number of rupees'),
+    body('reason').trim().notEmpty().withMessage('A reason is required'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const order = await PaymentOrder.findById(req.params.id);
+      if (!order) {
+        res.status(404).json({ message: 'Payment order not found' });
+        return;
+      }
+
+      const amount = req.body.amount !== undefined
+        ? Math.round(Number(req.body.amount) * 100)
+        : order.amount - order.refundedAmount;
+
+      const result = await refundPaymentOrder(order, amount, req.body.reason, req.user!.id);
+
+      res.json({
+        message: 'Refund issued successfully',
+        order: result.order,
+        refundId: result.refund.id,
+        coinsDebited: result.coins,
+        coins: result.balance,
+      });
+    } catch (error: any) {
+      if (error instanceof PaymentError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Refund payment order error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/admin/schools/:id/coins
+// @desc    Manually credit or debit a school's coins. Body: { type: 'credit'|'debit', coins, reason }
+// @access  Private (billing.adjust)
+router.post(
+  '/schools/:id/coins',
+  [
+    authMiddleware,
+    can('billing.adjust'),
+    param('id').isMongoId().withMessage('Invalid school id'),
+    body('type').isIn(['credit', 'debit']).withMessage('Type must be credit or debit'),
+    body('coins').isInt({ min: 1 }).withMessage('Coins must be a positive whole number'),
+    body('reason').trim().notEmpty().withMessage('A reason is required'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { type, coins, reason } = req.body;
+      const { school, transaction } = await adjustSchoolCoins(req.params.id, type, Number(coins), reason, req.user!.id);
+
+      res.json({
+        message: `${coins} coins ${type === 'credit' ? 'credited to' : 'debited from'} ${school.name}`,
+        coins: school.coins,
+        transaction,
+      });
+    } catch (error: any) {
+      if (error instanceof CoinError) {
+        res.status(error.status).json({ message: error.message, ...error.details });
+        return;
+      }
+      console.error('Adjust school coins error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/blocked-schools
+// @desc    Active schools that can't afford to publish a post
+// @access  Private (billing.audit)
+router.get(
+  '/blocked-schools',
+  [authMiddleware, can('billing.audit')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const schools = await getBlockedSchools();
+      res.json({ schools, total: schools.length });
+    } catch (error: any) {
+      console.error('Get blocked schools error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/ledger/reconciliation
+// @desc    Schools whose coin balance disagrees with their Transaction ledger, and paid orders
+//          held because Razorpay captured a different amount than ordered.
+//          Runs a fresh check (optionally ?schoolId=) and includes the last scheduled run
+// @access  Private (billing.audit)
+router.get(
+  '/ledger/reconciliation',
+  [authMiddleware, can('billing.audit'), query('schoolId').optional().isMongoId().withMessage('Invalid school id')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const schoolId = req.query.schoolId as string | undefined;
+      const [report, amountMismatchOrders] = await Promise.all([
+        reconcileLedger(schoolId),
+        PaymentOrder.find({ status: 'amount_mismatch', ...(schoolId ? { schoolId } : {}) })
+          .populate('schoolId', 'name')
+          .sort({ updatedAt: -1 }),
+      ]);
+
+      res.json({
+        ...report,
+        amountMismatchOrders,
+        checkedAt: new Date(),
+        lastScheduledRun: ledgerReconciliationService.lastRun,
+      });
+    } catch (error: any) {
+      console.error('Ledger reconciliation error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/invoices/export
+// @desc    Export all invoices issued in a date range (from, to as YYYY-MM-DD, inclusive)
+//          format=csv (default) or json, optional schoolId
+// @access  Private (billing.audit)
+router.get(
+  '/invoices/export',
+  [authMiddleware, can('billing.audit')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const from = new Date(req.query.from as string);
+      const to = new Date(req.query.to as string);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        res.status(400).json({ message: 'A valid from and to date are required' });
+        return;
+      }
+
+      // Include the whole of the end date
+      to.setUTCHours(23, 59, 59, 999);
+
+      const filter: any = { issuedAt: { $gte: from, $lte: to } };
+      if (req.query.schoolId) filter.schoolId = req.query.schoolId;
+
+      const invoices = await Invoice.find(filter).sort({ financialYear: 1, sequence: 1 });
+
+      if (req.query.format === 'json') {
+        res.json({ invoices, total: invoices.length });
+        return;
+      }
+
+      const fileName = `invoices-${from.toISOString().slice(0, 10)}-to-${to.toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(invoicesToCsv(invoices));
+    } catch (error: any) {
+      console.error('Export invoices error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/security-events
+// @desc    List suspicious events (payment replays, mismatched orders, ...)
+//          Filters: type, schoolId, unreviewed=true, page, limit
+// @access  Private (security.manage)
+router.get(
+  '/security-events',
+  [authMiddleware, can('security.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { type, schoolId, unreviewed } = req.query;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      const filter: any = {};
+      if (type) filter.type = { $in: (type as string).split(',') };
+      if (schoolId) filter.schoolId = schoolId;
+      if (unreviewed === 'true') filter.reviewedAt = { $exists: false };
+
+      const [events, total] = await Promise.all([
+        SecurityEvent.find(filter)
+          .populate('schoolId', 'name')
+          .populate('userId', 'name email')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        SecurityEvent.countDocuments(filter),
+      ]);
+
+      res.json({ events, total, page, limit });
+    } catch (error: any) {
+      console.error('Get security events error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/admin/security-events/:id/review
+// @desc    Mark a security event as reviewed
+// @access  Private (security.manage)
+router.put(
+  '/security-events/:id/review',
+  [authMiddleware, can('security.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const event = await SecurityEvent.findByIdAndUpdate(
+        req.params.id,
+        { reviewedAt: new Date(), reviewedBy: req.user!.id },
+        { new: true }
+      );
+
+      if (!event) {
+        res.status(404).json({ message: 'Security event not found' });
+        return;
+      }
+
+      res.json({ message: 'Security event marked as reviewed', event });
+    } catch (error: any) {
+      console.error('Review security event error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/admin/permissions
+// @desc    The permission registry: every permission and the roles that hold it
+// @access  Private (user.manage)
+router.get(
+  '/permissions',
+  [authMiddleware, can('user.manage')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    res.json({ roles: ROLES, schoolRoles: SCHOOL_ROLES, permissions: describePermissions() });
+  }
+);
+
+// @route   GET /api/admin/permissions/:role?schoolRole=editor
+// @desc    Effective permissions of a role and how far each reaches (any record, or own school).
+//          School users default to the school_admin school role.
+// @access  Private (user.manage)
+router.get(
+  '/permissions/:role',
+  [
+    authMiddleware,
+    can('user.manage'),
+    param('role').isIn(ROLES).withMessage('Invalid role'),
+    query('schoolRole').optional().isIn(SCHOOL_ROLES).withMessage('Invalid school role'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { role } = req.params;
+    const schoolRole = role === 'school' ? (req.query.schoolRole as SchoolRole | undefined) || DEFAULT_SCHOOL_ROLE : undefined;
+
+    res.json({ role, schoolRole, permissions: permissionsFor({ role, schoolRole }) });
+  }
+);
+
 export default router;
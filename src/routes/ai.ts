@@ -2,20 +2,55 @@ import { Router, Request, Response } from 'express';
 import geminiClient from '../utils/geminiClient';
 import Submission from '../models/Submission';
 import Blog from '../models/Blog';
-import SocialPost from '../models/SocialPost';
+import SocialPost, { ISocialPost } from '../models/SocialPost';
 import SocialToken from '../models/SocialToken';
 import School from '../models/School';
-import InstagramClient from '../utils/InstagramClient';
 import FacebookClient from '../utils/FacebookClient';
 import LinkedInClient from '../utils/LinkedInClient';
-import { authMiddleware, roleMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import TwitterClient, { countTweetLength, TWEET_MAX_LENGTH } from '../utils/TwitterClient';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { Permission, hasPermission, permissionScope } from '../utils/permissions';
+import { recordInitialStatus, syncSubmissionStatus } from '../utils/blogWorkflow';
+import { recordRevision, ensureBaselineRevision } from '../utils/blogRevisions';
+import { attemptPublish, buildCaption, SOCIAL_PLATFORMS, SocialPlatform } from '../utils/socialPublisher';
+import {
+  socialTokenFilter,
+  getSocialAccounts,
+  getConnectedPlatforms,
+  SOCIAL_TARGETS,
+  SocialTarget,
+} from '../utils/socialAccounts';
 
 const router = Router();
 
-// @access  Private (Writer, Admin)
+// Shown in the OAuth popup once a callback has stored the tokens
+const connectedPage = (platformName: string): string => `
+        <html>
+          <body style="font-family: sans-serif; display: flex; align-items: center; justify-content: center; height: 100vh; background: #111; color: #fff;">
+            <div style="text-align: center;">
+              <h1>✅ ${platformName} Connected!</h1>
+              <p>Tokens have been saved. You can close this window.</p>
+            </div>
+          </body>
+        </html>
+      `;
+
+// Blogs (and the social posts promoting them) belong to the school they are assigned to
+const canOnBlog = (req: AuthRequest, permission: Permission, blog: { assignedSchool?: any }): boolean =>
+  hasPermission(req.user!, permission, { schoolId: blog.assignedSchool });
+
+const canManageSocialPost = async (req: AuthRequest, post: ISocialPost): Promise<boolean> => {
+  if (permissionScope(req.user!, 'social.publish') === 'any') return true;
+  const blog = await Blog.findById(post.blogId).select('assignedSchool');
+  return !!blog && canOnBlog(req, 'social.publish', blog);
+};
+
+// @route   POST /api/ai/generate-draft/:submissionId
+// @desc    Generate a blog draft from a submission using AI
+// @access  Private (blog.create)
 router.post(
   '/generate-draft/:submissionId',
-  [authMiddleware, roleMiddleware('writer', 'admin', 'marketer', 'school')],
+  [authMiddleware, can('blog.create')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const submission = await Submission.findById(req.params.submissionId);
@@ -50,11 +85,12 @@ router.post(
         createdBy: req.user!.id,
       });
 
+      recordInitialStatus(blog, req.user!);
       await blog.save();
+      await recordRevision(blog, req.user, 'ai');
 
-      // Update submission status
-      submission.status = 'draft_created';
-      await submission.save();
+      // Keep submission status in step with the new draft
+      await syncSubmissionStatus(blog);
 
       res.status(201).json({
         message: 'Draft generated successfully',
@@ -69,10 +105,10 @@ router.post(
 
 // @route   POST /api/ai/generate-social/:blogId
 // @desc    Generate social media post from blog using AI
-// @access  Private (Marketer, Admin, Writer, School)
+// @access  Private (social.generate)
 router.post(
   '/generate-social/:blogId',
-  [authMiddleware, roleMiddleware('marketer', 'admin', 'writer', 'school')],
+  [authMiddleware, can('social.generate')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { platform } = req.body;
@@ -88,6 +124,11 @@ router.post(
         return;
       }
 
+      if (!canOnBlog(req, 'social.generate', blog)) {
+        res.status(403).json({ message: 'Not authorized to use this blog' });
+        return;
+      }
+
       // Generate social post using Gemini AI
       const summary = blog.metaDescription || blog.content.substring(0, 200);
       const aiResponse = await geminiClient.generateSocialPost(
@@ -119,22 +160,43 @@ router.post(
 );
 
 // @route   POST /api/ai/improve-content
-// @desc    Improve content using AI
+// @desc    Improve content using AI. Pass blogId to save the result onto the blog.
 // @access  Private
 router.post(
   '/improve-content',
   authMiddleware,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { content, instruction } = req.body;
+      const { content, instruction, blogId } = req.body;
 
       if (!content || !instruction) {
         res.status(400).json({ message: 'Content and instruction are required' });
         return;
       }
 
+      let blog = null;
+      if (blogId) {
+        blog = await Blog.findById(blogId);
+        if (!blog) {
+          res.status(404).json({ message: 'Blog not found' });
+          return;
+        }
+
+        if (!canOnBlog(req, 'blog.edit', blog)) {
+          res.status(403).json({ message: 'Not authorized to edit this blog' });
+          return;
+        }
+      }
+
       const improvedContent = await geminiClient.improveContent(content, instruction);
 
+      if (blog) {
+        await ensureBaselineRevision(blog);
+        blog.content = improvedContent;
+        await blog.save();
+        await recordRevision(blog, req.user, 'ai');
+      }
+
       res.json({
         message: 'Content improved successfully',
         improvedContent,
@@ -148,10 +210,10 @@ router.post(
 
 // @route   POST /api/ai/generate-unified-social/:blogId
 // @desc    Generate unified social media post from blog using AI
-// @access  Private (Marketer, Admin, Writer, School)
+// @access  Private (social.generate)
 router.post(
   '/generate-unified-social/:blogId',
-  [authMiddleware, roleMiddleware('marketer', 'admin', 'writer', 'school')],
+  [authMiddleware, can('social.generate')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findById(req.params.blogId);
@@ -160,6 +222,11 @@ router.post(
         return;
       }
 
+      if (!canOnBlog(req, 'social.generate', blog)) {
+        res.status(403).json({ message: 'Not authorized to use this blog' });
+        return;
+      }
+
       // Generate unified social post using Gemini AI
       const summary = blog.metaDescription || blog.content.substring(0, 200);
       const aiResponse = await geminiClient.generateUnifiedSocialPost(
@@ -179,92 +246,139 @@ router.post(
 );
 
 // @route   POST /api/ai/post-to-social
-// @desc    Save social posts for multiple platforms
-// @access  Private (Marketer, Admin, Writer, School)
+// @desc    Publish social posts for multiple platforms now, or schedule them.
+//          Pass `scheduledFor` (all platforms) or `schedule` ({ platform: date })
+//          to publish later. `target` (central | school | both) picks the
+//          accounts and defaults to the school's socialTarget. School users can only
+//          pass `school`; their posts reach the central accounts through the school's
+//          own social settings.
+// @access  Private (social.publish)
 router.post(
   '/post-to-social',
-  [authMiddleware, roleMiddleware('marketer', 'admin', 'writer', 'school')],
+  [authMiddleware, can('social.publish')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { blogId, caption, hashtags, platforms } = req.body;
+      const { blogId, caption, hashtags, platforms, scheduledFor, schedule, target } = req.body;
 
       if (!blogId || !caption || !platforms || !Array.isArray(platforms)) {
         res.status(400).json({ message: 'Missing required fields' });
         return;
       }
 
-      const posts = [];
+      const invalidPlatform = platforms.find((p: string) => !SOCIAL_PLATFORMS.includes(p as SocialPlatform));
+      if (invalidPlatform) {
+        res.status(400).json({ message: `Invalid platform: ${invalidPlatform}` });
+        return;
+      }
+
+      if (target !== undefined && !SOCIAL_TARGETS.includes(target)) {
+        res.status(400).json({ message: 'Target must be central, school or both' });
+        return;
+      }
 
-      const postCaption = hashtags && Array.isArray(hashtags) && hashtags.length > 0
-        ? `${caption}\n\n${hashtags.map((h: string) => h.startsWith('#') ? h : `#${h}`).join(' ')}`
-        : caption;
+      if (target !== undefined && target !== 'school' && permissionScope(req.user!, 'social.publish') !== 'any') {
+        res.status(403).json({ message: 'Not authorized to choose the central accounts' });
+        return;
+      }
 
+      if (platforms.includes('twitter')) {
+        const tweetLength = countTweetLength(buildCaption(caption, hashtags));
+        if (tweetLength > TWEET_MAX_LENGTH) {
+          res.status(400).json({
+            message: `Twitter posts are limited to ${TWEET_MAX_LENGTH} characters (caption with hashtags is ${tweetLength})`,
+          });
+          return;
+        }
+      }
+
+      // Work out the publish time for each platform up front
+      const publishTimes: Record<string, Date | null> = {};
       for (const platform of platforms) {
-        let isPublished = false;
-        let publishedId = null;
-
-        if (platform === 'instagram') {
-          try {
-            // Real Instagram Publishing
-            const blog = await Blog.findById(blogId);
-            const imageUrl = blog?.featuredImage;
-
-            if (imageUrl) {
-              const fullImageUrl = imageUrl.startsWith('http')
-                ? imageUrl
-                : `${process.env.BACKEND_URL || 'http://localhost:5000'}/${imageUrl.replace(/\\/g, '/')}`;
-
-              const creationId = await InstagramClient.createMediaContainer(
-                fullImageUrl,
-                postCaption
-              );
-
-              publishedId = await InstagramClient.publishMedia(
-                creationId
-              );
-              isPublished = true;
-            }
-          } catch (error: any) {
-            console.error('Central Instagram publish failed:', error.message);
-          }
-        } else if (platform === 'facebook') {
-          try {
-            const blog = await Blog.findById(blogId);
-            publishedId = await FacebookClient.postToPageFeed(
-              postCaption,
-              blog?.featuredImage
-            );
-            isPublished = true;
-          } catch (error: any) {
-            console.error('Facebook publish failed:', error.message);
+        const when = schedule?.[platform] || scheduledFor;
+        if (!when) {
+          publishTimes[platform] = null;
+          continue;
+        }
+
+        const date = new Date(when);
+        if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+          res.status(400).json({ message: `Scheduled time for ${platform} must be a valid future date` });
+          return;
+        }
+        publishTimes[platform] = date;
+      }
+
+      const blog = await Blog.findById(blogId);
+      if (!blog) {
+        res.status(404).json({ message: 'Blog not found' });
+        return;
+      }
+
+      if (!canOnBlog(req, 'social.publish', blog)) {
+        res.status(403).json({ message: 'Not authorized to post this blog' });
+        return;
+      }
+
+      // Without an explicit target, use the school's own preference
+      const school = blog.assignedSchool
+        ? await School.findById(blog.assignedSchool).select('socialTarget')
+        : null;
+      const accounts = getSocialAccounts((target || school?.socialTarget || 'central') as SocialTarget);
+
+      if (accounts.includes('school')) {
+        if (!school) {
+          res.status(400).json({ message: 'Blog must be assigned to a school to post on school accounts' });
+          return;
+        }
+
+        const connected = await getConnectedPlatforms(String(school._id));
+        const missing = platforms.filter((p: string) => !connected.includes(p));
+        if (missing.length > 0) {
+          res.status(400).json({ message: `School has not connected: ${missing.join(', ')}`, missing });
+          return;
+        }
+      }
+
+      const posts = [];
+
+      for (const platform of platforms) {
+        const publishAt = publishTimes[platform];
+
+        for (const account of accounts) {
+          const base = {
+            blogId,
+            platform,
+            account,
+            schoolId: account === 'school' ? school!._id : undefined,
+            caption,
+            hashtags,
+            createdBy: req.user!.id,
+          };
+
+          if (publishAt) {
+            const socialPost = await SocialPost.create({
+              ...base,
+              scheduledFor: publishAt,
+              status: 'scheduled',
+              nextAttemptAt: publishAt,
+            });
+            posts.push(socialPost);
+            continue;
           }
-        } else if (platform === 'linkedin') {
-          try {
-            const blog = await Blog.findById(blogId);
-            publishedId = await LinkedInClient.createPost(
-              postCaption,
-              blog?.featuredImage
-            );
-            isPublished = true;
-          } catch (error: any) {
-            console.error('LinkedIn publish failed:', error.message);
+
+          const socialPost = await SocialPost.create({
+            ...base,
+            status: 'publishing',
+            attempts: 1,
+            lastAttemptAt: new Date(),
+          });
+
+          const { published } = await attemptPublish(socialPost, blog);
+          if (!published) {
+            console.error(`${platform} (${account}) publish failed:`, socialPost.lastError);
           }
-        } else if (platform === 'twitter') {
-          // Twitter/X - still simulated
-          isPublished = true;
+          posts.push(socialPost);
         }
-
-        const socialPost = new SocialPost({
-          blogId,
-          platform,
-          caption,
-          hashtags,
-          isPublished: isPublished,
-          publishedId: publishedId,
-          createdBy: req.user!.id,
-        });
-        await socialPost.save();
-        posts.push(socialPost);
       }
 
       res.status(201).json({
@@ -278,6 +392,247 @@ router.post(
   }
 );
 
+// @route   GET /api/ai/social-posts
+// @desc    List social posts. Filters: status, platform, blogId, from, to, page, limit
+// @access  Private (social.read)
+router.get(
+  '/social-posts',
+  [authMiddleware, can('social.read')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { status, platform, blogId, from, to } = req.query;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+      // Deleted posts only show up when asked for explicitly
+      const filter: any = { status: { $ne: 'deleted' } };
+
+      if (status) filter.status = { $in: (status as string).split(',') };
+      if (platform) filter.platform = { $in: (platform as string).split(',') };
+      if (blogId) filter.blogId = blogId;
+      if (from || to) {
+        filter.createdAt = {};
+        if (from) filter.createdAt.$gte = new Date(from as string);
+        if (to) filter.createdAt.$lte = new Date(to as string);
+      }
+
+      // School users only see posts for their own blogs
+      if (permissionScope(req.user!, 'social.read') === 'own_school') {
+        const blogIds = await Blog.find({ assignedSchool: req.user!.schoolId }).distinct('_id');
+        filter.blogId = blogId && blogIds.some(id => id.toString() === blogId) ? blogId : { $in: blogIds };
+      }
+
+      const [posts, total] = await Promise.all([
+        SocialPost.find(filter)
+          .populate('blogId', 'title slug')
+          .populate('createdBy', 'name email')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        SocialPost.countDocuments(filter),
+      ]);
+
+      res.json({
+        posts,
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      });
+    } catch (error: any) {
+      console.error('Get social posts error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/ai/social-posts/:id/retry
+// @desc    Retry publishing a failed social post now
+// @access  Private (social.publish)
+router.post(
+  '/social-posts/:id/retry',
+  [authMiddleware, can('social.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const post = await SocialPost.findById(req.params.id);
+      if (!post) {
+        res.status(404).json({ message: 'Social post not found' });
+        return;
+      }
+
+      if (!(await canManageSocialPost(req, post))) {
+        res.status(403).json({ message: 'Not authorized to retry this post' });
+        return;
+      }
+
+      // Claim the post so two retries can't publish it twice
+      const claimed = await SocialPost.findOneAndUpdate(
+        { _id: post._id, status: 'failed' },
+        { status: 'publishing', lastAttemptAt: new Date(), $inc: { attempts: 1 } },
+        { new: true }
+      );
+
+      if (!claimed) {
+        res.status(409).json({ message: 'Only failed posts can be retried' });
+        return;
+      }
+
+      const { published } = await attemptPublish(claimed);
+
+      res.status(published ? 200 : 502).json({
+        message: published ? 'Social post published successfully' : 'Social post failed again',
+        post: claimed,
+      });
+    } catch (error: any) {
+      console.error('Retry social post error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/ai/social-posts/:id
+// @desc    Mark a social post as deleted (it is kept for history)
+// @access  Private (social.publish)
+router.delete(
+  '/social-posts/:id',
+  [authMiddleware, can('social.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const post = await SocialPost.findById(req.params.id);
+      if (!post) {
+        res.status(404).json({ message: 'Social post not found' });
+        return;
+      }
+
+      if (!(await canManageSocialPost(req, post))) {
+        res.status(403).json({ message: 'Not authorized to delete this post' });
+        return;
+      }
+
+      const deleted = await SocialPost.findOneAndUpdate(
+        { _id: post._id, status: { $ne: 'publishing' } },
+        { status: 'deleted', $unset: { nextAttemptAt: 1 } },
+        { new: true }
+      );
+
+      if (!deleted) {
+        res.status(409).json({ message: 'Post is being published right now' });
+        return;
+      }
+
+      res.json({ message: 'Social post deleted' });
+    } catch (error: any) {
+      console.error('Delete social post error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/ai/scheduled-posts/:id
+// @desc    Edit a scheduled social post before it goes out
+// @access  Private (social.publish)
+router.put(
+  '/scheduled-posts/:id',
+  [authMiddleware, can('social.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { caption, hashtags, scheduledFor } = req.body;
+
+      const post = await SocialPost.findById(req.params.id);
+      if (!post) {
+        res.status(404).json({ message: 'Scheduled post not found' });
+        return;
+      }
+
+      if (!(await canManageSocialPost(req, post))) {
+        res.status(403).json({ message: 'Not authorized to edit this post' });
+        return;
+      }
+
+      if (post.platform === 'twitter' && (caption !== undefined || hashtags !== undefined)) {
+        const tweetLength = countTweetLength(buildCaption(caption ?? post.caption, hashtags ?? post.hashtags));
+        if (tweetLength > TWEET_MAX_LENGTH) {
+          res.status(400).json({
+            message: `Twitter posts are limited to ${TWEET_MAX_LENGTH} characters (caption with hashtags is ${tweetLength})`,
+          });
+          return;
+        }
+      }
+
+      const update: any = {};
+      if (caption !== undefined) update.caption = caption;
+      if (hashtags !== undefined) update.hashtags = hashtags;
+      if (scheduledFor !== undefined) {
+        const date = new Date(scheduledFor);
+        if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+          res.status(400).json({ message: 'Scheduled time must be a valid future date' });
+          return;
+        }
+        update.scheduledFor = date;
+        update.nextAttemptAt = date;
+      }
+
+      // Conditional update so an edit can't race the worker picking the post up
+      const updated = await SocialPost.findOneAndUpdate(
+        { _id: post._id, status: 'scheduled' },
+        update,
+        { new: true, runValidators: true }
+      );
+
+      if (!updated) {
+        res.status(409).json({ message: 'Only scheduled posts can be edited' });
+        return;
+      }
+
+      res.json({
+        message: 'Scheduled post updated successfully',
+        post: updated,
+      });
+    } catch (error: any) {
+      console.error('Update scheduled post error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/ai/scheduled-posts/:id
+// @desc    Cancel a scheduled social post before it goes out (back to draft)
+// @access  Private (social.publish)
+router.delete(
+  '/scheduled-posts/:id',
+  [authMiddleware, can('social.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const post = await SocialPost.findById(req.params.id);
+      if (!post) {
+        res.status(404).json({ message: 'Scheduled post not found' });
+        return;
+      }
+
+      if (!(await canManageSocialPost(req, post))) {
+        res.status(403).json({ message: 'Not authorized to cancel this post' });
+        return;
+      }
+
+      const cancelled = await SocialPost.findOneAndUpdate(
+        { _id: post._id, status: 'scheduled' },
+        { status: 'draft', $unset: { nextAttemptAt: 1, scheduledFor: 1 } },
+        { new: true }
+      );
+
+      if (!cancelled) {
+        res.status(409).json({ message: 'Only scheduled posts can be cancelled' });
+        return;
+      }
+
+      res.json({
+        message: 'Scheduled post cancelled',
+        post: cancelled,
+      });
+    } catch (error: any) {
+      console.error('Cancel scheduled post error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
 // ============================================================
 // LinkedIn OAuth Setup Routes (one-time setup)
 // ============================================================
@@ -287,9 +642,9 @@ router.post(
 // @access  Public (opens in popup - LinkedIn login itself is the security gate)
 router.get(
   '/linkedin/auth',
-  (req: Request, res: Response): void => {
+  async (req: Request, res: Response): Promise<void> => {
     try {
-      const authUrl = LinkedInClient.getAuthUrl();
+      const authUrl = await LinkedInClient.getAuthUrl();
       res.redirect(authUrl);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -304,30 +659,21 @@ router.get(
   '/linkedin/callback',
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { code, error } = req.query;
+      const { code, state, error } = req.query;
 
       if (error) {
         res.status(400).json({ message: `LinkedIn OAuth error: ${error}` });
         return;
       }
 
-      if (!code || typeof code !== 'string') {
-        res.status(400).json({ message: 'Missing authorization code' });
+      if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+        res.status(400).json({ message: 'Missing authorization code or state' });
         return;
       }
 
-      await LinkedInClient.exchangeCodeForTokens(code);
+      await LinkedInClient.exchangeCodeForTokens(code, state);
 
-      res.send(`
-        <html>
-          <body style="font-family: sans-serif; display: flex; align-items: center; justify-content: center; height: 100vh; background: #111; color: #fff;">
-            <div style="text-align: center;">
-              <h1>✅ LinkedIn Connected!</h1>
-              <p>Tokens have been saved. You can close this window.</p>
-            </div>
-          </body>
-        </html>
-      `);
+      res.send(connectedPage('LinkedIn'));
     } catch (error: any) {
       console.error('LinkedIn callback error:', error);
       res.status(500).json({ message: 'LinkedIn OAuth callback failed', error: error.message });
@@ -335,20 +681,104 @@ router.get(
   }
 );
 
+// ============================================================
+// Twitter/X OAuth Setup Routes (one-time setup)
+// ============================================================
+
+// @route   GET /api/ai/twitter/auth
+// @desc    Get the Twitter/X OAuth 2.0 (PKCE) URL for connecting the central account.
+//          The client opens it in a popup; the callback stores the central token.
+// @access  Private (social.manage_accounts)
+router.get(
+  '/twitter/auth',
+  [authMiddleware, can('social.manage_accounts')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const authUrl = await TwitterClient.getAuthUrl();
+      res.json({ authUrl });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  }
+);
+
+// @route   GET /api/ai/twitter/callback
+// @desc    Handle Twitter/X OAuth callback, exchange code for tokens
+// @access  Public (callback URL)
+router.get(
+  '/twitter/callback',
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code, state, error } = req.query;
+
+      if (error) {
+        res.status(400).json({ message: `Twitter OAuth error: ${error}` });
+        return;
+      }
+
+      if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+        res.status(400).json({ message: 'Missing authorization code or state' });
+        return;
+      }
+
+      await TwitterClient.exchangeCodeForTokens(code, state);
+
+      res.send(connectedPage('Twitter/X'));
+    } catch (error: any) {
+      console.error('Twitter callback error:', error);
+      res.status(500).json({ message: 'Twitter OAuth callback failed', error: error.message });
+    }
+  }
+);
+
+// ============================================================
+// Facebook Login callback (school page connections)
+// ============================================================
+
+// @route   GET /api/ai/facebook/callback
+// @desc    Handle Facebook Login callback for a school, store the user's pages
+// @access  Public (callback URL)
+router.get(
+  '/facebook/callback',
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code, state, error_description, error } = req.query;
+
+      if (error) {
+        res.status(400).json({ message: `Facebook OAuth error: ${error_description || error}` });
+        return;
+      }
+
+      if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+        res.status(400).json({ message: 'Missing authorization code or state' });
+        return;
+      }
+
+      await FacebookClient.exchangeCodeForTokens(code, state);
+
+      res.send(connectedPage('Facebook'));
+    } catch (error: any) {
+      console.error('Facebook callback error:', error);
+      res.status(500).json({ message: 'Facebook OAuth callback failed', error: error.message });
+    }
+  }
+);
+
 // ============================================================
 // Social Accounts Management (for Settings UI)
 // ============================================================
 
 // @route   GET /api/ai/social-accounts/status
 // @desc    Get connection status for all social platforms
-// @access  Private (Admin only)
+// @access  Private (social.manage_accounts)
 router.get(
   '/social-accounts/status',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('social.manage_accounts')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const fbToken = await SocialToken.findOne({ platform: 'facebook' });
-      const liToken = await SocialToken.findOne({ platform: 'linkedin' });
+      const fbToken = await SocialToken.findOne(socialTokenFilter('facebook'));
+      const liToken = await SocialToken.findOne(socialTokenFilter('linkedin'));
+      const twToken = await SocialToken.findOne(socialTokenFilter('twitter'));
 
       // Check Facebook: either DB token or env vars
       const fbConnected = !!(fbToken?.accessToken || process.env.META_ACCESS_TOKEN);
@@ -379,6 +809,12 @@ router.get(
           connected: igConnected,
           accountId: process.env.META_INSTAGRAM_ACCOUNT_ID || null,
         },
+        twitter: {
+          connected: !!twToken?.accessToken,
+          username: twToken?.username || null,
+          expiresAt: twToken?.tokenExpiresAt || null,
+          hasRefreshToken: !!twToken?.refreshToken,
+        },
       });
     } catch (error: any) {
       res.status(500).json({ message: 'Failed to get social account status', error: error.message });
@@ -388,10 +824,10 @@ router.get(
 
 // @route   POST /api/ai/social-accounts/facebook
 // @desc    Save Facebook Page credentials
-// @access  Private (Admin only)
+// @access  Private (social.manage_accounts)
 router.post(
   '/social-accounts/facebook',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('social.manage_accounts')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { accessToken, pageId } = req.body;
@@ -411,20 +847,20 @@ router.post(
 
 // @route   DELETE /api/ai/social-accounts/:platform
 // @desc    Disconnect a social platform
-// @access  Private (Admin only)
+// @access  Private (social.manage_accounts)
 router.delete(
   '/social-accounts/:platform',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('social.manage_accounts')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { platform } = req.params;
 
-      if (!['facebook', 'linkedin'].includes(platform)) {
+      if (!['facebook', 'linkedin', 'twitter'].includes(platform)) {
         res.status(400).json({ message: 'Invalid platform' });
         return;
       }
 
-      await SocialToken.deleteOne({ platform });
+      await SocialToken.deleteOne(socialTokenFilter(platform as 'facebook' | 'linkedin' | 'twitter'));
       res.json({ message: `${platform} account disconnected` });
     } catch (error: any) {
       res.status(500).json({ message: 'Failed to disconnect account', error: error.message });
@@ -434,10 +870,10 @@ router.delete(
 
 // @route   GET /api/ai/social-accounts/linkedin/pages
 // @desc    Get managed LinkedIn organizations
-// @access  Private (Admin only)
+// @access  Private (social.manage_accounts)
 router.get(
   '/social-accounts/linkedin/pages',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('social.manage_accounts')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const organizations = await LinkedInClient.getManagedOrganizations();
@@ -450,10 +886,10 @@ router.get(
 
 // @route   POST /api/ai/social-accounts/linkedin/select-page
 // @desc    Select a LinkedIn organization for posting
-// @access  Private (Admin only)
+// @access  Private (social.manage_accounts)
 router.post(
   '/social-accounts/linkedin/select-page',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('social.manage_accounts')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { orgUrn, orgName } = req.body;
@@ -464,7 +900,7 @@ router.post(
       }
 
       await SocialToken.findOneAndUpdate(
-        { platform: 'linkedin' },
+        socialTokenFilter('linkedin'),
         {
           orgUrn,
           metadata: { selectedPageName: orgName }
@@ -1,15 +1,36 @@
 import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User';
 import School from '../models/School';
+import Session from '../models/Session';
 import { authMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import {
+  SessionError,
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeUserSessions,
+  listActiveSessions,
+} from '../utils/sessions';
+import {
+  consumeToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  setUserPassword,
+} from '../utils/accountTokens';
+import { InvitationError, acceptInvitation, findPendingInvitation } from '../utils/invitations';
+import { permissionsFor } from '../utils/permissions';
+
+// Same answer whether or not the email has an account, so it can't be used to probe for one
+const EMAIL_SENT_MESSAGE = 'If an account exists for this email, a message has been sent to it';
 
 const router = Router();
 
 // @route   POST /api/auth/register
-// @desc    Register a new user
+// @desc    Sign up a new school and its first user. They can log in once they confirm their
+//          email address. Every other account comes from an invitation.
 // @access  Public
 router.post(
   '/register',
@@ -17,7 +38,9 @@ router.post(
     body('name').trim().notEmpty().withMessage('Name is required'),
     body('email').isEmail().withMessage('Valid email is required'),
     body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
-    body('role').isIn(['admin', 'writer', 'school', 'marketer']).withMessage('Invalid role'),
+    body('role').optional().equals('school').withMessage('Only schools can sign up; other accounts need an invitation'),
+    body('schoolId').not().exists().withMessage('To join an existing school, ask it for an invitation'),
+    body('schoolName').trim().notEmpty().withMessage('School name is required'),
   ],
   async (req: Request, res: Response): Promise<void> => {
     try {
@@ -27,7 +50,7 @@ router.post(
         return;
       }
 
-      const { name, email, password, role, schoolId, schoolName } = req.body;
+      const { name, email, password, schoolName } = req.body;
 
       // Check if user already exists
       const existingUser = await User.findOne({ email });
@@ -36,73 +59,49 @@ router.post(
         return;
       }
 
-      let finalSchoolId = schoolId;
-
-      // If role is school, create school if schoolName provided or verify existing schoolId
-      if (role === 'school') {
-        if (schoolName && !schoolId) {
-          // Create new school
-          const newSchool = new School({
-            name: schoolName,
-            contactEmail: email,
-            isActive: true,
-          });
-          const savedSchool = await newSchool.save();
-          finalSchoolId = savedSchool._id;
-        } else if (schoolId) {
-          // Verify existing school
-          const school = await School.findById(schoolId);
-          if (!school) {
-            res.status(400).json({ message: 'Invalid school ID' });
-            return;
-          }
-        } else {
-          res.status(400).json({ message: 'School name is required for school users' });
-          return;
-        }
-      }
+      // Create new school
+      const newSchool = new School({
+        name: schoolName,
+        contactEmail: email,
+        isActive: true,
+      });
+      const savedSchool = await newSchool.save();
 
       // Hash password
       const salt = await bcrypt.genSalt(10);
       const hashedPassword = await bcrypt.hash(password, salt);
 
-      // Create user object
-      const userData: any = {
+      const user = new User({
         name,
         email,
         password: hashedPassword,
-        role,
-      };
-
-      // Only include schoolId if role is school
-      if (role === 'school' && finalSchoolId) {
-        userData.schoolId = finalSchoolId;
-      }
-
-      const user = new User(userData);
+        role: 'school',
+        schoolId: savedSchool._id,
+        schoolRole: 'school_admin',
+        emailVerified: false,
+      });
       await user.save();
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { 
-          id: user._id, 
-          role: user.role, 
-          email: user.email,
-          schoolId: user.schoolId 
-        },
-        process.env.JWT_SECRET || 'fallback_secret',
-        { expiresIn: '7d' }
-      );
+      // The account exists either way; a failed send can be repeated from /resend-verification
+      let emailSent = false;
+      try {
+        emailSent = await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error('Verification email error:', mailError);
+      }
 
       res.status(201).json({
-        message: 'User registered successfully',
-        token,
+        message: emailSent
+          ? 'User registered successfully. Check your email to confirm your address before logging in.'
+          : 'User registered successfully, but we could not send the confirmation email. Request a new one from /api/auth/resend-verification.',
+        emailSent,
         user: {
           id: user._id,
           name: user.name,
           email: user.email,
           role: user.role,
           schoolId: user.schoolId,
+          emailVerified: false,
         },
       });
     } catch (error: any) {
@@ -151,21 +150,19 @@ router.post(
         return;
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { 
-          id: user._id, 
-          role: user.role, 
-          email: user.email,
-          schoolId: user.schoolId 
-        },
-        process.env.JWT_SECRET || 'fallback_secret',
-        { expiresIn: '7d' }
-      );
+      // Users created before verification existed, or by an admin, have no flag and are let in
+      if (user.emailVerified === false) {
+        res.status(403).json({ message: 'Please confirm your email address before logging in.', emailVerified: false });
+        return;
+      }
+
+      const { token, refreshToken, expiresIn } = await createSession(user, req);
 
       res.json({
         message: 'Login successful',
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user._id,
           name: user.name,
@@ -181,8 +178,356 @@ router.post(
   }
 );
 
+// @route   GET /api/auth/invitations/:token
+// @desc    Details of a pending invitation, for the accept page
+// @access  Public
+router.get('/invitations/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+    if (!invitation) {
+      res.status(404).json({ message: 'This invitation is invalid or has expired' });
+      return;
+    }
+
+    const school = invitation.schoolId ? await School.findById(invitation.schoolId).select('name') : null;
+
+    res.json({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        school: school ? { id: school._id, name: school.name } : undefined,
+        expiresAt: invitation.expiresAt,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   POST /api/auth/accept-invitation
+// @desc    Create an account from an invitation ({ token, name, password }) and log in
+// @access  Public
+router.post(
+  '/accept-invitation',
+  [
+    body('token').isString().notEmpty().withMessage('Token is required'),
+    body('name').trim().notEmpty().withMessage('Name is required'),
+    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await acceptInvitation(req.body.token, req.body.name, req.body.password);
+      const { token, refreshToken, expiresIn } = await createSession(user, req);
+
+      res.status(201).json({
+        message: 'Account created successfully',
+        token,
+        refreshToken,
+        expiresIn,
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          schoolId: user.schoolId,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof InvitationError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Accept invitation error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/auth/verify-email
+// @desc    Confirm an email address with the token from the verification email ({ token })
+// @access  Public
+router.post(
+  '/verify-email',
+  [body('token').isString().notEmpty().withMessage('Token is required')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await consumeToken(req.body.token, 'email_verification');
+      if (!user) {
+        res.status(400).json({ message: 'This link is invalid or has expired' });
+        return;
+      }
+
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+
+      res.json({ message: 'Email address confirmed. You can now log in.' });
+    } catch (error: any) {
+      console.error('Verify email error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send a new verification email ({ email })
+// @access  Public
+router.post(
+  '/resend-verification',
+  [body('email').isEmail().withMessage('Valid email is required')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await User.findOne({ email: req.body.email, isActive: true });
+      if (user && user.emailVerified === false && !(await sendVerificationEmail(user))) {
+        res.status(503).json({ message: 'The email could not be sent. Please try again later.' });
+        return;
+      }
+
+      res.json({ message: EMAIL_SENT_MESSAGE });
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link ({ email })
+// @access  Public
+router.post(
+  '/forgot-password',
+  [body('email').isEmail().withMessage('Valid email is required')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await User.findOne({ email: req.body.email, isActive: true });
+      if (user) {
+        await sendPasswordResetEmail(user);
+      }
+
+      res.json({ message: EMAIL_SENT_MESSAGE });
+    } catch (error: any) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/auth/reset-password
+// @desc    Choose a new password with the token from the reset email ({ token, password }).
+//          Signs the user out everywhere.
+// @access  Public
+router.post(
+  '/reset-password',
+  [
+    body('token').isString().notEmpty().withMessage('Token is required'),
+    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await consumeToken(req.body.token, 'password_reset');
+      if (!user || !user.isActive) {
+        res.status(400).json({ message: 'This link is invalid or has expired' });
+        return;
+      }
+
+      // The reset link reached their inbox, which confirms the address too
+      if (user.emailVerified === false) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+      }
+      await setUserPassword(user, req.body.password);
+
+      res.json({ message: 'Password updated. Please log in with your new password.' });
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/auth/password
+// @desc    Change the current user's password ({ currentPassword, newPassword }).
+//          Other sessions are signed out; the caller gets fresh tokens.
+// @access  Private
+router.put(
+  '/password',
+  [
+    authMiddleware,
+    body('currentPassword').notEmpty().withMessage('Current password is required'),
+    body('newPassword').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await User.findById(req.user!.id);
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      const isMatch = await bcrypt.compare(req.body.currentPassword, user.password);
+      if (!isMatch) {
+        res.status(400).json({ message: 'Current password is incorrect' });
+        return;
+      }
+
+      await setUserPassword(user, req.body.newPassword);
+
+      // Reload for the bumped token version
+      const updated = await User.findById(user._id);
+      const { token, refreshToken, expiresIn } = await createSession(updated!, req);
+
+      res.json({ message: 'Password changed successfully', token, refreshToken, expiresIn });
+    } catch (error: any) {
+      console.error('Change password error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/auth/refresh
+// @desc    Swap a refresh token for a new access token and refresh token ({ refreshToken })
+// @access  Public
+router.post(
+  '/refresh',
+  [body('refreshToken').isString().notEmpty().withMessage('Refresh token is required')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { token, refreshToken, expiresIn } = await refreshSession(req.body.refreshToken, req);
+
+      res.json({ token, refreshToken, expiresIn });
+    } catch (error: any) {
+      if (error instanceof SessionError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Refresh token error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/auth/logout
+// @desc    End the current session; its access and refresh tokens stop working
+// @access  Private
+router.post('/logout', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = req.user?.sessionId ? await Session.findById(req.user.sessionId) : null;
+    if (session) {
+      await revokeSession(session, 'logout');
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the current user's active sessions
+// @access  Private
+router.get('/sessions', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    res.json({
+      sessions: sessions.map(session => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: String(session._id) === req.user?.sessionId,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   DELETE /api/auth/sessions
+// @desc    Sign out of every other session
+// @access  Private
+router.delete('/sessions', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.id, 'revoked', req.user?.sessionId);
+
+    res.json({ message: `${revoked} session${revoked === 1 ? '' : 's'} revoked`, revoked });
+  } catch (error: any) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Revoke one of the current user's sessions
+// @access  Private
+router.delete('/sessions/:id', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const session = mongoose.isValidObjectId(req.params.id)
+      ? await Session.findOne({ _id: req.params.id, userId: req.user!.id, revokedAt: { $exists: false } })
+      : null;
+    if (!session) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    await revokeSession(session, 'revoked');
+
+    res.json({ message: 'Session revoked' });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // @route   GET /api/auth/me
-// @desc    Get current user
+// @desc    Get current user and the permissions they hold
 // @access  Private
 router.get('/me', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -192,7 +537,7 @@ router.get('/me', authMiddleware, async (req: AuthRequest, res: Response): Promi
       return;
     }
 
-    res.json({ user });
+    res.json({ user, permissions: permissionsFor(req.user!).map(p => p.permission) });
   } catch (error: any) {
     console.error('Get user error:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
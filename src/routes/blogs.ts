@@ -1,15 +1,47 @@
 import { Router, Response } from 'express';
 import Blog from '../models/Blog';
 import Submission from '../models/Submission';
-import { authMiddleware, roleMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { hasPermission, permissionScope, Permission } from '../utils/permissions';
 import { body, validationResult } from 'express-validator';
+import { transitionBlog, WorkflowError } from '../utils/blogWorkflow';
+import BlogRevision from '../models/BlogRevision';
+import { recordRevision, ensureBaselineRevision, applyRevision, diffRevisions } from '../utils/blogRevisions';
 
 const router = Router();
 
+// Fields that can be edited directly. Status changes go through the workflow.
+const EDITABLE_FIELDS = [
+  'title',
+  'content',
+  'slug',
+  'metaTitle',
+  'metaDescription',
+  'featuredImage',
+  'tags',
+  'category',
+  'seoKeywords',
+  'readingTime',
+];
+
+// Blogs belong to the school they are assigned to
+const canOnBlog = (req: AuthRequest, permission: Permission, blog: { assignedSchool?: any }): boolean =>
+  hasPermission(req.user!, permission, { schoolId: blog.assignedSchool });
+
+const canViewBlog = (req: AuthRequest, blog: { assignedSchool?: any }): boolean => canOnBlog(req, 'blog.read', blog);
+
+const pickEditableFields = (input: any): Record<string, any> => {
+  const updates: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (input[field] !== undefined) updates[field] = input[field];
+  }
+  return updates;
+};
+
 // @route   GET /api/blogs
 // @desc    Get all blogs
 // @access  Private
-router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+router.get('/', [authMiddleware, can('blog.read')], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { status, schoolId } = req.query;
     const filter: any = {};
@@ -17,9 +49,9 @@ router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise
     if (status) filter.status = status;
     if (schoolId) filter.assignedSchool = schoolId;
 
-    // If user is school role, only show their blogs
-    if (req.user?.role === 'school' && req.user?.schoolId) {
-      filter.assignedSchool = req.user.schoolId;
+    // School users only see blogs assigned to their school
+    if (permissionScope(req.user!, 'blog.read') === 'own_school') {
+      filter.assignedSchool = req.user!.schoolId;
     }
 
     const blogs = await Blog.find(filter)
@@ -38,7 +70,7 @@ router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise
 // @route   GET /api/blogs/:id
 // @desc    Get blog by ID
 // @access  Private
-router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+router.get('/:id', [authMiddleware, can('blog.read')], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const blog = await Blog.findById(req.params.id)
       .populate('submissionId')
@@ -50,6 +82,12 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
       return;
     }
 
+    // assignedSchool is populated here, so compare by its id
+    if (!canOnBlog(req, 'blog.read', { assignedSchool: blog.assignedSchool?._id })) {
+      res.status(403).json({ message: 'Not authorized to view this blog' });
+      return;
+    }
+
     res.json({ blog });
   } catch (error: any) {
     console.error('Get blog error:', error);
@@ -59,8 +97,8 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
 
 // @route   PUT /api/blogs/:id
 // @desc    Update blog
-// @access  Private (Writer, Admin, School with assigned blog)
-router.put('/:id', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+// @access  Private (blog.edit)
+router.put('/:id', [authMiddleware, can('blog.edit')], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const blog = await Blog.findById(req.params.id);
 
@@ -69,27 +107,32 @@ router.put('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
       return;
     }
 
-    // Check permissions
-    const canEdit =
-      req.user?.role === 'admin' ||
-      req.user?.role === 'writer' ||
-      (req.user?.role === 'school' && blog.assignedSchool?.toString() === req.user?.schoolId);
-
-    if (!canEdit) {
+    if (!canOnBlog(req, 'blog.edit', blog)) {
       res.status(403).json({ message: 'Not authorized to edit this blog' });
       return;
     }
 
-    const updatedBlog = await Blog.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true,
-    });
+    const { status, reason } = req.body;
+    await ensureBaselineRevision(blog);
+    blog.set(pickEditableFields(req.body));
+
+    if (status && status !== blog.status) {
+      await transitionBlog(blog, status, req.user!, reason);
+    } else {
+      await blog.save();
+    }
+
+    await recordRevision(blog, req.user, req.user?.role === 'school' ? 'review' : 'writer');
 
     res.json({
       message: 'Blog updated successfully',
-      blog: updatedBlog,
+      blog,
     });
   } catch (error: any) {
+    if (error instanceof WorkflowError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
     console.error('Update blog error:', error);
     res.status(500).json({ message: 'Server error', error: error.message });
   }
@@ -97,10 +140,10 @@ router.put('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
 
 // @route   POST /api/blogs/assign/:schoolId/:id
 // @desc    Assign blog to school for review
-// @access  Private (Writer, Admin)
+// @access  Private (blog.manage)
 router.post(
   '/assign/:schoolId/:id',
-  [authMiddleware, roleMiddleware('writer', 'admin')],
+  [authMiddleware, can('blog.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findById(req.params.id);
@@ -111,14 +154,17 @@ router.post(
       }
 
       blog.assignedSchool = req.params.schoolId as any;
-      blog.status = 'review';
-      await blog.save();
+      await transitionBlog(blog, 'review', req.user!, req.body?.reason);
 
       res.json({
         message: 'Blog assigned to school for review',
         blog,
       });
     } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
       console.error('Assign blog error:', error);
       res.status(500).json({ message: 'Server error', error: error.message });
     }
@@ -127,10 +173,10 @@ router.post(
 
 // @route   PUT /api/blogs/review/:id
 // @desc    School reviews and updates blog
-// @access  Private (School, Admin)
+// @access  Private (blog.review)
 router.put(
   '/review/:id',
-  [authMiddleware, roleMiddleware('school', 'admin')],
+  [authMiddleware, can('blog.review')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findById(req.params.id);
@@ -140,22 +186,32 @@ router.put(
         return;
       }
 
-      // Verify school owns this blog
-      if (req.user?.role === 'school' && blog.assignedSchool?.toString() !== req.user?.schoolId) {
+      if (!canOnBlog(req, 'blog.review', blog)) {
         res.status(403).json({ message: 'Not authorized to review this blog' });
         return;
       }
 
-      const updatedBlog = await Blog.findByIdAndUpdate(req.params.id, req.body, {
-        new: true,
-        runValidators: true,
-      });
+      const { status, reason } = req.body;
+      await ensureBaselineRevision(blog);
+      blog.set(pickEditableFields(req.body));
+
+      if (status && status !== blog.status) {
+        await transitionBlog(blog, status, req.user!, reason);
+      } else {
+        await blog.save();
+      }
+
+      await recordRevision(blog, req.user, 'review');
 
       res.json({
         message: 'Blog review saved successfully',
-        blog: updatedBlog,
+        blog,
       });
     } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
       console.error('Review blog error:', error);
       res.status(500).json({ message: 'Server error', error: error.message });
     }
@@ -164,10 +220,10 @@ router.put(
 
 // @route   PUT /api/blogs/approve/:id
 // @desc    School approves blog for admin publishing
-// @access  Private (School, Admin)
+// @access  Private (blog.approve)
 router.put(
   '/approve/:id',
-  [authMiddleware, roleMiddleware('school', 'admin')],
+  [authMiddleware, can('blog.approve')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findById(req.params.id);
@@ -177,32 +233,100 @@ router.put(
         return;
       }
 
-      // Verify school owns this blog
-      if (req.user?.role === 'school' && blog.assignedSchool?.toString() !== req.user?.schoolId) {
+      if (!canOnBlog(req, 'blog.approve', blog)) {
         res.status(403).json({ message: 'Not authorized to approve this blog' });
         return;
       }
 
-      blog.status = 'approved_school';
-      await blog.save();
+      await transitionBlog(blog, 'approved_school', req.user!, req.body?.reason);
 
       res.json({
         message: 'Blog approved and sent for publishing',
         blog,
       });
     } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
       console.error('Approve blog error:', error);
       res.status(500).json({ message: 'Server error', error: error.message });
     }
   }
 );
 
+// @route   PUT /api/blogs/reject/:id
+// @desc    School rejects blog with a comment explaining why
+// @access  Private (blog.approve)
+router.put(
+  '/reject/:id',
+  [authMiddleware, can('blog.approve')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const blog = await Blog.findById(req.params.id);
+
+      if (!blog) {
+        res.status(404).json({ message: 'Blog not found' });
+        return;
+      }
+
+      if (!canOnBlog(req, 'blog.approve', blog)) {
+        res.status(403).json({ message: 'Not authorized to reject this blog' });
+        return;
+      }
+
+      await transitionBlog(blog, 'rejected', req.user!, req.body?.comment || req.body?.reason);
+
+      res.json({
+        message: 'Blog rejected',
+        blog,
+      });
+    } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Reject blog error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/blogs/:id/history
+// @desc    Get status transition history for a blog
+// @access  Private
+router.get('/:id/history', [authMiddleware, can('blog.read')], async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const blog = await Blog.findById(req.params.id)
+      .select('status statusHistory assignedSchool')
+      .populate('statusHistory.actor', 'name email role');
+
+    if (!blog) {
+      res.status(404).json({ message: 'Blog not found' });
+      return;
+    }
+
+    if (!canViewBlog(req, blog)) {
+      res.status(403).json({ message: 'Not authorized to view this blog' });
+      return;
+    }
+
+    res.json({
+      status: blog.status,
+      history: blog.statusHistory,
+    });
+  } catch (error: any) {
+    console.error('Get blog history error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // @route   DELETE /api/blogs/:id
 // @desc    Delete blog
-// @access  Private (Admin only)
+// @access  Private (blog.delete)
 router.delete(
   '/:id',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('blog.delete')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findByIdAndDelete(req.params.id);
@@ -220,16 +344,169 @@ router.delete(
   }
 );
 
+// @route   GET /api/blogs/:id/revisions
+// @desc    List saved revisions of a blog
+// @access  Private
+router.get('/:id/revisions', [authMiddleware, can('blog.read')], async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const blog = await Blog.findById(req.params.id).select('assignedSchool');
+
+    if (!blog) {
+      res.status(404).json({ message: 'Blog not found' });
+      return;
+    }
+
+    if (!canViewBlog(req, blog)) {
+      res.status(403).json({ message: 'Not authorized to view this blog' });
+      return;
+    }
+
+    const revisions = await BlogRevision.find({ blogId: blog._id })
+      .select('-content')
+      .populate('createdBy', 'name email role')
+      .sort({ revision: -1 });
+
+    res.json({ revisions });
+  } catch (error: any) {
+    console.error('Get blog revisions error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   GET /api/blogs/:id/revisions/diff?from=1&to=2
+// @desc    Diff two revisions of a blog
+// @access  Private
+router.get('/:id/revisions/diff', [authMiddleware, can('blog.read')], async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+
+    if (isNaN(from) || isNaN(to)) {
+      res.status(400).json({ message: 'from and to revision numbers are required' });
+      return;
+    }
+
+    const blog = await Blog.findById(req.params.id).select('assignedSchool');
+
+    if (!blog) {
+      res.status(404).json({ message: 'Blog not found' });
+      return;
+    }
+
+    if (!canViewBlog(req, blog)) {
+      res.status(403).json({ message: 'Not authorized to view this blog' });
+      return;
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      BlogRevision.findOne({ blogId: blog._id, revision: from }),
+      BlogRevision.findOne({ blogId: blog._id, revision: to }),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      res.status(404).json({ message: 'Revision not found' });
+      return;
+    }
+
+    res.json({ diff: diffRevisions(fromRevision, toRevision) });
+  } catch (error: any) {
+    console.error('Diff blog revisions error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   GET /api/blogs/:id/revisions/:revision
+// @desc    Get a single revision of a blog
+// @access  Private
+router.get('/:id/revisions/:revision', [authMiddleware, can('blog.read')], async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const blog = await Blog.findById(req.params.id).select('assignedSchool');
+
+    if (!blog) {
+      res.status(404).json({ message: 'Blog not found' });
+      return;
+    }
+
+    if (!canViewBlog(req, blog)) {
+      res.status(403).json({ message: 'Not authorized to view this blog' });
+      return;
+    }
+
+    const revision = await BlogRevision.findOne({
+      blogId: blog._id,
+      revision: parseInt(req.params.revision),
+    }).populate('createdBy', 'name email role');
+
+    if (!revision) {
+      res.status(404).json({ message: 'Revision not found' });
+      return;
+    }
+
+    res.json({ revision });
+  } catch (error: any) {
+    console.error('Get blog revision error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   POST /api/blogs/:id/revisions/:revision/restore
+// @desc    Restore an old revision as the latest one
+// @access  Private (blog.edit)
+router.post(
+  '/:id/revisions/:revision/restore',
+  [authMiddleware, can('blog.edit')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const blog = await Blog.findById(req.params.id);
+
+      if (!blog) {
+        res.status(404).json({ message: 'Blog not found' });
+        return;
+      }
+
+      if (!canOnBlog(req, 'blog.edit', blog)) {
+        res.status(403).json({ message: 'Not authorized to edit this blog' });
+        return;
+      }
+
+      const revision = await BlogRevision.findOne({
+        blogId: blog._id,
+        revision: parseInt(req.params.revision),
+      });
+
+      if (!revision) {
+        res.status(404).json({ message: 'Revision not found' });
+        return;
+      }
+
+      await ensureBaselineRevision(blog);
+      applyRevision(blog, revision);
+      await blog.save();
+
+      const restored = await recordRevision(blog, req.user, 'restore', revision.revision);
+
+      res.json({
+        message: `Revision ${revision.revision} restored`,
+        blog,
+        revision: restored,
+      });
+    } catch (error: any) {
+      console.error('Restore blog revision error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
 import { upload } from '../utils/multerConfig';
 
 // ... existing routes ...
 
 // @route   POST /api/blogs/:id/image
 // @desc    Upload featured image for blog
-// @access  Private (Writer, Admin)
+// @access  Private (blog.edit)
 router.post(
   '/:id/image',
-  [authMiddleware, roleMiddleware('writer', 'admin'), upload.single('image')],
+  [authMiddleware, can('blog.edit'), upload.single('image')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findById(req.params.id);
@@ -238,6 +515,11 @@ router.post(
         return;
       }
 
+      if (!canOnBlog(req, 'blog.edit', blog)) {
+        res.status(403).json({ message: 'Not authorized to edit this blog' });
+        return;
+      }
+
       if (req.file) {
         blog.featuredImage = (req.file as any).path;
         await blog.save();
@@ -0,0 +1,309 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import Comment from '../models/Comment';
+import { authMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import { hasPermission } from '../utils/permissions';
+import {
+  CommentTargetType,
+  findCommentTarget,
+  canAccessSchoolRecord,
+  createComment,
+  validateAnchor,
+  buildThreads,
+} from '../utils/comments';
+
+const router = Router();
+
+// @route   GET /api/comments?targetType=blog&targetId=...
+// @desc    Get comment threads for a blog or submission
+// @access  Private
+router.get(
+  '/',
+  [
+    authMiddleware,
+    query('targetType').isIn(['blog', 'submission']).withMessage('Invalid target type'),
+    query('targetId').notEmpty().withMessage('Target ID is required'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { targetType, targetId, resolved } = req.query as { targetType: CommentTargetType; targetId: string; resolved?: string };
+
+      const target = await findCommentTarget(targetType, targetId);
+      if (!target) {
+        res.status(404).json({ message: 'Comment target not found' });
+        return;
+      }
+
+      if (!canAccessSchoolRecord(req.user!, target.schoolId)) {
+        res.status(403).json({ message: 'Not authorized to view these comments' });
+        return;
+      }
+
+      const comments = await Comment.find({ targetType, targetId })
+        .populate('author', 'name email role')
+        .populate('mentions', 'name email')
+        .sort({ createdAt: 1 });
+
+      let threads = buildThreads(comments);
+      if (resolved === 'true' || resolved === 'false') {
+        threads = threads.filter(thread => thread.isResolved === (resolved === 'true'));
+      }
+
+      res.json({ threads });
+    } catch (error: any) {
+      console.error('Get comments error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/comments/mentions
+// @desc    Get comments that mention the current user, on records they can still see
+// @access  Private
+router.get('/mentions', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const comments = await Comment.find({ mentions: req.user!.id })
+      .populate('author', 'name email role')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    // Check against the live target: it may have moved to another school since the mention
+    const access = new Map<string, Promise<boolean>>();
+    const canSee = (targetType: CommentTargetType, targetId: string): Promise<boolean> => {
+      const key = `${targetType}:${targetId}`;
+      if (!access.has(key)) {
+        access.set(key, findCommentTarget(targetType, targetId)
+          .then(target => !!target && canAccessSchoolRecord(req.user!, target.schoolId)));
+      }
+      return access.get(key)!;
+    };
+
+    const visible = await Promise.all(comments.map(comment => canSee(comment.targetType, comment.targetId.toString())));
+
+    res.json({ comments: comments.filter((_, index) => visible[index]) });
+  } catch (error: any) {
+    console.error('Get mentions error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   POST /api/comments
+// @desc    Add a comment or reply to a blog or submission
+// @access  Private
+router.post(
+  '/',
+  [
+    authMiddleware,
+    body('targetType').optional().isIn(['blog', 'submission']).withMessage('Invalid target type'),
+    body('body').trim().notEmpty().withMessage('Comment body is required'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      let { targetType, targetId } = req.body;
+      const { parentId, anchor, mentions } = req.body;
+
+      // Replies always live on the parent's target
+      if (parentId) {
+        const parent = await Comment.findById(parentId);
+        if (!parent) {
+          res.status(404).json({ message: 'Parent comment not found' });
+          return;
+        }
+        if (parent.parentId) {
+          res.status(400).json({ message: 'Replies cannot be nested' });
+          return;
+        }
+        targetType = parent.targetType;
+        targetId = parent.targetId.toString();
+      }
+
+      if (!targetType || !targetId) {
+        res.status(400).json({ message: 'Target type and ID are required' });
+        return;
+      }
+
+      const target = await findCommentTarget(targetType, targetId);
+      if (!target) {
+        res.status(404).json({ message: 'Comment target not found' });
+        return;
+      }
+
+      if (!canAccessSchoolRecord(req.user!, target.schoolId)) {
+        res.status(403).json({ message: 'Not authorized to comment here' });
+        return;
+      }
+
+      const anchorError = parentId ? null : validateAnchor(anchor, target.content);
+      if (anchorError) {
+        res.status(400).json({ message: anchorError });
+        return;
+      }
+
+      const comment = await createComment(
+        req.user!,
+        {
+          targetType,
+          targetId,
+          body: req.body.body,
+          parentId,
+          anchor: anchor && {
+            start: anchor.start,
+            end: anchor.end,
+            quote: anchor.quote || target.content?.slice(anchor.start, anchor.end),
+          },
+          mentions: Array.isArray(mentions) ? mentions : [],
+        },
+        target.schoolId
+      );
+
+      await comment.populate('author', 'name email role');
+
+      res.status(201).json({
+        message: 'Comment added successfully',
+        comment,
+      });
+    } catch (error: any) {
+      console.error('Create comment error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/comments/:id
+// @desc    Edit own comment
+// @access  Private (Author only)
+router.put(
+  '/:id',
+  [authMiddleware, body('body').trim().notEmpty().withMessage('Comment body is required')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const comment = await Comment.findById(req.params.id);
+      if (!comment) {
+        res.status(404).json({ message: 'Comment not found' });
+        return;
+      }
+
+      if (comment.author.toString() !== req.user!.id) {
+        res.status(403).json({ message: 'Only the author can edit this comment' });
+        return;
+      }
+
+      // Authors who have since lost access to the target's school can't edit
+      const target = await findCommentTarget(comment.targetType, comment.targetId.toString());
+      if (!target) {
+        res.status(404).json({ message: 'Comment target not found' });
+        return;
+      }
+
+      if (!canAccessSchoolRecord(req.user!, target.schoolId)) {
+        res.status(403).json({ message: 'Not authorized to update this comment' });
+        return;
+      }
+
+      comment.body = req.body.body;
+      await comment.save();
+
+      res.json({
+        message: 'Comment updated successfully',
+        comment,
+      });
+    } catch (error: any) {
+      console.error('Update comment error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/comments/:id/resolve
+// @route   PUT /api/comments/:id/unresolve
+// @desc    Mark a thread resolved or reopen it
+// @access  Private
+const setResolved = (isResolved: boolean) =>
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const comment = await Comment.findById(req.params.id);
+      if (!comment) {
+        res.status(404).json({ message: 'Comment not found' });
+        return;
+      }
+
+      if (comment.parentId) {
+        res.status(400).json({ message: 'Only top-level comments can be resolved' });
+        return;
+      }
+
+      // The stored schoolId is a snapshot; the target may have been (re)assigned since
+      const target = await findCommentTarget(comment.targetType, comment.targetId.toString());
+      if (!target) {
+        res.status(404).json({ message: 'Comment target not found' });
+        return;
+      }
+
+      if (!canAccessSchoolRecord(req.user!, target.schoolId)) {
+        res.status(403).json({ message: 'Not authorized to update this comment' });
+        return;
+      }
+
+      comment.isResolved = isResolved;
+      comment.resolvedBy = isResolved ? new mongoose.Types.ObjectId(req.user!.id) : undefined;
+      comment.resolvedAt = isResolved ? new Date() : undefined;
+      await comment.save();
+
+      res.json({
+        message: isResolved ? 'Thread resolved' : 'Thread reopened',
+        comment,
+      });
+    } catch (error: any) {
+      console.error('Resolve comment error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  };
+
+router.put('/:id/resolve', authMiddleware, setResolved(true));
+router.put('/:id/unresolve', authMiddleware, setResolved(false));
+
+// @route   DELETE /api/comments/:id
+// @desc    Delete a comment and its replies
+// @access  Private (Author, Admin)
+router.delete('/:id', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const comment = await Comment.findById(req.params.id);
+    if (!comment) {
+      res.status(404).json({ message: 'Comment not found' });
+      return;
+    }
+
+    if (comment.author.toString() !== req.user!.id && !hasPermission(req.user!, 'comment.moderate')) {
+      res.status(403).json({ message: 'Not authorized to delete this comment' });
+      return;
+    }
+
+    await Comment.deleteMany({ $or: [{ _id: comment._id }, { parentId: comment._id }] });
+
+    res.json({ message: 'Comment deleted successfully' });
+  } catch (error: any) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
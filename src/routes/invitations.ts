@@ -0,0 +1,189 @@
+import { Router, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Invitation, { IInvitation, invitationStatus } from '../models/Invitation';
+import User from '../models/User';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { hasPermission, permissionScope } from '../utils/permissions';
+import { InvitationError, createInvitation, resendInvitation, revokeInvitation } from '../utils/invitations';
+import { SCHOOL_ROLES } from '../utils/schoolRoles';
+
+const router = Router();
+
+const toView = (invitation: IInvitation) => ({
+  id: invitation._id,
+  email: invitation.email,
+  role: invitation.role,
+  schoolId: invitation.schoolId,
+  schoolRole: invitation.schoolRole,
+  invitedBy: invitation.invitedBy,
+  status: invitationStatus(invitation),
+  expiresAt: invitation.expiresAt,
+  sentCount: invitation.sentCount,
+  lastSentAt: invitation.lastSentAt,
+  acceptedAt: invitation.acceptedAt,
+  revokedAt: invitation.revokedAt,
+  createdAt: invitation.createdAt,
+});
+
+/**
+ * Load an invitation the caller may manage: admins manage any, school
+ * admins only those for their own school. Responds and returns null otherwise.
+ */
+const findManageableInvitation = async (req: AuthRequest, res: Response): Promise<IInvitation | null> => {
+  const invitation = mongoose.isValidObjectId(req.params.id) ? await Invitation.findById(req.params.id) : null;
+
+  if (!invitation || !hasPermission(req.user!, 'school.manage_staff', { schoolId: invitation.schoolId })) {
+    res.status(404).json({ message: 'Invitation not found' });
+    return null;
+  }
+  return invitation;
+};
+
+// @route   GET /api/invitations
+// @desc    List invitations. Admins see all (filters: schoolId, role); school users see their school's.
+//          Filters: status (pending, accepted, revoked, expired), page, limit
+// @access  Private (school.manage_staff)
+router.get(
+  '/',
+  [authMiddleware, can('school.manage_staff')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { status, schoolId, role } = req.query;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+      const filter: any = {};
+      if (permissionScope(req.user!, 'school.manage_staff') === 'any') {
+        if (schoolId) filter.schoolId = schoolId;
+        if (role) filter.role = role;
+      } else {
+        filter.schoolId = req.user!.schoolId;
+      }
+
+      const now = new Date();
+      if (status === 'accepted') filter.acceptedAt = { $exists: true };
+      if (status === 'revoked') Object.assign(filter, { acceptedAt: { $exists: false }, revokedAt: { $exists: true } });
+      if (status === 'pending' || status === 'expired') {
+        Object.assign(filter, {
+          acceptedAt: { $exists: false },
+          revokedAt: { $exists: false },
+          expiresAt: status === 'pending' ? { $gt: now } : { $lte: now },
+        });
+      }
+
+      const [invitations, total] = await Promise.all([
+        Invitation.find(filter).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+        Invitation.countDocuments(filter),
+      ]);
+
+      res.json({ items: invitations.map(toView), total, page, limit });
+    } catch (error: any) {
+      console.error('Get invitations error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/invitations
+// @desc    Invite someone by email ({ email, role, schoolId, schoolRole }). Admins can invite any
+//          role; school admins can only invite staff to their own school. School roles default
+//          to contributor.
+// @access  Private (school.manage_staff)
+router.post(
+  '/',
+  [
+    authMiddleware,
+    can('school.manage_staff'),
+    body('email').isEmail().withMessage('Valid email is required'),
+    body('role').isIn(['admin', 'writer', 'school', 'marketer']).withMessage('Invalid role'),
+    body('schoolId').optional().isMongoId().withMessage('Invalid school id'),
+    body('schoolRole').optional().isIn(SCHOOL_ROLES).withMessage('Invalid school role'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      let { role, schoolId } = req.body;
+      if (permissionScope(req.user!, 'school.manage_staff') === 'own_school') {
+        if (role !== 'school') {
+          res.status(403).json({ message: 'Schools can only invite users to their own school' });
+          return;
+        }
+        schoolId = req.user!.schoolId;
+      }
+
+      const inviter = await User.findById(req.user!.id);
+      const invitation = await createInvitation(
+        { email: req.body.email, role, schoolId, schoolRole: req.body.schoolRole },
+        inviter!
+      );
+
+      res.status(201).json({ message: 'Invitation sent', invitation: toView(invitation) });
+    } catch (error: any) {
+      if (error instanceof InvitationError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Create invitation error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/invitations/:id/resend
+// @desc    Email a pending or expired invitation again with a new link and expiry
+// @access  Private (school.manage_staff)
+router.post(
+  '/:id/resend',
+  [authMiddleware, can('school.manage_staff')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const invitation = await findManageableInvitation(req, res);
+      if (!invitation) return;
+
+      const inviter = await User.findById(req.user!.id);
+      await resendInvitation(invitation, inviter!);
+
+      res.json({ message: 'Invitation resent', invitation: toView(invitation) });
+    } catch (error: any) {
+      if (error instanceof InvitationError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Resend invitation error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/invitations/:id
+// @desc    Revoke an invitation that hasn't been accepted
+// @access  Private (school.manage_staff)
+router.delete(
+  '/:id',
+  [authMiddleware, can('school.manage_staff')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const invitation = await findManageableInvitation(req, res);
+      if (!invitation) return;
+
+      await revokeInvitation(invitation, req.user!.id);
+
+      res.json({ message: 'Invitation revoked', invitation: toView(invitation) });
+    } catch (error: any) {
+      if (error instanceof InvitationError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Revoke invitation error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router, Response } from 'express';
+import Notification from '../models/Notification';
+import { authMiddleware, AuthRequest } from '../middleware/authMiddleware';
+
+const router = Router();
+
+// @route   GET /api/notifications?unread=true&page=1&limit=20
+// @desc    Get the current user's in-app notifications, newest first
+// @access  Private
+router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const filter: any = { userId: req.user!.id };
+    if (req.query.unread === 'true') filter.readAt = { $exists: false };
+
+    const [notifications, total, unread] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Notification.countDocuments(filter),
+      Notification.countDocuments({ userId: req.user!.id, readAt: { $exists: false } }),
+    ]);
+
+    res.json({ notifications, total, unread, page, limit });
+  } catch (error: any) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   PUT /api/notifications/read-all
+// @desc    Mark all of the current user's notifications as read
+// @access  Private
+router.put('/read-all', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await Notification.updateMany(
+      { userId: req.user!.id, readAt: { $exists: false } },
+      { readAt: new Date() }
+    );
+
+    res.json({ message: 'Notifications marked as read', updated: result.modifiedCount });
+  } catch (error: any) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// @route   PUT /api/notifications/:id/read
+// @desc    Mark one notification as read
+// @access  Private
+router.put('/:id/read', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const notification = await Notification.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user!.id },
+      { $set: { readAt: new Date() } },
+      { new: true }
+    );
+
+    if (!notification) {
+      res.status(404).json({ message: 'Notification not found' });
+      return;
+    }
+
+    res.json({ notification });
+  } catch (error: any) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
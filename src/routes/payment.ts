@@ -1,52 +1,403 @@
-import { Router, Response } from 'express';
-import Razorpay from 'razorpay';
-import crypto from 'crypto';
-import School from '../models/School';
+import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import PaymentOrder, { IPaymentOrder } from '../models/PaymentOrder';
 import Transaction from '../models/Transaction';
-import { authMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import Subscription from '../models/Subscription';
+import School from '../models/School';
+import { getPricingConfig, getPackQuotes, findActivePack, computePriceBreakdown, getActionPricing } from '../utils/pricing';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import {
+    razorpay,
+    PaymentError,
+    verifyHmacSignature,
+    creditPaymentOrder,
+    markPaymentOrderFailed,
+    flagAmountMismatch,
+    applyRazorpayRefund,
+} from '../utils/paymentOrders';
+import { logSecurityEvent } from '../utils/securityEvents';
+import {
+    LIVE_SUBSCRIPTION_STATUSES,
+    getPlanQuotes,
+    startSubscription,
+    cancelSubscription,
+    applySubscriptionWebhook,
+} from '../utils/subscriptions';
+import {
+    CouponError,
+    findRedeemableCoupon,
+    couponDiscountFor,
+    getReferralCode,
+    applyReferralCode,
+} from '../utils/coupons';
 
 const router = Router();
 
-// Initialize Razorpay
-// Note: In production, these should be handled securely.
-const razorpay = new Razorpay({
-    key_id: process.env.RAZORPAY_KEY_ID || '',
-    key_secret: process.env.RAZORPAY_KEY_SECRET || '',
-});
+/**
+ * @route   GET /api/payment/packs
+ * @desc    Credit packs with the price breakdown for the caller's school, plus action costs
+ * @access  Private
+ */
+router.get(
+    '/packs',
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const config = await getPricingConfig();
+            const school = req.user?.schoolId ? await School.findById(req.user.schoolId).select('pricingOverride') : null;
+
+            res.json({
+                currency: config.currency,
+                packs: getPackQuotes(config, school),
+                actions: {
+                    publish: await getActionPricing('publish', req.user?.schoolId),
+                },
+            });
+        } catch (error: any) {
+            console.error('Get credit packs error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   GET /api/payment/plans
+ * @desc    Subscription plans with their price breakdown
+ * @access  Private
+ */
+router.get(
+    '/plans',
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const config = await getPricingConfig();
+            res.json({ currency: config.currency, plans: getPlanQuotes(config) });
+        } catch (error: any) {
+            console.error('Get plans error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   GET /api/payment/subscription
+ * @desc    The caller's school's current (or most recent) subscription
+ * @access  Private (billing.read)
+ */
+router.get(
+    '/subscription',
+    authMiddleware,
+    can('billing.read'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user?.schoolId) {
+                res.status(403).json({ message: 'Only schools have subscriptions' });
+                return;
+            }
+
+            const subscription = await Subscription.findOne({ schoolId: req.user.schoolId })
+                .select('-payments')
+                .sort({ createdAt: -1 });
+
+            res.json({ subscription });
+        } catch (error: any) {
+            console.error('Get subscription error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   POST /api/payment/subscription
+ * @desc    Subscribe the caller's school to a plan ({ planId }).
+ *          Returns the Razorpay subscription to complete in checkout.
+ * @access  Private (billing.purchase)
+ */
+router.post(
+    '/subscription',
+    authMiddleware,
+    can('billing.purchase'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user?.schoolId) {
+                res.status(403).json({ message: 'Only schools can subscribe' });
+                return;
+            }
+
+            const config = await getPricingConfig();
+            const plan = config.plans.find(p => p._id.toString() === req.body.planId && p.isActive);
+            if (!plan) {
+                res.status(400).json({ message: 'Subscription plan not found' });
+                return;
+            }
+
+            const subscription = await startSubscription(req.user.schoolId, plan, config, req.user.id);
+
+            res.status(201).json({
+                subscription,
+                razorpaySubscriptionId: subscription.razorpaySubscriptionId,
+                shortUrl: subscription.shortUrl,
+                key: process.env.RAZORPAY_KEY_ID,
+            });
+        } catch (error: any) {
+            if (error instanceof PaymentError) {
+                res.status(error.status).json({ message: error.message });
+                return;
+            }
+            console.error('Create subscription error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   POST /api/payment/subscription/cancel
+ * @desc    Cancel the school's subscription ({ immediately?: boolean }).
+ *          By default it stays active until the end of the paid period.
+ * @access  Private (billing.purchase)
+ */
+router.post(
+    '/subscription/cancel',
+    authMiddleware,
+    can('billing.purchase'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user?.schoolId) {
+                res.status(403).json({ message: 'Only schools have subscriptions' });
+                return;
+            }
+
+            const subscription = await Subscription.findOne({
+                schoolId: req.user.schoolId,
+                status: { $in: LIVE_SUBSCRIPTION_STATUSES },
+            });
+            if (!subscription) {
+                res.status(404).json({ message: 'No active subscription' });
+                return;
+            }
+
+            await cancelSubscription(subscription, req.body.immediately !== true);
+
+            res.json({ message: 'Subscription cancelled', subscription });
+        } catch (error: any) {
+            console.error('Cancel subscription error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   POST /api/payment/coupons/validate
+ * @desc    Check a coupon code and quote a pack with it applied ({ code, packId })
+ * @access  Private (billing.purchase)
+ */
+router.post(
+    '/coupons/validate',
+    authMiddleware,
+    can('billing.purchase'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user?.schoolId) {
+                res.status(403).json({ message: 'Only schools can use coupons' });
+                return;
+            }
+
+            const { code, packId } = req.body;
+            if (!code) {
+                res.status(400).json({ message: 'Coupon code is required' });
+                return;
+            }
+
+            const config = await getPricingConfig();
+            const pack = findActivePack(config, packId);
+            if (!pack) {
+                res.status(400).json({ message: 'Credit pack not found' });
+                return;
+            }
+
+            const coupon = await findRedeemableCoupon(code, req.user.schoolId);
+            const school = await School.findById(req.user.schoolId).select('pricingOverride');
+
+            res.json({
+                coupon: {
+                    code: coupon.code,
+                    description: coupon.description,
+                    bonusCoins: coupon.bonusCoins,
+                    expiresAt: coupon.expiresAt,
+                },
+                pack: { _id: pack._id, name: pack.name, coins: pack.coins },
+                breakdown: computePriceBreakdown(
+                    pack.baseAmount,
+                    config,
+                    school?.pricingOverride?.discountPercent || 0,
+                    couponDiscountFor(coupon)
+                ),
+            });
+        } catch (error: any) {
+            if (error instanceof CouponError) {
+                res.status(error.status).json({ message: error.message });
+                return;
+            }
+            console.error('Validate coupon error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   GET /api/payment/referral
+ * @desc    The caller's school referral code and what it has earned
+ * @access  Private (billing.read)
+ */
+router.get(
+    '/referral',
+    authMiddleware,
+    can('billing.read'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user?.schoolId) {
+                res.status(403).json({ message: 'Only schools have referral codes' });
+                return;
+            }
+
+            const referralCode = await getReferralCode(req.user.schoolId);
+            const [school, referred, rewards, config] = await Promise.all([
+                School.findById(req.user.schoolId).select('referredBy').populate('referredBy', 'name'),
+                School.find({ referredBy: req.user.schoolId }).select('name referralRewardedAt createdAt'),
+                Transaction.aggregate([
+                    { $match: { schoolId: new mongoose.Types.ObjectId(req.user.schoolId), type: 'referral_reward' } },
+                    { $group: { _id: null, coins: { $sum: '$coins' } } },
+                ]),
+                getPricingConfig(),
+            ]);
+
+            res.json({
+                referralCode,
+                reward: config.referralReward,
+                referredBy: school?.referredBy,
+                referrals: referred.map(s => ({ name: s.name, joinedAt: s.createdAt, rewarded: Boolean(s.referralRewardedAt) })),
+                coinsEarned: rewards[0]?.coins || 0,
+            });
+        } catch (error: any) {
+            console.error('Get referral error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
+/**
+ * @route   POST /api/payment/referral
+ * @desc    Enter the referral code of the school that referred the caller's school ({ code })
+ * @access  Private (billing.purchase)
+ */
+router.post(
+    '/referral',
+    authMiddleware,
+    can('billing.purchase'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user?.schoolId) {
+                res.status(403).json({ message: 'Only schools can use referral codes' });
+                return;
+            }
+
+            if (!req.body.code) {
+                res.status(400).json({ message: 'Referral code is required' });
+                return;
+            }
+
+            const { referrer } = await applyReferralCode(req.user.schoolId, req.body.code);
+
+            res.json({ message: `Referred by ${referrer.name}`, referredBy: { _id: referrer._id, name: referrer.name } });
+        } catch (error: any) {
+            if (error instanceof CouponError) {
+                res.status(error.status).json({ message: error.message });
+                return;
+            }
+            console.error('Apply referral code error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
 
 /**
  * @route   POST /api/payment/create-order
- * @desc    Create a Razorpay order for purchasing credits
- * @access  Private (School Admin)
+ * @desc    Create a Razorpay order for purchasing a credit pack ({ packId, couponCode? })
+ * @access  Private (billing.purchase)
  */
 router.post(
     '/create-order',
     authMiddleware,
+    can('billing.purchase'),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
-            if (req.user?.role !== 'school' || !req.user?.schoolId) {
+            if (!req.user?.schoolId) {
                 res.status(403).json({ message: 'Only schools can purchase credits' });
                 return;
             }
 
-            // Amount calculation:
-            // Base: ₹99
-            // Platform Fee (2%): ₹1.98
-            // GST on Fee (18% of 1.98): ₹0.3564 -> ₹0.36
-            // Total convenience fee: ₹1.98 + ₹0.36 = ₹2.34
-            // Total Amount: ₹99 + ₹2.34 = ₹101.34
-            // Rounded as requested: ₹101.35
-            // Razorpay expects amount in paise (101.35 * 100 = 10135)
-            const amount = 10135;
+            const config = await getPricingConfig();
+            const { packId, couponCode } = req.body;
+
+            // Older clients don't send a pack; they bought the first one
+            const pack = packId
+                ? findActivePack(config, packId)
+                : config.packs.filter(p => p.isActive).sort((a, b) => a.sortOrder - b.sortOrder)[0];
+
+            if (!pack) {
+                res.status(400).json({ message: 'Credit pack not found' });
+                return;
+            }
+
+            const coupon = couponCode ? await findRedeemableCoupon(couponCode, req.user.schoolId) : null;
+
+            const school = await School.findById(req.user.schoolId).select('pricingOverride');
+            const breakdown = computePriceBreakdown(
+                pack.baseAmount,
+                config,
+                school?.pricingOverride?.discountPercent || 0,
+                coupon ? couponDiscountFor(coupon) : undefined
+            );
+
+            // Razorpay expects the amount in paise
+            const amount = breakdown.total;
             const options = {
                 amount,
-                currency: 'INR',
+                currency: config.currency,
                 receipt: `receipt_${Date.now()}`,
             };
 
             const order = await razorpay.orders.create(options);
-            res.json({ order });
+
+            // Persist the order so the webhook can credit it even if the browser never calls back
+            await PaymentOrder.create({
+                schoolId: req.user.schoolId,
+                razorpayOrderId: order.id,
+                amount,
+                baseAmount: breakdown.subtotal / 100,
+                packId: pack._id,
+                packName: pack.name,
+                breakdown,
+                couponId: coupon?._id,
+                couponCode: coupon?.code,
+                bonusCoins: coupon?.bonusCoins || 0,
+                currency: options.currency,
+                coins: pack.coins,
+                receipt: options.receipt,
+                createdBy: req.user.id,
+            });
+
+            res.json({
+                order,
+                pack: { _id: pack._id, name: pack.name, coins: pack.coins },
+                breakdown,
+                coupon: coupon ? { code: coupon.code, bonusCoins: coupon.bonusCoins } : undefined,
+            });
         } catch (error: any) {
+            if (error instanceof CouponError) {
+                res.status(error.status).json({ message: error.message });
+                return;
+            }
             console.error('Create order error:', error);
             res.status(500).json({ message: 'Server error', error: error.message });
         }
@@ -55,15 +406,18 @@ router.post(
 
 /**
  * @route   POST /api/payment/verify
- * @desc    Verify Razorpay payment signature and add credits
- * @access  Private (School Admin)
+ * @desc    Verify Razorpay payment signature and add credits.
+ *          The order must belong to the caller's school and is credited once; verifying the
+ *          same payment again returns the credited state.
+ * @access  Private (billing.purchase)
  */
 router.post(
     '/verify',
     authMiddleware,
+    can('billing.purchase'),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
-            if (req.user?.role !== 'school' || !req.user?.schoolId) {
+            if (!req.user?.schoolId) {
                 res.status(403).json({ message: 'Not authorized' });
                 return;
             }
@@ -71,47 +425,204 @@ router.post(
             const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body;
 
             const body = razorpay_order_id + "|" + razorpay_payment_id;
-            const expectedSignature = crypto
-                .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET || '')
-                .update(body.toString())
-                .digest('hex');
-
-            if (expectedSignature === razorpay_signature) {
-                // Payment verified, add 99 coins to school
-                const school = await School.findById(req.user.schoolId);
-                if (!school) {
-                    res.status(404).json({ message: 'School not found' });
-                    return;
-                }
+            if (!verifyHmacSignature(body, razorpay_signature, process.env.RAZORPAY_KEY_SECRET || '')) {
+                await logSecurityEvent('payment_signature_invalid', req, { razorpay_order_id, razorpay_payment_id });
+                res.status(400).json({ message: 'Invalid payment signature' });
+                return;
+            }
+
+            const order = await PaymentOrder.findOne({ razorpayOrderId: razorpay_order_id });
+            if (!order) {
+                res.status(404).json({ message: 'Payment order not found' });
+                return;
+            }
 
-                const coinsBefore = school.coins || 0;
-                school.coins = coinsBefore + 99;
-                await school.save();
-
-                // Log Transaction
-                await Transaction.create({
-                    schoolId: school._id,
-                    type: 'purchase',
-                    coins: 99,
-                    amount: 99, // Base amount as requested
-                    coinsBefore: coinsBefore,
-                    coinsAfter: school.coins,
-                    referenceId: razorpay_payment_id,
-                    description: 'Credit purchase via Razorpay',
+            if (order.schoolId.toString() !== req.user.schoolId) {
+                await logSecurityEvent('payment_order_mismatch', req, {
+                    razorpay_order_id,
+                    razorpay_payment_id,
+                    orderSchoolId: order.schoolId.toString(),
                 });
+                res.status(403).json({ message: 'This order does not belong to your school' });
+                return;
+            }
+
+            if (order.status === 'amount_mismatch') {
+                res.status(409).json({ message: 'This payment is being reviewed. Credits will be added once it is confirmed.' });
+                return;
+            }
+
+            // A browser retry, or a verify arriving after the webhook, gets the credited state back
+            const alreadyCredited = async (credited: IPaymentOrder): Promise<void> => {
+                const school = await School.findById(req.user!.schoolId).select('coins');
+                res.json({ message: 'Payment verified. Credits were already added.', coins: school?.coins, order: credited });
+            };
+
+            if (order.creditedAt && order.razorpayPaymentId === razorpay_payment_id) {
+                await alreadyCredited(order);
+                return;
+            }
 
-                res.json({
-                    message: 'Payment verified successfully and credits added!',
-                    coins: school.coins
+            if (order.razorpayPaymentId && order.creditedAt && order.razorpayPaymentId !== razorpay_payment_id) {
+                await logSecurityEvent('payment_duplicate', req, {
+                    razorpay_order_id,
+                    razorpay_payment_id,
+                    creditedPaymentId: order.razorpayPaymentId,
                 });
-            } else {
-                res.status(400).json({ message: 'Invalid payment signature' });
+                res.status(409).json({ message: 'This order has already been paid' });
+                return;
             }
+
+            // Only the first verification of an order does the crediting
+            const claimed = await PaymentOrder.findOneAndUpdate(
+                { _id: order._id, verifiedAt: { $exists: false } },
+                { verifiedAt: new Date() },
+                { new: true }
+            );
+
+            if (!claimed) {
+                const current = await PaymentOrder.findById(order._id);
+                if (current?.creditedAt && current.razorpayPaymentId === razorpay_payment_id) {
+                    await alreadyCredited(current);
+                    return;
+                }
+
+                // Another payment on the same order is a replay; the same one is a verify still in flight
+                if (current?.razorpayPaymentId && current.razorpayPaymentId !== razorpay_payment_id) {
+                    await logSecurityEvent('payment_replay', req, {
+                        razorpay_order_id,
+                        razorpay_payment_id,
+                        recordedPaymentId: current.razorpayPaymentId,
+                    });
+                    res.status(409).json({ message: 'This order has already been verified with another payment' });
+                    return;
+                }
+
+                res.status(409).json({ message: 'This payment is still being verified. Please try again shortly.' });
+                return;
+            }
+
+            let result;
+            try {
+                // The webhook may already have credited this order
+                result = await creditPaymentOrder(claimed, razorpay_payment_id, 'verify');
+            } catch (creditError) {
+                // Let the browser retry a verification that didn't go through
+                await PaymentOrder.findByIdAndUpdate(order._id, { $unset: { verifiedAt: 1 } });
+                throw creditError;
+            }
+
+            const school = await School.findById(req.user.schoolId).select('coins');
+
+            res.json({
+                message: result.credited
+                    ? 'Payment verified successfully and credits added!'
+                    : 'Payment verified. Credits were already added.',
+                coins: school?.coins,
+                order: result.order,
+            });
         } catch (error: any) {
+            if (error instanceof PaymentError) {
+                if (error.status === 409) {
+                    await logSecurityEvent('payment_duplicate', req, { ...req.body, razorpay_signature: undefined });
+                }
+                res.status(error.status).json({ message: error.message });
+                return;
+            }
             console.error('Verify payment error:', error);
             res.status(500).json({ message: 'Server error', error: error.message });
         }
     }
 );
 
+/**
+ * @route   POST /api/payment/webhook
+ * @desc    Razorpay webhook for payment.captured, payment.failed, refund.processed
+ *          and the subscription.* lifecycle events.
+ *          The raw body is signed with RAZORPAY_WEBHOOK_SECRET (X-Razorpay-Signature),
+ *          so fixture payloads can be signed locally with the same secret.
+ * @access  Public (signature verified)
+ */
+router.post(
+    '/webhook',
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+            const signature = req.header('X-Razorpay-Signature');
+
+            if (!rawBody || !verifyHmacSignature(rawBody, signature, process.env.RAZORPAY_WEBHOOK_SECRET || '')) {
+                res.status(400).json({ message: 'Invalid webhook signature' });
+                return;
+            }
+
+            const { event, payload } = req.body;
+
+            switch (event) {
+                case 'payment.captured': {
+                    const payment = payload?.payment?.entity;
+                    const order = await PaymentOrder.findOne({ razorpayOrderId: payment?.order_id });
+
+                    if (!order) {
+                        console.warn(`⚠️ Razorpay webhook: no order found for ${payment?.order_id}`);
+                        break;
+                    }
+
+                    // Keep the order uncredited for an admin to review, but acknowledge the event
+                    if (payment.amount !== order.amount) {
+                        console.error(`❌ Razorpay webhook: amount mismatch for ${order.razorpayOrderId} (${payment.amount} vs ${order.amount})`);
+                        await flagAmountMismatch(order, payment.id, payment.amount);
+                        await logSecurityEvent('payment_amount_mismatch', null, {
+                            razorpay_order_id: order.razorpayOrderId,
+                            razorpay_payment_id: payment.id,
+                            expectedAmount: order.amount,
+                            capturedAmount: payment.amount,
+                        }, order.schoolId.toString());
+                        break;
+                    }
+
+                    await creditPaymentOrder(order, payment.id, 'webhook');
+                    break;
+                }
+                case 'payment.failed': {
+                    const payment = payload?.payment?.entity;
+                    if (payment?.order_id) {
+                        await markPaymentOrderFailed(payment.order_id, payment.id, payment.error_description);
+                    }
+                    break;
+                }
+                case 'refund.processed': {
+                    const refund = payload?.refund?.entity;
+                    if (refund?.payment_id) {
+                        await applyRazorpayRefund(refund);
+                    }
+                    break;
+                }
+                case 'subscription.authenticated':
+                case 'subscription.activated':
+                case 'subscription.charged':
+                case 'subscription.pending':
+                case 'subscription.halted':
+                case 'subscription.cancelled':
+                case 'subscription.completed':
+                    await applySubscriptionWebhook(event, payload);
+                    break;
+                default:
+                    console.log(`ℹ️ Razorpay webhook: ignoring ${event}`);
+            }
+
+            res.json({ status: 'ok' });
+        } catch (error: any) {
+            // Redelivering a rejected duplicate won't help; acknowledge it
+            if (error instanceof PaymentError) {
+                await logSecurityEvent('payment_duplicate', null, { event: req.body?.event, message: error.message });
+                res.json({ status: 'ignored' });
+                return;
+            }
+            // A non-2xx response makes Razorpay redeliver the event
+            console.error('Razorpay webhook error:', error);
+            res.status(500).json({ message: 'Server error', error: error.message });
+        }
+    }
+);
+
 export default router;
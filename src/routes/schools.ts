@@ -1,16 +1,121 @@
 import { Router, Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import School from '../models/School';
-import { authMiddleware, roleMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import mongoose from 'mongoose';
+import { body, param, query, validationResult } from 'express-validator';
+import School, { ISchool } from '../models/School';
+import Transaction, { TRANSACTION_TYPES, TransactionType } from '../models/Transaction';
+import SocialToken from '../models/SocialToken';
+import Invoice from '../models/Invoice';
+import User from '../models/User';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { WordPressClient, normalizeWordPressUrl, createSchoolWordPressClient } from '../utils/wordpressClient';
+import { encryptSecret } from '../utils/encryption';
+import { socialTokenFilter, getConnectedPlatforms, SOCIAL_TARGETS } from '../utils/socialAccounts';
+import FacebookClient from '../utils/FacebookClient';
+import LinkedInClient from '../utils/LinkedInClient';
+import TwitterClient from '../utils/TwitterClient';
+import { renderInvoiceHtml, renderInvoicePdf } from '../utils/invoices';
+import { getHeldCoins, isCreditType, CREDIT_TYPES } from '../utils/coinService';
+import { getActionPricing, getPricingConfig } from '../utils/pricing';
+import { checkLowBalance } from '../utils/lowBalanceAlerts';
+import { toCsv } from '../utils/csv';
+import { SCHOOL_ROLES, DEFAULT_SCHOOL_ROLE } from '../utils/schoolRoles';
+import { permissionScope, permissionsFor } from '../utils/permissions';
+import { invalidateUserTokens } from '../utils/sessions';
 
 const router = Router();
 
+// Runs the client's own URL check so unsafe hosts are rejected before anything is stored or fetched
+const validWordPressUrl = (value: string): boolean => {
+  normalizeWordPressUrl(value);
+  return true;
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const billingDetails = (school: ISchool) => ({
+  billingName: school.billingName || school.name,
+  address: school.address || null,
+  city: school.city || null,
+  state: school.state || null,
+  pincode: school.pincode || null,
+  gstin: school.gstin || null,
+});
+
+const walletHistoryValidators = [
+  param('id').isMongoId().withMessage('Invalid school id'),
+  query('type')
+    .optional()
+    .custom((value: string) => value.split(',').every(type => TRANSACTION_TYPES.includes(type as TransactionType)))
+    .withMessage(`Type must be one of: ${TRANSACTION_TYPES.join(', ')}`),
+  query('from').optional().isISO8601().withMessage('From must be a date'),
+  query('to').optional().isISO8601().withMessage('To must be a date'),
+];
+
+// Transaction query for a school's coin history; `to` covers the whole day
+const walletHistoryFilter = (schoolId: string, params: any) => {
+  const filter: any = { schoolId };
+  if (params.type) filter.type = { $in: String(params.type).split(',') };
+  if (params.from || params.to) {
+    filter.createdAt = {};
+    if (params.from) filter.createdAt.$gte = new Date(params.from);
+    if (params.to) {
+      const to = new Date(params.to);
+      to.setUTCHours(23, 59, 59, 999);
+      filter.createdAt.$lte = to;
+    }
+  }
+  return filter;
+};
+
+const wordpressSettings = (school: any) => ({
+  baseUrl: school.wordpress?.baseUrl || null,
+  username: school.wordpress?.username || null,
+  hasPassword: !!school.wordpress?.appPassword,
+  verifiedAt: school.wordpress?.verifiedAt || null,
+  publishTarget: school.publishTarget,
+});
+
+// Connection status of a school's own social accounts (never the tokens)
+const socialSettings = async (school: ISchool) => {
+  const tokens = await SocialToken.find({ schoolId: school._id });
+  const fb = tokens.find(t => t.platform === 'facebook');
+  const ig = tokens.find(t => t.platform === 'instagram');
+  const li = tokens.find(t => t.platform === 'linkedin');
+  const tw = tokens.find(t => t.platform === 'twitter');
+  const legacyInstagram = !!(school.instagramAccountId && school.instagramAccessToken);
+
+  return {
+    socialTarget: school.socialTarget,
+    facebook: {
+      connected: !!fb?.pageId,
+      awaitingPageSelection: !!fb && !fb.pageId,
+      pageId: fb?.pageId || null,
+      pageName: fb?.metadata?.pageName || null,
+    },
+    instagram: {
+      connected: !!ig?.instagramAccountId || legacyInstagram,
+      accountId: ig?.instagramAccountId || school.instagramAccountId || null,
+      source: ig ? 'facebook' : (legacyInstagram ? 'school' : 'none'),
+    },
+    linkedin: {
+      connected: !!(li?.accessToken && li?.personUrn),
+      orgUrn: li?.orgUrn || null,
+      orgName: li?.metadata?.selectedPageName || null,
+      expiresAt: li?.tokenExpiresAt || null,
+    },
+    twitter: {
+      connected: !!tw?.accessToken,
+      username: tw?.username || null,
+    },
+  };
+};
+
 // @route   POST /api/schools
 // @desc    Create a new school
-// @access  Private (Admin only)
+// @access  Private (school.manage)
 router.post(
   '/',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('school.manage')],
   [
     body('name').trim().notEmpty().withMessage('School name is required'),
     body('address').trim().notEmpty().withMessage('Address is required'),
@@ -29,7 +134,8 @@ router.post(
         return;
       }
 
-      const school = new School(req.body);
+      const { coins, ...fields } = req.body;
+      const school = new School(fields);
       await school.save();
 
       res.status(201).json({
@@ -45,10 +151,12 @@ router.post(
 
 // @route   GET /api/schools
 // @desc    Get all schools
-// @access  Private
-router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+// @access  Private (school.read)
+router.get('/', [authMiddleware, can('school.read')], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const schools = await School.find().sort({ createdAt: -1 });
+    // School users only get their own school back
+    const filter = permissionScope(req.user!, 'school.read') === 'own_school' ? { _id: req.user!.schoolId } : {};
+    const schools = await School.find(filter).sort({ createdAt: -1 });
     res.json({ schools });
   } catch (error: any) {
     console.error('Get schools error:', error);
@@ -58,8 +166,8 @@ router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise
 
 // @route   GET /api/schools/:id
 // @desc    Get school by ID
-// @access  Private
-router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+// @access  Private (school.read)
+router.get('/:id', [authMiddleware, can('school.read', { schoolParam: 'id' })], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const school = await School.findById(req.params.id);
     if (!school) {
@@ -76,13 +184,17 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
 
 // @route   PUT /api/schools/:id
 // @desc    Update school
-// @access  Private (Admin only)
+// @access  Private (school.manage)
 router.put(
   '/:id',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('school.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const school = await School.findByIdAndUpdate(req.params.id, req.body, {
+      // WordPress credentials go through the dedicated endpoints so they get encrypted;
+      // coins only change through the ledger (purchases, refunds, admin adjustments)
+      const { wordpress, coins, ...updates } = req.body;
+
+      const school = await School.findByIdAndUpdate(req.params.id, updates, {
         new: true,
         runValidators: true,
       });
@@ -103,12 +215,831 @@ router.put(
   }
 );
 
+// @route   GET /api/schools/:id/wordpress
+// @desc    Get a school's WordPress site settings
+// @access  Private (school.manage_settings)
+router.get(
+  '/:id/wordpress',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const school = await School.findById(req.params.id).select('+wordpress.appPassword');
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      res.json({ wordpress: wordpressSettings(school) });
+    } catch (error: any) {
+      console.error('Get school WordPress settings error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/schools/:id/wordpress
+// @desc    Save a school's WordPress site credentials and publish target
+// @access  Private (school.manage_settings)
+router.put(
+  '/:id/wordpress',
+  [
+    authMiddleware,
+    can('school.manage_settings', { schoolParam: 'id' }),
+    body('baseUrl').optional().custom(validWordPressUrl),
+    body('username').optional().trim().notEmpty().withMessage('Username cannot be empty'),
+    body('publishTarget').optional().isIn(['central', 'school', 'both']).withMessage('Invalid publish target'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const school = await School.findById(req.params.id).select('+wordpress.appPassword');
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      const { baseUrl, username, appPassword, publishTarget } = req.body;
+      const current = school.wordpress || {};
+      const credentialsChanged = baseUrl !== undefined || username !== undefined || !!appPassword;
+
+      school.wordpress = {
+        baseUrl: baseUrl !== undefined ? normalizeWordPressUrl(baseUrl) : current.baseUrl,
+        username: username !== undefined ? username : current.username,
+        appPassword: appPassword ? encryptSecret(appPassword) : current.appPassword,
+        verifiedAt: credentialsChanged ? undefined : current.verifiedAt,
+      };
+
+      const target = publishTarget || school.publishTarget;
+      const complete = !!(school.wordpress.baseUrl && school.wordpress.username && school.wordpress.appPassword);
+      if (target !== 'central' && !complete) {
+        res.status(400).json({ message: 'WordPress URL, username and application password are required to publish to the school site' });
+        return;
+      }
+      school.publishTarget = target;
+
+      await school.save();
+
+      res.json({
+        message: 'WordPress settings saved successfully',
+        wordpress: wordpressSettings(school),
+      });
+    } catch (error: any) {
+      console.error('Save school WordPress settings error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/schools/:id/wordpress/test
+// @desc    Test WordPress credentials (from the body, or the stored ones)
+// @access  Private (school.manage_settings)
+router.post(
+  '/:id/wordpress/test',
+  [
+    authMiddleware,
+    can('school.manage_settings', { schoolParam: 'id' }),
+    body('baseUrl').optional({ values: 'falsy' }).custom(validWordPressUrl),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const school = await School.findById(req.params.id).select('+wordpress.appPassword');
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      const { baseUrl, username, appPassword } = req.body;
+      const usingStored = !baseUrl && !username && !appPassword;
+
+      let client: WordPressClient;
+      try {
+        client = usingStored
+          ? createSchoolWordPressClient(school)
+          : new WordPressClient({
+            baseUrl: normalizeWordPressUrl(baseUrl || school.wordpress?.baseUrl || ''),
+            username: username || school.wordpress?.username || '',
+            password: appPassword || '',
+          });
+      } catch (configError: any) {
+        res.status(400).json({ message: configError.message });
+        return;
+      }
+
+      try {
+        const wpUser = await client.testConnection();
+
+        if (usingStored) {
+          school.set('wordpress.verifiedAt', new Date());
+          await school.save();
+        }
+
+        res.json({
+          message: 'WordPress connection successful',
+          connected: true,
+          wordpressUser: wpUser,
+        });
+      } catch (wpError: any) {
+        // The upstream response is only logged; it could be anything the remote host sends back
+        console.error('WordPress connection test failed:', wpError.response?.status, wpError.message);
+        res.status(400).json({
+          message: 'WordPress connection failed. Check the site URL, username and application password.',
+          connected: false,
+        });
+      }
+    } catch (error: any) {
+      console.error('Test school WordPress connection error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/schools/:id/wordpress
+// @desc    Remove a school's WordPress site and publish centrally only
+// @access  Private (school.manage_settings)
+router.delete(
+  '/:id/wordpress',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const school = await School.findByIdAndUpdate(
+        req.params.id,
+        { $unset: { wordpress: 1 }, publishTarget: 'central' },
+        { new: true }
+      );
+
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      res.json({ message: 'WordPress site removed' });
+    } catch (error: any) {
+      console.error('Remove school WordPress settings error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/social
+// @desc    Get a school's connected social accounts and social target
+// @access  Private (school.manage_settings)
+router.get(
+  '/:id/social',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const school = await School.findById(req.params.id);
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      res.json({ social: await socialSettings(school) });
+    } catch (error: any) {
+      console.error('Get school social settings error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/schools/:id/social
+// @desc    Choose where the school's social posts go (central, school or both)
+// @access  Private (school.manage_settings)
+router.put(
+  '/:id/social',
+  [
+    authMiddleware,
+    can('school.manage_settings', { schoolParam: 'id' }),
+    body('socialTarget').isIn(SOCIAL_TARGETS).withMessage('Invalid social target'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const school = await School.findById(req.params.id);
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      const { socialTarget } = req.body;
+      if (socialTarget !== 'central') {
+        const connected = await getConnectedPlatforms(String(school._id));
+        if (connected.length === 0) {
+          res.status(400).json({ message: 'Connect at least one social account before posting to school accounts' });
+          return;
+        }
+      }
+
+      school.socialTarget = socialTarget;
+      await school.save();
+
+      res.json({
+        message: 'Social settings saved successfully',
+        social: await socialSettings(school),
+      });
+    } catch (error: any) {
+      console.error('Save school social settings error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/social/:platform/connect
+// @desc    Get the OAuth URL for connecting a school account (facebook also connects Instagram)
+// @access  Private (school.manage_settings)
+router.get(
+  '/:id/social/:platform/connect',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const school = await School.findById(req.params.id).select('_id');
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      const schoolId = String(school._id);
+      let authUrl: string;
+      switch (req.params.platform) {
+        case 'facebook':
+        case 'instagram':
+          authUrl = await FacebookClient.getAuthUrl(schoolId);
+          break;
+        case 'linkedin':
+          authUrl = await LinkedInClient.getAuthUrl(schoolId);
+          break;
+        case 'twitter':
+          authUrl = await TwitterClient.getAuthUrl(schoolId);
+          break;
+        default:
+          res.status(400).json({ message: 'Invalid platform' });
+          return;
+      }
+
+      res.json({ authUrl });
+    } catch (error: any) {
+      console.error('School social connect error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/social/facebook/pages
+// @desc    List the Facebook pages found when the school connected Facebook
+// @access  Private (school.manage_settings)
+router.get(
+  '/:id/social/facebook/pages',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const pages = await FacebookClient.getManagedPages(req.params.id);
+      res.json({ pages });
+    } catch (error: any) {
+      res.status(400).json({ message: 'Failed to fetch Facebook pages', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/schools/:id/social/facebook/select-page
+// @desc    Select the school's Facebook page (its linked Instagram account comes with it)
+// @access  Private (school.manage_settings)
+router.post(
+  '/:id/social/facebook/select-page',
+  [
+    authMiddleware,
+    can('school.manage_settings', { schoolParam: 'id' }),
+    body('pageId').trim().notEmpty().withMessage('Page ID is required'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const result = await FacebookClient.selectPage(req.params.id, req.body.pageId);
+
+      res.json({
+        message: 'Facebook page selected successfully',
+        pageName: result.pageName,
+        instagramConnected: !!result.instagramAccountId,
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: 'Failed to select Facebook page', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/social/linkedin/pages
+// @desc    List LinkedIn organizations the school's connected user administers
+// @access  Private (school.manage_settings)
+router.get(
+  '/:id/social/linkedin/pages',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const organizations = await LinkedInClient.getManagedOrganizations(req.params.id);
+      res.json({ organizations });
+    } catch (error: any) {
+      res.status(500).json({ message: 'Failed to fetch LinkedIn pages', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/schools/:id/social/linkedin/select-page
+// @desc    Post to a LinkedIn organization instead of the connected profile
+// @access  Private (school.manage_settings)
+router.post(
+  '/:id/social/linkedin/select-page',
+  [
+    authMiddleware,
+    can('school.manage_settings', { schoolParam: 'id' }),
+    body('orgUrn').trim().notEmpty().withMessage('Organization URN is required'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { orgUrn, orgName } = req.body;
+      const token = await SocialToken.findOneAndUpdate(
+        socialTokenFilter('linkedin', req.params.id),
+        { orgUrn, metadata: { selectedPageName: orgName } },
+        { new: true }
+      );
+
+      if (!token) {
+        res.status(400).json({ message: 'School LinkedIn account not connected' });
+        return;
+      }
+
+      res.json({ message: 'LinkedIn page selected successfully' });
+    } catch (error: any) {
+      res.status(500).json({ message: 'Failed to select LinkedIn page', error: error.message });
+    }
+  }
+);
+
+// @route   DELETE /api/schools/:id/social/:platform
+// @desc    Disconnect one of the school's social accounts
+// @access  Private (school.manage_settings)
+router.delete(
+  '/:id/social/:platform',
+  [authMiddleware, can('school.manage_settings', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { platform } = req.params;
+      if (!['facebook', 'instagram', 'linkedin', 'twitter'].includes(platform)) {
+        res.status(400).json({ message: 'Invalid platform' });
+        return;
+      }
+
+      const school = await School.findById(req.params.id);
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      await SocialToken.deleteOne(socialTokenFilter(platform as 'facebook' | 'instagram' | 'linkedin' | 'twitter', req.params.id));
+
+      // The Instagram account is connected through the Facebook page
+      if (platform === 'facebook') {
+        await SocialToken.deleteOne(socialTokenFilter('instagram', req.params.id));
+      }
+      if (platform === 'instagram') {
+        school.instagramAccessToken = undefined;
+        school.instagramAccountId = undefined;
+        school.instagramPageId = undefined;
+        await school.save();
+      }
+
+      // Nothing left to post to on the school side
+      const connected = await getConnectedPlatforms(req.params.id);
+      if (connected.length === 0 && school.socialTarget !== 'central') {
+        school.socialTarget = 'central';
+        await school.save();
+      }
+
+      res.json({
+        message: `${platform} account disconnected`,
+        social: await socialSettings(school),
+      });
+    } catch (error: any) {
+      console.error('Disconnect school social account error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/billing
+// @desc    Get the billing details printed on a school's invoices
+// @access  Private (billing.read)
+router.get(
+  '/:id/billing',
+  [authMiddleware, can('billing.read', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const school = await School.findById(req.params.id);
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      res.json({ billing: billingDetails(school) });
+    } catch (error: any) {
+      console.error('Get school billing details error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/schools/:id/billing
+// @desc    Update a school's billing details (legal name, address, state, GSTIN)
+// @access  Private (billing.manage)
+router.put(
+  '/:id/billing',
+  [
+    authMiddleware,
+    can('billing.manage', { schoolParam: 'id' }),
+    body('billingName').optional().trim(),
+    body('address').optional().trim(),
+    body('city').optional().trim(),
+    body('state').optional().trim(),
+    body('pincode').optional().trim().matches(/^\d{6}$/).withMessage('Pincode must be 6 digits'),
+    body('gstin')
+      .optional({ values: 'falsy' })
+      .trim()
+      .toUpperCase()
+      .matches(GSTIN_PATTERN)
+      .withMessage('Invalid GSTIN'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const school = await School.findById(req.params.id);
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      // Issued invoices keep their own snapshot, so this only affects future ones
+      const { billingName, address, city, state, pincode, gstin } = req.body;
+      if (billingName !== undefined) school.billingName = billingName || undefined;
+      if (address !== undefined) school.address = address;
+      if (city !== undefined) school.city = city;
+      if (state !== undefined) school.state = state;
+      if (pincode !== undefined) school.pincode = pincode;
+      if (gstin !== undefined) school.gstin = gstin || undefined;
+      await school.save();
+
+      res.json({
+        message: 'Billing details saved successfully',
+        billing: billingDetails(school),
+      });
+    } catch (error: any) {
+      console.error('Save school billing details error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/invoices
+// @desc    List a school's invoices
+// @access  Private (billing.read)
+router.get(
+  '/:id/invoices',
+  [authMiddleware, can('billing.read', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const filter = { schoolId: req.params.id };
+
+      const [invoices, total] = await Promise.all([
+        Invoice.find(filter)
+          .sort({ issuedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Invoice.countDocuments(filter),
+      ]);
+
+      res.json({ invoices, total, page, limit });
+    } catch (error: any) {
+      console.error('Get school invoices error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/invoices/:invoiceId
+// @desc    Get one invoice as JSON, or download it with ?format=pdf|html
+// @access  Private (billing.read)
+router.get(
+  '/:id/invoices/:invoiceId',
+  [authMiddleware, can('billing.read', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const invoice = await Invoice.findOne({ _id: req.params.invoiceId, schoolId: req.params.id });
+      if (!invoice) {
+        res.status(404).json({ message: 'Invoice not found' });
+        return;
+      }
+
+      const fileName = `invoice-${invoice.invoiceNumber.replace(/\//g, '-')}`;
+
+      if (req.query.format === 'pdf') {
+        const pdf = await renderInvoicePdf(invoice);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+        res.send(pdf);
+        return;
+      }
+
+      if (req.query.format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `inline; filename="${fileName}.html"`);
+        res.send(renderInvoiceHtml(invoice));
+        return;
+      }
+
+      res.json({ invoice });
+    } catch (error: any) {
+      console.error('Get school invoice error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/wallet
+// @desc    Coin balance, coins held by publishes in progress and what a post costs
+// @access  Private (billing.read)
+router.get(
+  '/:id/wallet',
+  [authMiddleware, can('billing.read', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const school = await School.findById(req.params.id).select('name coins lowBalanceThreshold');
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      const [heldCoins, publish, config, lastTransaction] = await Promise.all([
+        getHeldCoins(req.params.id),
+        getActionPricing('publish', req.params.id),
+        getPricingConfig(),
+        Transaction.findOne({ schoolId: school._id }).sort({ createdAt: -1 }),
+      ]);
+
+      res.json({
+        wallet: {
+          balance: school.coins,
+          heldCoins,
+          publishCost: publish.cost,
+          publishReward: publish.reward,
+          postsAvailable: publish.cost > 0 ? Math.floor(school.coins / publish.cost) : null,
+          lowBalanceThreshold: school.lowBalanceThreshold ?? config.lowBalanceThreshold,
+          lastTransaction,
+        },
+      });
+    } catch (error: any) {
+      console.error('Get school wallet error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/schools/:id/wallet/alerts
+// @desc    Set the coin balance below which the school is alerted (null restores the platform default, 0 turns alerts off)
+// @access  Private (school.manage_settings)
+router.put(
+  '/:id/wallet/alerts',
+  [
+    authMiddleware,
+    can('school.manage_settings', { schoolParam: 'id' }),
+    body('lowBalanceThreshold')
+      .custom(value => value === null || (Number.isInteger(value) && value >= 0))
+      .withMessage('Low balance threshold must be a whole number of coins or null'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { lowBalanceThreshold } = req.body;
+      const school = await School.findByIdAndUpdate(
+        req.params.id,
+        lowBalanceThreshold === null
+          ? { $unset: { lowBalanceThreshold: 1 } }
+          : { $set: { lowBalanceThreshold } },
+        { new: true }
+      );
+
+      if (!school) {
+        res.status(404).json({ message: 'School not found' });
+        return;
+      }
+
+      // The new threshold may put the balance on the other side of it
+      await checkLowBalance(req.params.id);
+      const config = await getPricingConfig();
+
+      res.json({
+        message: 'Alert settings saved successfully',
+        lowBalanceThreshold: school.lowBalanceThreshold ?? config.lowBalanceThreshold,
+        usesDefault: school.lowBalanceThreshold === undefined,
+      });
+    } catch (error: any) {
+      console.error('Save school wallet alerts error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/wallet/transactions
+// @desc    A school's coin history, newest first
+//          Filters: type (comma separated), from, to (YYYY-MM-DD), page, limit
+// @access  Private (billing.read)
+router.get(
+  '/:id/wallet/transactions',
+  [authMiddleware, can('billing.read', { schoolParam: 'id' }), ...walletHistoryValidators],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const filter = walletHistoryFilter(req.params.id, req.query);
+
+      const [transactions, total] = await Promise.all([
+        Transaction.find(filter)
+          .select('-createdBy')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Transaction.countDocuments(filter),
+      ]);
+
+      res.json({ transactions, total, page, limit });
+    } catch (error: any) {
+      console.error('Get school wallet transactions error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/wallet/transactions/export
+// @desc    Download a school's coin history as CSV (same filters as the list, no paging)
+// @access  Private (billing.read)
+router.get(
+  '/:id/wallet/transactions/export',
+  [authMiddleware, can('billing.read', { schoolParam: 'id' }), ...walletHistoryValidators],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const transactions = await Transaction.find(walletHistoryFilter(req.params.id, req.query))
+        .sort({ createdAt: -1 })
+        .lean();
+
+      const csv = toCsv(
+        ['Date', 'Type', 'Coins', 'Balance Before', 'Balance After', 'Amount (INR)', 'Reference', 'Description'],
+        transactions.map(t => [
+          t.createdAt.toISOString(),
+          t.type,
+          isCreditType(t.type) ? t.coins : -t.coins,
+          t.coinsBefore,
+          t.coinsAfter,
+          t.amount,
+          t.referenceId,
+          t.description,
+        ])
+      );
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="coin-history-${req.params.id}.csv"`);
+      res.send(csv);
+    } catch (error: any) {
+      console.error('Export school wallet transactions error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/schools/:id/wallet/summary
+// @desc    Coins bought, spent, earned, refunded, granted by subscription and won through coupons
+//          or referrals per month (?months=12, up to 36)
+// @access  Private (billing.read)
+router.get(
+  '/:id/wallet/summary',
+  [
+    authMiddleware,
+    can('billing.read', { schoolParam: 'id' }),
+    param('id').isMongoId().withMessage('Invalid school id'),
+    query('months').optional().isInt({ min: 1, max: 36 }).withMessage('Months must be between 1 and 36'),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const months = parseInt(req.query.months as string) || 12;
+      const since = new Date();
+      since.setUTCDate(1);
+      since.setUTCHours(0, 0, 0, 0);
+      since.setUTCMonth(since.getUTCMonth() - (months - 1));
+
+      const sumOf = (types: string[]) => ({ $sum: { $cond: [{ $in: ['$type', types] }, '$coins', 0] } });
+
+      const summary = await Transaction.aggregate([
+        { $match: { schoolId: new mongoose.Types.ObjectId(req.params.id), createdAt: { $gte: since } } },
+        {
+          $group: {
+            _id: { $dateToString: { format: '%Y-%m', date: '$createdAt' } },
+            purchased: sumOf(['purchase']),
+            spent: sumOf(['debit']),
+            rewarded: sumOf(['reward']),
+            refunded: sumOf(['refund']),
+            allowance: sumOf(['allowance']),
+            expired: sumOf(['allowance_expiry']),
+            bonus: sumOf(['bonus', 'referral_reward']),
+            adjusted: {
+              $sum: {
+                $switch: {
+                  branches: [
+                    { case: { $eq: ['$type', 'adjustment_credit'] }, then: '$coins' },
+                    { case: { $eq: ['$type', 'adjustment_debit'] }, then: { $multiply: ['$coins', -1] } },
+                  ],
+                  default: 0,
+                },
+              },
+            },
+            net: { $sum: { $cond: [{ $in: ['$type', CREDIT_TYPES] }, '$coins', { $multiply: ['$coins', -1] }] } },
+            transactions: { $sum: 1 },
+          },
+        },
+        { $sort: { _id: -1 } },
+        {
+          $project: {
+            _id: 0, month: '$_id', purchased: 1, spent: 1, rewarded: 1, refunded: 1,
+            allowance: 1, expired: 1, bonus: 1, adjusted: 1, net: 1, transactions: 1,
+          },
+        },
+      ]);
+
+      res.json({ summary });
+    } catch (error: any) {
+      console.error('Get school wallet summary error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
 // @route   DELETE /api/schools/:id
 // @desc    Delete school
-// @access  Private (Admin only)
+// @access  Private (school.manage)
 router.delete(
   '/:id',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('school.manage')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const school = await School.findByIdAndDelete(req.params.id);
@@ -125,4 +1056,108 @@ router.delete(
   }
 );
 
+// @route   GET /api/schools/:id/staff
+// @desc    The school's users with their school roles and permissions
+// @access  Private (school.manage_staff)
+router.get(
+  '/:id/staff',
+  [authMiddleware, can('school.manage_staff', { schoolParam: 'id' })],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const users = await User.find({ schoolId: req.params.id, role: 'school' })
+        .select('name email schoolRole isActive emailVerified createdAt')
+        .sort({ createdAt: 1 });
+
+      res.json({
+        staff: users.map(user => {
+          const schoolRole = user.schoolRole || DEFAULT_SCHOOL_ROLE;
+          return {
+            id: user._id,
+            name: user.name,
+            email: user.email,
+            schoolRole,
+            permissions: permissionsFor({ role: 'school', schoolRole }).map(p => p.permission),
+            isActive: user.isActive,
+            createdAt: user.createdAt,
+          };
+        }),
+      });
+    } catch (error: any) {
+      console.error('Get school staff error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
+// @route   PUT /api/schools/:id/staff/:userId
+// @desc    Change a staff member's school role or deactivate them ({ schoolRole, isActive }).
+//          A school always keeps at least one active school admin.
+// @access  Private (school.manage_staff)
+router.put(
+  '/:id/staff/:userId',
+  [
+    authMiddleware,
+    can('school.manage_staff', { schoolParam: 'id' }),
+    param('userId').isMongoId().withMessage('Invalid user id'),
+    body('schoolRole').optional().isIn(SCHOOL_ROLES).withMessage('Invalid school role'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be true or false').toBoolean(),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const user = await User.findOne({ _id: req.params.userId, schoolId: req.params.id, role: 'school' });
+      if (!user) {
+        res.status(404).json({ message: 'Staff member not found' });
+        return;
+      }
+
+      const { schoolRole, isActive } = req.body;
+      const wasActiveAdmin = user.isActive && (user.schoolRole || DEFAULT_SCHOOL_ROLE) === 'school_admin';
+      const staysActiveAdmin = (isActive ?? user.isActive) && (schoolRole ?? user.schoolRole ?? DEFAULT_SCHOOL_ROLE) === 'school_admin';
+
+      if (wasActiveAdmin && !staysActiveAdmin) {
+        const otherAdmins = await User.countDocuments({
+          _id: { $ne: user._id },
+          schoolId: req.params.id,
+          role: 'school',
+          isActive: true,
+          $or: [{ schoolRole: 'school_admin' }, { schoolRole: { $exists: false } }],
+        });
+        if (otherAdmins === 0) {
+          res.status(409).json({ message: 'The school needs at least one active school admin' });
+          return;
+        }
+      }
+
+      if (schoolRole !== undefined) user.schoolRole = schoolRole;
+      if (isActive !== undefined) user.isActive = isActive;
+      await user.save();
+
+      if (isActive === false) {
+        await invalidateUserTokens(String(user._id));
+      }
+
+      res.json({
+        message: 'Staff member updated successfully',
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          schoolRole: user.schoolRole,
+          permissions: permissionsFor({ role: 'school', schoolRole: user.schoolRole }).map(p => p.permission),
+          isActive: user.isActive,
+        },
+      });
+    } catch (error: any) {
+      console.error('Update school staff error:', error);
+      res.status(500).json({ message: 'Server error', error: error.message });
+    }
+  }
+);
+
 export default router;
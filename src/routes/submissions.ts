@@ -1,17 +1,20 @@
 import { Router, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import Submission from '../models/Submission';
-import { authMiddleware, roleMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import Blog from '../models/Blog';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { hasPermission, permissionScope } from '../utils/permissions';
 import { upload } from '../utils/multerConfig';
+import { submissionStatusFor } from '../utils/blogWorkflow';
 
 const router = Router();
 
 // @route   POST /api/submissions
 // @desc    Create a new submission
-// @access  Private (School role)
+// @access  Private (submission.create)
 router.post(
   '/',
-  [authMiddleware, roleMiddleware('school', 'admin')],
+  [authMiddleware, can('submission.create')],
   upload.array('attachments', 5),
   [
     body('title').trim().notEmpty().withMessage('Title is required'),
@@ -26,13 +29,20 @@ router.post(
         return;
       }
 
-      const { title, description, category, schoolId } = req.body;
+      const { title, description, category } = req.body;
+      const schoolId = req.body.schoolId || req.user?.schoolId;
+
+      if (!hasPermission(req.user!, 'submission.create', { schoolId })) {
+        res.status(403).json({ message: 'Not authorized to submit for this school' });
+        return;
+      }
+
       const files = req.files as Express.Multer.File[];
 
       const attachments = files ? files.map(file => file.path) : [];
 
       const submission = new Submission({
-        schoolId: schoolId || req.user?.schoolId,
+        schoolId,
         title,
         description,
         category,
@@ -55,8 +65,8 @@ router.post(
 
 // @route   GET /api/submissions
 // @desc    Get all submissions
-// @access  Private (Writer, Admin)
-router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+// @access  Private (submission.read)
+router.get('/', [authMiddleware, can('submission.read')], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { status, schoolId } = req.query;
     const filter: any = {};
@@ -64,9 +74,9 @@ router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise
     if (status) filter.status = status;
     if (schoolId) filter.schoolId = schoolId;
 
-    // If user is school role, only show their submissions
-    if (req.user?.role === 'school' && req.user?.schoolId) {
-      filter.schoolId = req.user.schoolId;
+    // If the user may only read their own school's submissions, show just those
+    if (permissionScope(req.user!, 'submission.read') === 'own_school') {
+      filter.schoolId = req.user!.schoolId;
     }
 
     const submissions = await Submission.find(filter)
@@ -83,8 +93,8 @@ router.get('/', authMiddleware, async (req: AuthRequest, res: Response): Promise
 
 // @route   GET /api/submissions/:id
 // @desc    Get submission by ID
-// @access  Private
-router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Promise<void> => {
+// @access  Private (submission.read)
+router.get('/:id', [authMiddleware, can('submission.read')], async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const submission = await Submission.findById(req.params.id)
       .populate('schoolId')
@@ -95,6 +105,12 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
       return;
     }
 
+    // schoolId is populated here, so compare by its id
+    if (!hasPermission(req.user!, 'submission.read', { schoolId: submission.schoolId?._id })) {
+      res.status(403).json({ message: 'Not authorized to view this submission' });
+      return;
+    }
+
     res.json({ submission });
   } catch (error: any) {
     console.error('Get submission error:', error);
@@ -103,18 +119,47 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res: Response): Prom
 });
 
 // @route   PUT /api/submissions/:id
-// @desc    Update submission
-// @access  Private (Writer, Admin)
+// @desc    Update submission. The status follows the submission's blog through the
+//          workflow; a `status` that disagrees with it is rejected.
+// @access  Private (submission.update)
 router.put(
   '/:id',
-  [authMiddleware, roleMiddleware('writer', 'admin')],
+  [
+    authMiddleware,
+    can('submission.update'),
+    body('assignedTo').optional({ values: 'null' }).isMongoId().withMessage('Invalid assignee'),
+  ],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
       const { status, assignedTo } = req.body;
 
+      const existing = await Submission.findById(req.params.id);
+      if (!existing) {
+        res.status(404).json({ message: 'Submission not found' });
+        return;
+      }
+
+      const blog = await Blog.findOne({ submissionId: existing._id }).sort({ createdAt: -1 });
+      const workflowStatus = submissionStatusFor(blog);
+      if (status !== undefined && status !== workflowStatus) {
+        res.status(409).json({
+          message: blog
+            ? `Submission status follows its blog (${blog.status}); change the blog's status instead`
+            : 'Submission status changes once a draft is created for it',
+          status: workflowStatus,
+        });
+        return;
+      }
+
       const submission = await Submission.findByIdAndUpdate(
-        req.params.id,
-        { status, assignedTo },
+        existing._id,
+        { status: workflowStatus, assignedTo },
         { new: true, runValidators: true }
       );
 
@@ -136,10 +181,10 @@ router.put(
 
 // @route   DELETE /api/submissions/:id
 // @desc    Delete submission
-// @access  Private (Admin only)
+// @access  Private (submission.delete)
 router.delete(
   '/:id',
-  [authMiddleware, roleMiddleware('admin')],
+  [authMiddleware, can('submission.delete')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const submission = await Submission.findByIdAndDelete(req.params.id);
@@ -1,20 +1,43 @@
 import { Router, Response } from 'express';
 import Blog from '../models/Blog';
-import Submission from '../models/Submission';
-import Transaction from '../models/Transaction';
 import wordpressClient from '../utils/wordpressClient';
-import { authMiddleware, roleMiddleware, AuthRequest } from '../middleware/authMiddleware';
+import { authMiddleware, can, AuthRequest } from '../middleware/authMiddleware';
+import { Permission, hasPermission } from '../utils/permissions';
+import { getAllowedTransitions } from '../utils/blogWorkflow';
+import { publishBlog, PublishError } from '../utils/publishPipeline';
+import { updatePublishedPost, unpublishPost, republishPost, checkSyncStatus, refreshSyncStatus } from '../utils/wordpressSync';
+import { WorkflowError } from '../utils/blogWorkflow';
 import { upload } from '../utils/multerConfig';
 import fs from 'fs';
 
 const router = Router();
 
+/**
+ * Load a blog the current user holds `permission` on.
+ * Sends the error response and returns null otherwise.
+ */
+const findOwnedBlog = async (req: AuthRequest, res: Response, permission: Permission) => {
+  const blog = await Blog.findById(req.params.id);
+
+  if (!blog) {
+    res.status(404).json({ message: 'Blog not found' });
+    return null;
+  }
+
+  if (!hasPermission(req.user!, permission, { schoolId: blog.assignedSchool })) {
+    res.status(403).json({ message: 'Not authorized to manage this blog' });
+    return null;
+  }
+
+  return blog;
+};
+
 // @route   POST /api/wordpress/publish/:id
 // @desc    Publish blog to WordPress
-// @access  Private (School, Admin, Writer)
+// @access  Private (blog.publish)
 router.post(
   '/publish/:id',
-  [authMiddleware, roleMiddleware('school', 'admin', 'writer')],
+  [authMiddleware, can('blog.publish')],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const blog = await Blog.findById(req.params.id);
@@ -30,144 +53,183 @@ router.post(
         return;
       }
 
-      // Verify school ownership or admin/writer permission
-      if (req.user?.role === 'school' && blog.assignedSchool.toString() !== req.user?.schoolId) {
+      if (!hasPermission(req.user!, 'blog.publish', { schoolId: blog.assignedSchool })) {
         res.status(403).json({ message: 'Not authorized to publish this blog' });
         return;
       }
 
-      // Credit System: Each post costs 99 coins.
-      const School = require('../models/School').default; // Use require if import is not available at top
-      const school = await School.findById(blog.assignedSchool);
+      // Repeat calls for a live post succeed without publishing or charging again
+      if (blog.status === 'published_wp' && blog.wordpressPostId) {
+        res.json({
+          message: 'Blog is already published to WordPress',
+          blog,
+          wordpressUrl: blog.wordpressUrl,
+          alreadyPublished: true,
+        });
+        return;
+      }
 
-      if (!school) {
-        res.status(404).json({ message: 'Assigned school not found' });
+      // Check the workflow allows publishing before charging anything
+      if (!getAllowedTransitions(blog.status, req.user!.role, req.user!.schoolRole).includes('published_wp')) {
+        res.status(400).json({ message: `Cannot publish a blog with status ${blog.status}` });
         return;
       }
 
-      if (school.coins < 99 && req.user?.role !== 'admin') {
-        res.status(403).json({
-          message: 'Insufficient coins. Each post requires 99 coins.',
-          availableCoins: school.coins
+      // Posts taken down earlier go back live without a second charge
+      if (blog.wordpressPostId && blog.status !== 'published_wp') {
+        await republishPost(blog, req.user!);
+        res.json({
+          message: 'Blog republished to WordPress successfully',
+          blog,
+          wordpressUrl: blog.wordpressUrl,
         });
         return;
       }
 
-      // Deduct 99 coins and earn 50 coins (net -49)
-      if (req.user?.role !== 'admin') {
-        const coinsBefore = school.coins;
-        school.coins = coinsBefore - 99 + 50;
-        await school.save();
-
-        // Log Debit Transaction
-        await Transaction.create({
-          schoolId: school._id,
-          type: 'debit',
-          coins: 99,
-          coinsBefore: coinsBefore,
-          coinsAfter: coinsBefore - 99,
-          referenceId: blog._id,
-          description: `Post publishing cost: ${blog.title}`,
-        });
+      const result = await publishBlog(blog, req.user!);
 
-        // Log Reward Transaction
-        await Transaction.create({
-          schoolId: school._id,
-          type: 'reward',
-          coins: 50,
-          coinsBefore: coinsBefore - 99,
-          coinsAfter: school.coins,
-          referenceId: blog._id,
-          description: `Reward for publishing: ${blog.title}`,
-        });
+      res.json({
+        message: result.alreadyPublished
+          ? 'Blog is already published to WordPress'
+          : 'Blog published to WordPress successfully',
+        blog: result.blog,
+        wordpressUrl: result.blog.wordpressUrl,
+        alreadyPublished: result.alreadyPublished,
+      });
+    } catch (error: any) {
+      if (error instanceof PublishError) {
+        res.status(error.status).json({ message: error.message, ...error.details });
+        return;
       }
-
-      let featuredMediaId: number | undefined;
-
-      // Upload featured image if exists
-      if (blog.featuredImage) {
-        try {
-          const isRemote = blog.featuredImage.startsWith('http');
-          if (isRemote || fs.existsSync(blog.featuredImage)) {
-            const mediaResponse = await wordpressClient.uploadMedia({
-              path: blog.featuredImage,
-              originalname: blog.featuredImage.split('/').pop()?.split('?')[0] || 'image.jpg',
-              mimetype: 'image/jpeg',
-            } as Express.Multer.File);
-            featuredMediaId = mediaResponse.id;
-          }
-        } catch (uploadError: any) {
-          console.error('Image upload error:', uploadError);
-          // Continue without featured image if upload fails
-        }
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
       }
+      console.error('Publish to WordPress error:', error);
+      res.status(500).json({ message: 'Failed to publish to WordPress', error: error.message });
+    }
+  }
+);
 
-      // Create tags
-      const tagIds: number[] = [];
-      if (blog.tags && blog.tags.length > 0) {
-        try {
-          const existingTags = await wordpressClient.getTags();
-          for (const tagName of blog.tags) {
-            const existingTag = existingTags.find(
-              (t: any) => t.name.toLowerCase() === tagName.toLowerCase()
-            );
-            if (existingTag) {
-              tagIds.push(existingTag.id);
-            } else {
-              const newTag = await wordpressClient.createTag(tagName);
-              tagIds.push(newTag.id);
-            }
-          }
-        } catch (tagError: any) {
-          console.error('Tag creation error:', tagError);
-        }
+// @route   PUT /api/wordpress/update/:id
+// @desc    Push local changes of a published blog to WordPress
+// @access  Private (blog.publish)
+router.put(
+  '/update/:id',
+  [authMiddleware, can('blog.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const blog = await findOwnedBlog(req, res, 'blog.publish');
+      if (!blog) return;
+
+      if (blog.status !== 'published_wp' || !blog.wordpressPostId) {
+        res.status(400).json({ message: 'Only published blogs can be updated on WordPress' });
+        return;
       }
 
-      // Publish to WordPress
-      const wpPost = await wordpressClient.createPost({
-        title: blog.title,
-        slug: blog.slug,
-        content: blog.content,
-        excerpt: blog.metaDescription,
-        status: 'publish',
-        featured_media: featuredMediaId,
-        meta: {
-          _yoast_wpseo_title: blog.metaTitle,
-          _yoast_wpseo_metadesc: blog.metaDescription,
-        },
-        tags: tagIds,
+      await updatePublishedPost(blog);
+
+      res.json({
+        message: 'WordPress post updated successfully',
+        blog,
+        wordpressUrl: blog.wordpressUrl,
       });
+    } catch (error: any) {
+      console.error('Update WordPress post error:', error);
+      res.status(500).json({ message: 'Failed to update WordPress post', error: error.message });
+    }
+  }
+);
 
-      // Update blog with WordPress info
-      blog.wordpressPostId = wpPost.id;
-      blog.wordpressUrl = wpPost.link;
-      blog.status = 'published_wp';
-      blog.publishedAt = new Date();
-      await blog.save();
+// @route   POST /api/wordpress/unpublish/:id
+// @desc    Move a published post to draft or trash on WordPress
+// @access  Private (blog.publish)
+router.post(
+  '/unpublish/:id',
+  [authMiddleware, can('blog.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { mode = 'draft', reason } = req.body;
 
-      // Update submission status
-      await Submission.findByIdAndUpdate(blog.submissionId, {
-        status: 'published_wp',
-      });
+      if (!['draft', 'trash'].includes(mode)) {
+        res.status(400).json({ message: 'Mode must be draft or trash' });
+        return;
+      }
+
+      const blog = await findOwnedBlog(req, res, 'blog.publish');
+      if (!blog) return;
+
+      if (blog.status !== 'published_wp' || !blog.wordpressPostId) {
+        res.status(400).json({ message: 'Blog is not published' });
+        return;
+      }
+
+      await unpublishPost(blog, mode, req.user!, reason);
 
       res.json({
-        message: 'Blog published to WordPress successfully',
+        message: mode === 'trash' ? 'WordPress post moved to trash' : 'WordPress post moved to draft',
         blog,
-        wordpressUrl: wpPost.link,
       });
     } catch (error: any) {
-      console.error('Publish to WordPress error:', error);
-      res.status(500).json({ message: 'Failed to publish to WordPress', error: error.message });
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+        return;
+      }
+      console.error('Unpublish WordPress post error:', error);
+      res.status(500).json({ message: 'Failed to unpublish WordPress post', error: error.message });
+    }
+  }
+);
+
+// @route   GET /api/wordpress/sync-status/:id
+// @desc    Check whether a blog has drifted from its WordPress post. Read-only; the stored
+//          syncStatus only changes on update, unpublish, republish or a refresh.
+// @access  Private (blog.read)
+router.get(
+  '/sync-status/:id',
+  [authMiddleware, can('blog.read')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const blog = await findOwnedBlog(req, res, 'blog.read');
+      if (!blog) return;
+
+      const sync = await checkSyncStatus(blog);
+
+      res.json({ sync });
+    } catch (error: any) {
+      console.error('WordPress sync status error:', error);
+      res.status(500).json({ message: 'Failed to check sync status', error: error.message });
+    }
+  }
+);
+
+// @route   POST /api/wordpress/sync-status/:id/refresh
+// @desc    Check a blog against its WordPress post and store the result as its syncStatus
+// @access  Private (blog.publish)
+router.post(
+  '/sync-status/:id/refresh',
+  [authMiddleware, can('blog.publish')],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const blog = await findOwnedBlog(req, res, 'blog.publish');
+      if (!blog) return;
+
+      const sync = await refreshSyncStatus(blog);
+
+      res.json({ sync });
+    } catch (error: any) {
+      console.error('WordPress sync status refresh error:', error);
+      res.status(500).json({ message: 'Failed to refresh sync status', error: error.message });
     }
   }
 );
 
 // @route   POST /api/wordpress/upload-media
 // @desc    Upload media to WordPress
-// @access  Private
+// @access  Private (media.upload)
 router.post(
   '/upload-media',
-  authMiddleware,
+  [authMiddleware, can('media.upload')],
   upload.single('file'),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
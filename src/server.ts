@@ -17,6 +17,10 @@ import aiRoutes from './routes/ai';
 import wordpressRoutes from './routes/wordpress';
 import adminRoutes from './routes/admin';
 import paymentRoutes from './routes/payment';
+import commentRoutes from './routes/comments';
+import notificationRoutes from './routes/notifications';
+import invitationRoutes from './routes/invitations';
+import SocialToken from './models/SocialToken';
 
 // Initialize Express app
 const app: Application = express();
@@ -48,7 +52,12 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept'],
 }));
 
-app.use(express.json()); // Parse JSON bodies
+// Parse JSON bodies, keeping the raw bytes for webhook signature checks
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request & { rawBody?: Buffer }).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Serve uploads directory
@@ -60,6 +69,9 @@ const connectDB = async (): Promise<void> => {
     const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/dreamable';
     await mongoose.connect(mongoURI);
     console.log('✅ MongoDB connected successfully');
+
+    // Social tokens used to be unique per platform; drop that index so schools can hold their own
+    await SocialToken.syncIndexes();
   } catch (error: any) {
     console.error('❌ MongoDB connection error:', error.message);
     process.exit(1);
@@ -88,6 +100,9 @@ const routes = [
   { path: '/wordpress', handler: wordpressRoutes },
   { path: '/admin', handler: adminRoutes },
   { path: '/payment', handler: paymentRoutes },
+  { path: '/comments', handler: commentRoutes },
+  { path: '/notifications', handler: notificationRoutes },
+  { path: '/invitations', handler: invitationRoutes },
 ];
 
 routes.forEach(route => {
@@ -111,6 +126,10 @@ app.use((err: any, req: Request, res: Response, next: any) => {
 
 // Import token refresh service
 import tokenRefreshService from './utils/tokenRefreshService';
+import socialSchedulerService from './utils/socialScheduler';
+import ledgerReconciliationService from './utils/ledgerReconciliationService';
+import blockedSchoolsDigestService from './utils/blockedSchoolsDigestService';
+import subscriptionAllowanceService from './utils/subscriptionAllowanceService';
 
 // Start server
 const PORT = process.env.PORT || 5000;
@@ -122,6 +141,18 @@ app.listen(PORT, () => {
 
   // Start cron-based token refresh service
   tokenRefreshService.start();
+
+  // Start scheduled social post worker
+  socialSchedulerService.start();
+
+  // Start daily coin balance vs ledger check
+  ledgerReconciliationService.start();
+
+  // Start daily digest of schools blocked from publishing
+  blockedSchoolsDigestService.start();
+
+  // Start hourly subscription allowance grants
+  subscriptionAllowanceService.start();
 });
 
 export default app;
@@ -4,6 +4,8 @@ declare namespace NodeJS {
     NODE_ENV?: string;
     MONGODB_URI: string;
     JWT_SECRET: string;
+    ACCESS_TOKEN_TTL_MINUTES?: string;
+    REFRESH_TOKEN_TTL_DAYS?: string;
     WP_BASE_URL: string;
     WP_USER: string;
     WP_APP_PASS: string;
@@ -17,5 +19,28 @@ declare namespace NodeJS {
     UPLOAD_DIR?: string;
     RAZORPAY_KEY_ID: string;
     RAZORPAY_KEY_SECRET: string;
+    RAZORPAY_WEBHOOK_SECRET?: string;
+    CREDENTIALS_ENCRYPTION_KEY?: string;
+    TWITTER_CLIENT_ID?: string;
+    TWITTER_CLIENT_SECRET?: string;
+    TWITTER_REDIRECT_URI?: string;
+    TWITTER_API_URL?: string;
+    TWITTER_AUTH_URL?: string;
+    META_REDIRECT_URI?: string;
+    FRONTEND_URL?: string;
+    MAIL_TRANSPORT?: 'smtp' | 'log';
+    SMTP_HOST?: string;
+    SMTP_PORT?: string;
+    SMTP_SECURE?: string;
+    SMTP_IGNORE_TLS?: string;
+    SMTP_USER?: string;
+    SMTP_PASS?: string;
+    MAIL_FROM?: string;
+    INVOICE_PREFIX?: string;
+    INVOICE_SELLER_NAME?: string;
+    INVOICE_SELLER_ADDRESS?: string;
+    INVOICE_SELLER_STATE?: string;
+    INVOICE_SELLER_GSTIN?: string;
+    INVOICE_SELLER_EMAIL?: string;
   }
 }
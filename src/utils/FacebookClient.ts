@@ -1,22 +1,35 @@
 import axios from 'axios';
+import crypto from 'crypto';
 import SocialToken from '../models/SocialToken';
+import OAuthState from '../models/OAuthState';
+import { PlatformError, isRetryable } from './platformError';
+import { socialTokenFilter } from './socialAccounts';
 
 class FacebookClient {
     private readonly baseUrl = 'https://graph.facebook.com/v21.0';
+    private readonly dialogUrl = 'https://www.facebook.com/v21.0/dialog/oauth';
+    private readonly appId = process.env.META_APP_ID;
+    private readonly appSecret = process.env.META_APP_SECRET;
+    private readonly redirectUri = process.env.META_REDIRECT_URI;
 
     /**
      * Get the stored Facebook token + page ID from DB,
      * falling back to env vars if not yet stored in DB.
      * Auto-exchanges User tokens for Page tokens at runtime.
+     * Pass a schoolId to use that school's page instead of the central one.
      */
-    private async getCredentials(): Promise<{ accessToken: string; pageId: string }> {
-        const tokenDoc = await SocialToken.findOne({ platform: 'facebook' });
+    private async getCredentials(schoolId?: string): Promise<{ accessToken: string; pageId: string }> {
+        const tokenDoc = await SocialToken.findOne(socialTokenFilter('facebook', schoolId));
 
-        let accessToken = (tokenDoc?.accessToken || process.env.META_ACCESS_TOKEN || '').trim();
-        const pageId = (tokenDoc?.pageId || process.env.META_PAGE_ID || '').trim();
+        // The env fallback only applies to the central SchoolChamps page
+        let accessToken = (tokenDoc?.accessToken || (schoolId ? '' : process.env.META_ACCESS_TOKEN) || '').trim();
+        const pageId = (tokenDoc?.pageId || (schoolId ? '' : process.env.META_PAGE_ID) || '').trim();
 
         if (!accessToken || !pageId) {
-            throw new Error('Facebook credentials missing. Set META_ACCESS_TOKEN and META_PAGE_ID, or store them via the admin setup.');
+            const message = schoolId
+                ? 'School Facebook page not connected. Connect it from the school social settings.'
+                : 'Facebook credentials missing. Set META_ACCESS_TOKEN and META_PAGE_ID, or store them via the admin setup.';
+            throw new PlatformError(message, undefined, false);
         }
 
         // Auto-exchange: check if this is a User token and swap for Page token
@@ -36,7 +49,7 @@ class FacebookClient {
                     accessToken = pageToken;
                     // Save the Page token to DB so next time it's used directly
                     await SocialToken.findOneAndUpdate(
-                        { platform: 'facebook' },
+                        socialTokenFilter('facebook', schoolId),
                         { accessToken: pageToken, pageId },
                         { upsert: true }
                     );
@@ -54,8 +67,8 @@ class FacebookClient {
      * Uses /{page_id}/photos with a publicly accessible image URL.
      * Returns the post ID.
      */
-    async postToPageFeed(message: string, imageUrl?: string): Promise<string> {
-        const { accessToken, pageId } = await this.getCredentials();
+    async postToPageFeed(message: string, imageUrl?: string, schoolId?: string): Promise<string> {
+        const { accessToken, pageId } = await this.getCredentials(schoolId);
 
         console.log(`📤 Posting to Facebook page ${pageId} (token type will be PAGE after auto-exchange)`);
 
@@ -94,7 +107,11 @@ class FacebookClient {
             }
         } catch (error: any) {
             console.error('❌ Facebook post failed:', error.response?.data || error.message);
-            throw new Error(`Facebook publish failed: ${error.response?.data?.error?.message || error.message}`);
+            throw new PlatformError(
+                `Facebook publish failed: ${error.response?.data?.error?.message || error.message}`,
+                error.response?.data,
+                isRetryable(error)
+            );
         }
     }
 
@@ -102,9 +119,9 @@ class FacebookClient {
      * Validate that the stored/env token is still valid.
      * Returns true if token works, false otherwise.
      */
-    async validateToken(): Promise<boolean> {
+    async validateToken(schoolId?: string): Promise<boolean> {
         try {
-            const { accessToken } = await this.getCredentials();
+            const { accessToken } = await this.getCredentials(schoolId);
             const response = await axios.get(`${this.baseUrl}/me`, {
                 params: { access_token: accessToken },
             });
@@ -117,7 +134,7 @@ class FacebookClient {
     /**
      * Save credentials with auto User→Page token exchange.
      */
-    async saveCredentials(userOrPageToken: string, pageId: string): Promise<void> {
+    async saveCredentials(userOrPageToken: string, pageId: string, schoolId?: string): Promise<void> {
         let pageAccessToken = userOrPageToken.trim();
         const trimmedPageId = pageId.trim();
 
@@ -139,7 +156,7 @@ class FacebookClient {
         }
 
         await SocialToken.findOneAndUpdate(
-            { platform: 'facebook' },
+            socialTokenFilter('facebook', schoolId),
             {
                 platform: 'facebook',
                 accessToken: pageAccessToken,
@@ -150,6 +167,181 @@ class FacebookClient {
         );
         console.log('✅ Facebook credentials saved to DB');
     }
+
+    /**
+     * Generate the Facebook Login URL a school uses to connect its page
+     * (and the Instagram business account linked to it).
+     */
+    async getAuthUrl(schoolId: string): Promise<string> {
+        if (!this.appId || !this.redirectUri) {
+            throw new Error('META_APP_ID and META_REDIRECT_URI must be set in .env');
+        }
+
+        const state = crypto.randomBytes(16).toString('hex');
+        await OAuthState.create({
+            platform: 'facebook',
+            state,
+            metadata: { schoolId },
+            expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+        });
+
+        const scopes = 'pages_show_list,pages_read_engagement,pages_manage_posts,instagram_basic,instagram_content_publish,business_management';
+        const params = new URLSearchParams({
+            client_id: this.appId,
+            redirect_uri: this.redirectUri,
+            state,
+            scope: scopes,
+            response_type: 'code',
+        });
+
+        return `${this.dialogUrl}?${params.toString()}`;
+    }
+
+    /**
+     * Exchange the authorization code for a long-lived user token and store
+     * it with the list of pages the user manages. The school then picks one
+     * with selectPage. Returns the school the connection belongs to.
+     */
+    async exchangeCodeForTokens(code: string, state: string): Promise<string> {
+        const pending = await OAuthState.findOneAndDelete({ platform: 'facebook', state });
+        const schoolId = pending?.metadata?.schoolId;
+        if (!pending || !schoolId || pending.expiresAt.getTime() < Date.now()) {
+            throw new Error('Facebook OAuth state is invalid or expired. Start the connection again.');
+        }
+
+        try {
+            const shortLived = await axios.get(`${this.baseUrl}/oauth/access_token`, {
+                params: {
+                    client_id: this.appId,
+                    client_secret: this.appSecret,
+                    redirect_uri: this.redirectUri,
+                    code,
+                },
+            });
+
+            const longLived = await axios.get(`${this.baseUrl}/oauth/access_token`, {
+                params: {
+                    grant_type: 'fb_exchange_token',
+                    client_id: this.appId,
+                    client_secret: this.appSecret,
+                    fb_exchange_token: shortLived.data.access_token,
+                },
+            });
+
+            const userToken = longLived.data.access_token;
+            const pages = await this.fetchManagedPages(userToken);
+
+            await SocialToken.findOneAndUpdate(
+                socialTokenFilter('facebook', schoolId),
+                {
+                    platform: 'facebook',
+                    schoolId,
+                    accessToken: userToken,
+                    tokenExpiresAt: longLived.data.expires_in
+                        ? new Date(Date.now() + longLived.data.expires_in * 1000)
+                        : undefined,
+                    $unset: { pageId: 1 },
+                    metadata: { pages },
+                },
+                { upsert: true, new: true }
+            );
+
+            console.log(`✅ Facebook connected for school ${schoolId}. Pages found: ${pages.length}`);
+            return schoolId;
+        } catch (error: any) {
+            console.error('❌ Facebook token exchange failed:', error.response?.data || error.message);
+            throw new Error(`Facebook OAuth failed: ${error.response?.data?.error?.message || error.message}`);
+        }
+    }
+
+    /**
+     * Pages the token's user manages, with any linked Instagram business account.
+     */
+    private async fetchManagedPages(userToken: string): Promise<Array<{ id: string; name: string; instagramAccountId?: string }>> {
+        const response = await axios.get(`${this.baseUrl}/me/accounts`, {
+            params: {
+                fields: 'id,name,instagram_business_account',
+                access_token: userToken,
+            },
+        });
+
+        return (response.data.data || []).map((page: any) => ({
+            id: page.id,
+            name: page.name,
+            instagramAccountId: page.instagram_business_account?.id,
+        }));
+    }
+
+    /**
+     * Pages found when the school connected Facebook.
+     */
+    async getManagedPages(schoolId: string): Promise<Array<{ id: string; name: string; instagramAccountId?: string }>> {
+        const tokenDoc = await SocialToken.findOne(socialTokenFilter('facebook', schoolId));
+        if (!tokenDoc) {
+            throw new Error('School Facebook account not connected');
+        }
+        return tokenDoc.metadata?.pages || [];
+    }
+
+    /**
+     * Point a school's connection at one of its pages. The user token is
+     * swapped for that page's token, and the page's Instagram business
+     * account (if any) is stored as the school's Instagram account.
+     */
+    async selectPage(schoolId: string, pageId: string): Promise<{ pageName: string; instagramAccountId?: string }> {
+        const tokenDoc = await SocialToken.findOne(socialTokenFilter('facebook', schoolId));
+        if (!tokenDoc) {
+            throw new Error('School Facebook account not connected');
+        }
+
+        const page = (tokenDoc.metadata?.pages || []).find((p: any) => p.id === pageId);
+        if (!page) {
+            throw new Error('Page not found among the pages this account manages');
+        }
+
+        if (tokenDoc.pageId) {
+            throw new Error('A page is already selected. Reconnect Facebook to choose a different page.');
+        }
+
+        let pageToken: string;
+        try {
+            const pageResp = await axios.get(`${this.baseUrl}/${pageId}`, {
+                params: {
+                    fields: 'access_token',
+                    access_token: tokenDoc.accessToken,
+                },
+            });
+            pageToken = pageResp.data.access_token;
+        } catch (error: any) {
+            throw new Error(`Could not get a token for this page: ${error.response?.data?.error?.message || error.message}`);
+        }
+
+        tokenDoc.accessToken = pageToken;
+        tokenDoc.pageId = pageId;
+        tokenDoc.tokenExpiresAt = undefined; // Page tokens from a long-lived user token don't expire
+        tokenDoc.metadata = { ...tokenDoc.metadata, pageName: page.name };
+        tokenDoc.markModified('metadata');
+        await tokenDoc.save();
+
+        if (page.instagramAccountId) {
+            await SocialToken.findOneAndUpdate(
+                socialTokenFilter('instagram', schoolId),
+                {
+                    platform: 'instagram',
+                    schoolId,
+                    accessToken: pageToken,
+                    pageId,
+                    instagramAccountId: page.instagramAccountId,
+                },
+                { upsert: true, new: true }
+            );
+        } else {
+            await SocialToken.deleteOne(socialTokenFilter('instagram', schoolId));
+        }
+
+        console.log(`✅ School ${schoolId} Facebook page selected: ${page.name}`);
+        return { pageName: page.name, instagramAccountId: page.instagramAccountId };
+    }
 }
 
 export default new FacebookClient();
@@ -1,4 +1,8 @@
 import axios from 'axios';
+import SocialToken from '../models/SocialToken';
+import School from '../models/School';
+import { PlatformError, isRetryable } from './platformError';
+import { socialTokenFilter } from './socialAccounts';
 
 class InstagramClient {
     private readonly baseUrl = 'https://graph.facebook.com/v18.0';
@@ -7,6 +11,29 @@ class InstagramClient {
     private readonly globalAccessToken = process.env.META_ACCESS_TOKEN;
     private readonly globalInstagramAccountId = process.env.META_INSTAGRAM_ACCOUNT_ID;
 
+    /**
+     * Instagram account + token for a school's own account.
+     * Prefers the account connected via Facebook Login, then the
+     * details stored directly on the school.
+     */
+    async getSchoolCredentials(schoolId: string): Promise<{ instagramAccountId: string; accessToken: string }> {
+        const tokenDoc = await SocialToken.findOne(socialTokenFilter('instagram', schoolId));
+        if (tokenDoc?.instagramAccountId && tokenDoc.accessToken) {
+            return { instagramAccountId: tokenDoc.instagramAccountId, accessToken: tokenDoc.accessToken };
+        }
+
+        const school = await School.findById(schoolId).select('instagramAccessToken instagramAccountId');
+        if (school?.instagramAccountId && school.instagramAccessToken) {
+            return { instagramAccountId: school.instagramAccountId, accessToken: school.instagramAccessToken };
+        }
+
+        throw new PlatformError(
+            'School Instagram account not connected. Connect a Facebook page with a linked Instagram business account.',
+            undefined,
+            false
+        );
+    }
+
     /**
      * Step 1: Create a media container
      */
@@ -16,7 +43,7 @@ class InstagramClient {
             const targetToken = accessToken || this.globalAccessToken;
 
             if (!targetAccountId || !targetToken) {
-                throw new Error('Instagram credentials missing (Account ID or Access Token)');
+                throw new PlatformError('Instagram credentials missing (Account ID or Access Token)', undefined, false);
             }
 
             const response = await axios.post(`${this.baseUrl}/${targetAccountId}/media`, null, {
@@ -29,7 +56,11 @@ class InstagramClient {
             return response.data.id; // creation_id
         } catch (error: any) {
             console.error('Error creating media container:', error.response?.data || error.message);
-            throw new Error(`Instagram Media Container failed: ${error.response?.data?.error?.message || error.message}`);
+            throw new PlatformError(
+                `Instagram Media Container failed: ${error.response?.data?.error?.message || error.message}`,
+                error.response?.data,
+                isRetryable(error)
+            );
         }
     }
 
@@ -42,7 +73,7 @@ class InstagramClient {
             const targetToken = accessToken || this.globalAccessToken;
 
             if (!targetAccountId || !targetToken) {
-                throw new Error('Instagram credentials missing (Account ID or Access Token)');
+                throw new PlatformError('Instagram credentials missing (Account ID or Access Token)', undefined, false);
             }
 
             const response = await axios.post(`${this.baseUrl}/${targetAccountId}/media_publish`, null, {
@@ -54,7 +85,11 @@ class InstagramClient {
             return response.data.id; // post_id
         } catch (error: any) {
             console.error('Error publishing media:', error.response?.data || error.message);
-            throw new Error(`Instagram Publish failed: ${error.response?.data?.error?.message || error.message}`);
+            throw new PlatformError(
+                `Instagram Publish failed: ${error.response?.data?.error?.message || error.message}`,
+                error.response?.data,
+                isRetryable(error)
+            );
         }
     }
 
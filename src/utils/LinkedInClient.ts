@@ -1,5 +1,9 @@
 import axios from 'axios';
+import crypto from 'crypto';
 import SocialToken from '../models/SocialToken';
+import OAuthState from '../models/OAuthState';
+import { PlatformError, isRetryable } from './platformError';
+import { socialTokenFilter } from './socialAccounts';
 
 class LinkedInClient {
     private readonly apiUrl = 'https://api.linkedin.com';
@@ -10,12 +14,16 @@ class LinkedInClient {
 
     /**
      * Get stored LinkedIn credentials from DB.
+     * Pass a schoolId to use that school's account instead of the central one.
      */
-    private async getCredentials(): Promise<{ accessToken: string; personUrn: string; orgUrn?: string }> {
-        const tokenDoc = await SocialToken.findOne({ platform: 'linkedin' });
+    private async getCredentials(schoolId?: string): Promise<{ accessToken: string; personUrn: string; orgUrn?: string }> {
+        const tokenDoc = await SocialToken.findOne(socialTokenFilter('linkedin', schoolId));
 
         if (!tokenDoc?.accessToken || !tokenDoc?.personUrn) {
-            throw new Error('LinkedIn credentials not configured. Complete the OAuth setup first via /api/ai/linkedin/auth');
+            const message = schoolId
+                ? 'School LinkedIn account not connected. Connect it from the school social settings.'
+                : 'LinkedIn credentials not configured. Complete the OAuth setup first via /api/ai/linkedin/auth';
+            throw new PlatformError(message, undefined, false);
         }
 
         return {
@@ -28,21 +36,37 @@ class LinkedInClient {
     /**
      * Generate the OAuth authorization URL for initial setup.
      * Includes organization scopes for page management.
+     * The state records which school (if any) is connecting.
      */
-    getAuthUrl(): string {
+    async getAuthUrl(schoolId?: string): Promise<string> {
         if (!this.clientId || !this.redirectUri) {
             throw new Error('LINKEDIN_CLIENT_ID and LINKEDIN_REDIRECT_URI must be set in .env');
         }
 
+        const state = crypto.randomBytes(16).toString('hex');
+        await OAuthState.create({
+            platform: 'linkedin',
+            state,
+            metadata: { schoolId },
+            expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+        });
+
         // Updated scopes to include organization posting
         const scopes = 'openid profile w_member_social w_organization_social rw_organization_admin';
-        return `${this.oauthUrl}/authorization?response_type=code&client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&scope=${encodeURIComponent(scopes)}`;
+        return `${this.oauthUrl}/authorization?response_type=code&client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&scope=${encodeURIComponent(scopes)}&state=${state}`;
     }
 
     /**
      * Exchange authorization code for access + refresh tokens.
+     * Returns the school the connection belongs to, if any.
      */
-    async exchangeCodeForTokens(code: string): Promise<void> {
+    async exchangeCodeForTokens(code: string, state: string): Promise<string | undefined> {
+        const pending = await OAuthState.findOneAndDelete({ platform: 'linkedin', state });
+        if (!pending || pending.expiresAt.getTime() < Date.now()) {
+            throw new Error('LinkedIn OAuth state is invalid or expired. Start the connection again.');
+        }
+        const schoolId: string | undefined = pending.metadata?.schoolId;
+
         try {
             const response = await axios.post(`${this.oauthUrl}/accessToken`, null, {
                 params: {
@@ -65,9 +89,10 @@ class LinkedInClient {
             const personUrn = `urn:li:person:${profileResponse.data.sub}`;
 
             await SocialToken.findOneAndUpdate(
-                { platform: 'linkedin' },
+                socialTokenFilter('linkedin', schoolId),
                 {
                     platform: 'linkedin',
+                    schoolId: schoolId || null,
                     accessToken: access_token,
                     refreshToken: refresh_token || undefined,
                     tokenExpiresAt: new Date(Date.now() + expires_in * 1000),
@@ -77,6 +102,7 @@ class LinkedInClient {
             );
 
             console.log('✅ LinkedIn OAuth tokens saved. Person URN:', personUrn);
+            return schoolId;
         } catch (error: any) {
             console.error('❌ LinkedIn token exchange failed:', error.response?.data || error.message);
             throw new Error(`LinkedIn OAuth failed: ${error.response?.data?.error_description || error.message}`);
@@ -86,8 +112,8 @@ class LinkedInClient {
     /**
      * Fetch organizations where the authenticated user is an administrator.
      */
-    async getManagedOrganizations(): Promise<any[]> {
-        const { accessToken } = await this.getCredentials();
+    async getManagedOrganizations(schoolId?: string): Promise<any[]> {
+        const { accessToken } = await this.getCredentials(schoolId);
 
         try {
             // Step 1: Get organizational access control elements
@@ -136,9 +162,9 @@ class LinkedInClient {
     /**
      * Refresh the access token using the stored refresh token.
      */
-    async refreshAccessToken(): Promise<boolean> {
+    async refreshAccessToken(schoolId?: string): Promise<boolean> {
         try {
-            const tokenDoc = await SocialToken.findOne({ platform: 'linkedin' });
+            const tokenDoc = await SocialToken.findOne(socialTokenFilter('linkedin', schoolId));
 
             if (!tokenDoc?.refreshToken) {
                 console.warn('⚠️ No LinkedIn refresh token available. Re-authorization needed.');
@@ -214,8 +240,8 @@ class LinkedInClient {
      * Create a post on LinkedIn with optional image.
      * Posts to organization if orgUrn is available, otherwise falls back to personUrn.
      */
-    async createPost(text: string, imageUrl?: string): Promise<string> {
-        const { accessToken, personUrn, orgUrn } = await this.getCredentials();
+    async createPost(text: string, imageUrl?: string, schoolId?: string): Promise<string> {
+        const { accessToken, personUrn, orgUrn } = await this.getCredentials(schoolId);
         const targetAuthor = orgUrn || personUrn;
 
         try {
@@ -255,16 +281,20 @@ class LinkedInClient {
             return postUrn;
         } catch (error: any) {
             console.error('❌ LinkedIn post failed:', error.response?.data || error.message);
-            throw new Error(`LinkedIn publish failed: ${error.response?.data?.message || error.message}`);
+            throw new PlatformError(
+                `LinkedIn publish failed: ${error.response?.data?.message || error.message}`,
+                error.response?.data,
+                isRetryable(error)
+            );
         }
     }
 
     /**
      * Check if the current token is still valid.
      */
-    async validateToken(): Promise<boolean> {
+    async validateToken(schoolId?: string): Promise<boolean> {
         try {
-            const { accessToken } = await this.getCredentials();
+            const { accessToken } = await this.getCredentials(schoolId);
             const response = await axios.get(`${this.apiUrl}/v2/userinfo`, {
                 headers: { Authorization: `Bearer ${accessToken}` },
             });
@@ -0,0 +1,305 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import FormData from 'form-data';
+import SocialToken from '../models/SocialToken';
+import OAuthState from '../models/OAuthState';
+import { PlatformError, isRetryable } from './platformError';
+import { socialTokenFilter } from './socialAccounts';
+
+export const TWEET_MAX_LENGTH = 280;
+
+// Characters in these code point ranges count once; everything else
+// (CJK, emoji, ...) counts twice, matching twitter-text's default config.
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+    [0, 4351],
+    [8192, 8205],
+    [8208, 8223],
+    [8242, 8247],
+];
+
+// Every link is shortened to a t.co URL of this length
+const URL_LENGTH = 23;
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+/**
+ * Length of a tweet as Twitter/X counts it.
+ */
+export const countTweetLength = (text: string): number => {
+    let length = 0;
+
+    const withoutUrls = text.replace(URL_PATTERN, () => {
+        length += URL_LENGTH;
+        return '';
+    });
+
+    for (const char of withoutUrls) {
+        const codePoint = char.codePointAt(0)!;
+        const single = SINGLE_WEIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end);
+        length += single ? 1 : 2;
+    }
+
+    return length;
+};
+
+const base64Url = (buffer: Buffer): string =>
+    buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+class TwitterClient {
+    // Overridable so the client can run against a local mock server
+    private readonly apiUrl = process.env.TWITTER_API_URL || 'https://api.x.com';
+    private readonly authUrl = process.env.TWITTER_AUTH_URL || 'https://x.com/i/oauth2/authorize';
+    private readonly clientId = process.env.TWITTER_CLIENT_ID;
+    private readonly clientSecret = process.env.TWITTER_CLIENT_SECRET;
+    private readonly redirectUri = process.env.TWITTER_REDIRECT_URI;
+    private readonly scopes = 'tweet.read tweet.write users.read media.write offline.access';
+
+    /**
+     * Confidential clients authenticate token requests with Basic auth;
+     * public clients send only the client_id.
+     */
+    private tokenRequestConfig() {
+        return {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            auth: this.clientSecret
+                ? { username: this.clientId || '', password: this.clientSecret }
+                : undefined,
+        };
+    }
+
+    /**
+     * Get stored Twitter credentials, refreshing the access token first if
+     * it is about to expire (Twitter access tokens only last two hours).
+     * Pass a schoolId to use that school's account instead of the central one.
+     */
+    private async getCredentials(schoolId?: string): Promise<{ accessToken: string; userId?: string }> {
+        let tokenDoc = await SocialToken.findOne(socialTokenFilter('twitter', schoolId));
+
+        if (!tokenDoc?.accessToken) {
+            const message = schoolId
+                ? 'School Twitter account not connected. Connect it from the school social settings.'
+                : 'Twitter credentials not configured. Complete the OAuth setup first via /api/ai/twitter/auth';
+            throw new PlatformError(message, undefined, false);
+        }
+
+        const expiresSoon = tokenDoc.tokenExpiresAt
+            && tokenDoc.tokenExpiresAt.getTime() - Date.now() < 5 * 60 * 1000;
+
+        if (expiresSoon) {
+            const refreshed = await this.refreshAccessToken(schoolId);
+            if (!refreshed) {
+                throw new PlatformError('Twitter access token expired and could not be refreshed. Re-authorize the account.', undefined, false);
+            }
+            tokenDoc = await SocialToken.findOne(socialTokenFilter('twitter', schoolId));
+        }
+
+        return { accessToken: tokenDoc!.accessToken, userId: tokenDoc!.userId };
+    }
+
+    /**
+     * Generate the OAuth 2.0 authorization URL with a PKCE challenge.
+     * The verifier (and connecting school, if any) is stored against the
+     * state until the callback arrives.
+     */
+    async getAuthUrl(schoolId?: string): Promise<string> {
+        if (!this.clientId || !this.redirectUri) {
+            throw new Error('TWITTER_CLIENT_ID and TWITTER_REDIRECT_URI must be set in .env');
+        }
+
+        const codeVerifier = base64Url(crypto.randomBytes(32));
+        const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+        const state = base64Url(crypto.randomBytes(16));
+
+        await OAuthState.create({
+            platform: 'twitter',
+            state,
+            codeVerifier,
+            metadata: { schoolId },
+            expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+        });
+
+        const params = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.clientId,
+            redirect_uri: this.redirectUri,
+            scope: this.scopes,
+            state,
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+        });
+
+        return `${this.authUrl}?${params.toString()}`;
+    }
+
+    /**
+     * Exchange the authorization code (plus PKCE verifier) for tokens.
+     * Returns the school the connection belongs to, if any.
+     */
+    async exchangeCodeForTokens(code: string, state: string): Promise<string | undefined> {
+        const pending = await OAuthState.findOneAndDelete({ platform: 'twitter', state });
+        if (!pending || pending.expiresAt.getTime() < Date.now()) {
+            throw new Error('Twitter OAuth state is invalid or expired. Start the connection again.');
+        }
+        const schoolId: string | undefined = pending.metadata?.schoolId;
+
+        try {
+            const response = await axios.post(
+                `${this.apiUrl}/2/oauth2/token`,
+                new URLSearchParams({
+                    grant_type: 'authorization_code',
+                    code,
+                    redirect_uri: this.redirectUri || '',
+                    client_id: this.clientId || '',
+                    code_verifier: pending.codeVerifier || '',
+                }),
+                this.tokenRequestConfig()
+            );
+
+            const { access_token, refresh_token, expires_in } = response.data;
+
+            const profileResponse = await axios.get(`${this.apiUrl}/2/users/me`, {
+                headers: { Authorization: `Bearer ${access_token}` },
+            });
+
+            await SocialToken.findOneAndUpdate(
+                socialTokenFilter('twitter', schoolId),
+                {
+                    platform: 'twitter',
+                    schoolId: schoolId || null,
+                    accessToken: access_token,
+                    refreshToken: refresh_token || undefined,
+                    tokenExpiresAt: new Date(Date.now() + expires_in * 1000),
+                    userId: profileResponse.data.data.id,
+                    username: profileResponse.data.data.username,
+                },
+                { upsert: true, new: true }
+            );
+
+            console.log('✅ Twitter OAuth tokens saved for @' + profileResponse.data.data.username);
+            return schoolId;
+        } catch (error: any) {
+            console.error('❌ Twitter token exchange failed:', error.response?.data || error.message);
+            throw new Error(`Twitter OAuth failed: ${error.response?.data?.error_description || error.message}`);
+        }
+    }
+
+    /**
+     * Refresh the access token. Twitter rotates refresh tokens, so the new
+     * one must be stored every time.
+     */
+    async refreshAccessToken(schoolId?: string): Promise<boolean> {
+        try {
+            const tokenDoc = await SocialToken.findOne(socialTokenFilter('twitter', schoolId));
+
+            if (!tokenDoc?.refreshToken) {
+                console.warn('⚠️ No Twitter refresh token available. Re-authorization needed.');
+                return false;
+            }
+
+            const response = await axios.post(
+                `${this.apiUrl}/2/oauth2/token`,
+                new URLSearchParams({
+                    grant_type: 'refresh_token',
+                    refresh_token: tokenDoc.refreshToken,
+                    client_id: this.clientId || '',
+                }),
+                this.tokenRequestConfig()
+            );
+
+            const { access_token, refresh_token, expires_in } = response.data;
+
+            tokenDoc.accessToken = access_token;
+            if (refresh_token) tokenDoc.refreshToken = refresh_token;
+            tokenDoc.tokenExpiresAt = new Date(Date.now() + expires_in * 1000);
+            await tokenDoc.save();
+
+            console.log('✅ Twitter access token refreshed. Expires at:', tokenDoc.tokenExpiresAt);
+            return true;
+        } catch (error: any) {
+            console.error('❌ Twitter token refresh failed:', error.response?.data || error.message);
+            return false;
+        }
+    }
+
+    /**
+     * Upload an image and return its media id.
+     */
+    private async uploadImage(imageUrl: string, accessToken: string): Promise<string> {
+        const fullImageUrl = imageUrl.startsWith('http')
+            ? imageUrl
+            : `${process.env.BACKEND_URL || 'http://localhost:5000'}/${imageUrl.replace(/\\/g, '/')}`;
+
+        const imageResponse = await axios.get(fullImageUrl, { responseType: 'arraybuffer' });
+
+        const formData = new FormData();
+        formData.append('media', Buffer.from(imageResponse.data), {
+            filename: fullImageUrl.split('/').pop()?.split('?')[0] || 'image.jpg',
+            contentType: imageResponse.headers['content-type'] || 'image/jpeg',
+        });
+        formData.append('media_category', 'tweet_image');
+
+        const response = await axios.post(`${this.apiUrl}/2/media/upload`, formData, {
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                ...formData.getHeaders(),
+            },
+        });
+
+        return response.data.data?.id || response.data.media_id_string;
+    }
+
+    /**
+     * Post a tweet with an optional image. Returns the tweet id.
+     */
+    async createTweet(text: string, imageUrl?: string, schoolId?: string): Promise<string> {
+        const length = countTweetLength(text);
+        if (length > TWEET_MAX_LENGTH) {
+            throw new PlatformError(`Tweet is ${length} characters; the limit is ${TWEET_MAX_LENGTH}`, undefined, false);
+        }
+
+        const { accessToken } = await this.getCredentials(schoolId);
+
+        try {
+            const body: any = { text };
+
+            if (imageUrl) {
+                const mediaId = await this.uploadImage(imageUrl, accessToken);
+                body.media = { media_ids: [mediaId] };
+            }
+
+            const response = await axios.post(`${this.apiUrl}/2/tweets`, body, {
+                headers: {
+                    Authorization: `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+            });
+
+            const tweetId = response.data.data.id;
+            console.log('✅ Tweet published:', tweetId);
+            return tweetId;
+        } catch (error: any) {
+            console.error('❌ Tweet failed:', error.response?.data || error.message);
+            throw new PlatformError(
+                `Twitter publish failed: ${error.response?.data?.detail || error.response?.data?.title || error.message}`,
+                error.response?.data,
+                isRetryable(error)
+            );
+        }
+    }
+
+    /**
+     * Check if the current token is still valid.
+     */
+    async validateToken(schoolId?: string): Promise<boolean> {
+        try {
+            const { accessToken } = await this.getCredentials(schoolId);
+            const response = await axios.get(`${this.apiUrl}/2/users/me`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+            });
+            return !!response.data.data?.id;
+        } catch {
+            return false;
+        }
+    }
+}
+
+export default new TwitterClient();
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import AuthToken, { AuthTokenPurpose } from '../models/AuthToken';
+import User, { IUser } from '../models/User';
+import mailer, { frontendUrl } from './mailer';
+import { hashToken, invalidateUserTokens } from './sessions';
+
+// How long an emailed link works
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+    password_reset: 60 * 60 * 1000,
+    email_verification: 48 * 60 * 60 * 1000,
+};
+
+// Frontend pages the links open; they post the token back to the API
+const RESET_PASSWORD_PATH = '/reset-password';
+const VERIFY_EMAIL_PATH = '/verify-email';
+
+/**
+ * Issue a token for a user, replacing any unused one for the same purpose
+ * so only the most recent link works. Returns the raw token for the email.
+ */
+const issueToken = async (userId: string, purpose: AuthTokenPurpose): Promise<string> => {
+    await AuthToken.deleteMany({ userId, purpose, usedAt: { $exists: false } });
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await AuthToken.create({
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+    });
+    return token;
+};
+
+/**
+ * Use up a token. Marking it used is conditional, so it works exactly once.
+ * Returns the user it was issued to, or null if it is unknown, used or expired.
+ */
+export const consumeToken = async (token: string, purpose: AuthTokenPurpose): Promise<IUser | null> => {
+    const claimed = await AuthToken.findOneAndUpdate(
+        { tokenHash: hashToken(token), purpose, usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+        { usedAt: new Date() },
+        { new: true }
+    );
+    if (!claimed) return null;
+
+    return User.findById(claimed.userId);
+};
+
+/**
+ * Email a password reset link.
+ */
+export const sendPasswordResetEmail = async (user: IUser): Promise<void> => {
+    const token = await issueToken(String(user._id), 'password_reset');
+    const link = frontendUrl(`${RESET_PASSWORD_PATH}?token=${token}`);
+
+    await mailer.send({
+        to: user.email,
+        subject: 'Reset your SchoolChamps password',
+        text: `Hi ${user.name},\n\nUse this link to choose a new password. It works once and expires in an hour:\n${link}\n\n`
+            + `If you didn't ask for this, you can ignore this email; your password hasn't changed.`,
+    });
+};
+
+/**
+ * Email a link that confirms the user owns their email address.
+ * Returns whether the email was sent.
+ */
+export const sendVerificationEmail = async (user: IUser): Promise<boolean> => {
+    const token = await issueToken(String(user._id), 'email_verification');
+    const link = frontendUrl(`${VERIFY_EMAIL_PATH}?token=${token}`);
+
+    return mailer.send({
+        to: user.email,
+        subject: 'Confirm your SchoolChamps email address',
+        text: `Hi ${user.name},\n\nConfirm your email address to finish setting up your account:\n${link}\n\n`
+            + `The link expires in 48 hours.`,
+    });
+};
+
+/**
+ * Set a new password and sign the user out everywhere, since anyone holding
+ * an old session may be the reason the password changed.
+ */
+export const setUserPassword = async (user: IUser, password: string): Promise<void> => {
+    const salt = await bcrypt.genSalt(10);
+    user.password = await bcrypt.hash(password, salt);
+    user.passwordChangedAt = new Date();
+    await user.save();
+
+    await AuthToken.deleteMany({ userId: user._id, purpose: 'password_reset', usedAt: { $exists: false } });
+    await invalidateUserTokens(String(user._id));
+};
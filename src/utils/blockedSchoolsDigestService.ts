@@ -0,0 +1,47 @@
+import * as cron from 'node-cron';
+import { sendBlockedSchoolsDigest } from './lowBalanceAlerts';
+
+/**
+ * Blocked Schools Digest Service
+ * Runs daily at 9:00 AM and sends admins the list of schools that
+ * cannot afford to publish a post.
+ */
+class BlockedSchoolsDigestService {
+    private job: cron.ScheduledTask | null = null;
+
+    /**
+     * Start the daily cron job.
+     */
+    start() {
+        // Run every day at 9:00 AM
+        this.job = cron.schedule('0 9 * * *', async () => {
+            await this.run();
+        });
+
+        console.log('✅ [BlockedSchoolsDigest] Cron job scheduled: daily at 9:00 AM');
+    }
+
+    /**
+     * Stop the cron job.
+     */
+    stop() {
+        if (this.job) {
+            this.job.stop();
+            console.log('⏹️ [BlockedSchoolsDigest] Cron job stopped.');
+        }
+    }
+
+    /**
+     * Send the digest. Can be called manually for testing.
+     */
+    async run() {
+        try {
+            const count = await sendBlockedSchoolsDigest();
+            console.log(`📋 [BlockedSchoolsDigest] ${count} school(s) blocked from publishing`);
+        } catch (error: any) {
+            console.error('❌ [BlockedSchoolsDigest] Error:', error.message);
+        }
+    }
+}
+
+export default new BlockedSchoolsDigestService();
@@ -0,0 +1,277 @@
+import { IBlog } from '../models/Blog';
+import BlogRevision, { IBlogRevision } from '../models/BlogRevision';
+
+type RevisionSource = IBlogRevision['source'];
+
+interface RevisionActor {
+  id: string;
+}
+
+// Fields captured in every revision
+export const REVISION_FIELDS = ['title', 'content', 'metaTitle', 'metaDescription', 'tags', 'seoKeywords'] as const;
+
+type RevisionField = typeof REVISION_FIELDS[number];
+
+// Two saves of the same blog can race for the next revision number
+const MAX_NUMBER_ATTEMPTS = 3;
+
+const isDuplicateKey = (error: any): boolean => error?.code === 11000;
+
+const sameValue = (a: any, b: any): boolean => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a || []) === JSON.stringify(b || []);
+  }
+  return (a || '') === (b || '');
+};
+
+const snapshotOf = (blog: IBlog): Pick<IBlogRevision, RevisionField> => ({
+  title: blog.title,
+  content: blog.content,
+  metaTitle: blog.metaTitle,
+  metaDescription: blog.metaDescription,
+  tags: [...(blog.tags || [])],
+  seoKeywords: [...(blog.seoKeywords || [])],
+});
+
+/**
+ * Store the current state of a blog as a new revision.
+ * Skips the write when nothing changed since the latest revision. When a
+ * concurrent save takes the same number, the unique index rejects ours and
+ * we read the latest revision again.
+ */
+export const recordRevision = async (
+  blog: IBlog,
+  actor: RevisionActor | undefined,
+  source: RevisionSource,
+  restoredFrom?: number
+): Promise<IBlogRevision | null> => {
+  const snapshot = snapshotOf(blog);
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await BlogRevision.findOne({ blogId: blog._id }).sort({ revision: -1 });
+
+    if (latest && REVISION_FIELDS.every(field => sameValue(latest[field], snapshot[field]))) {
+      return null;
+    }
+
+    try {
+      return await BlogRevision.create({
+        blogId: blog._id,
+        revision: latest ? latest.revision + 1 : 1,
+        ...snapshot,
+        source,
+        restoredFrom,
+        createdBy: actor?.id,
+      });
+    } catch (error) {
+      if (!isDuplicateKey(error) || attempt >= MAX_NUMBER_ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * Blogs created before revisions existed have no history.
+ * Capture their current state before the first edit overwrites it.
+ */
+export const ensureBaselineRevision = async (blog: IBlog): Promise<void> => {
+  const exists = await BlogRevision.exists({ blogId: blog._id });
+  if (!exists) {
+    await recordRevision(blog, undefined, 'baseline');
+  }
+};
+
+/**
+ * Copy the fields of a revision back onto the blog. The caller saves the
+ * blog and records the result as a new revision.
+ */
+export const applyRevision = (blog: IBlog, revision: IBlogRevision): void => {
+  blog.set({
+    title: revision.title,
+    content: revision.content,
+    metaTitle: revision.metaTitle,
+    metaDescription: revision.metaDescription,
+    tags: revision.tags,
+    seoKeywords: revision.seoKeywords,
+  });
+};
+
+// ============================================================
+// HTML-aware diff
+// ============================================================
+
+interface DiffChange {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+// Tags, entities, whitespace runs and words are each a single token, so
+// markup is never split in the middle.
+const TOKEN_PATTERN = /<[^>]+>|&[a-z0-9#]+;|\s+|[^\s<&]+|[<&]/gi;
+
+const tokenize = (html: string): string[] => (html || '').match(TOKEN_PATTERN) || [];
+
+const isTag = (token: string): boolean => token.startsWith('<') && token.endsWith('>');
+
+// Above this many LCS cells (~16 MB) the content is compared block by block
+const MAX_DIFF_CELLS = 4_000_000;
+
+const BLOCK_END = /^<\/(p|h[1-6]|li|ul|ol|blockquote|div|table|tr|pre|figure|section)>$/i;
+
+/**
+ * Group tokens into paragraphs and other block elements, for a coarser diff
+ * of very large changes.
+ */
+const toBlocks = (tokens: string[]): string[] => {
+  const blocks: string[] = [];
+  let current = '';
+  for (const token of tokens) {
+    current += token;
+    if (BLOCK_END.test(token) || token.includes('\n')) {
+      blocks.push(current);
+      current = '';
+    }
+  }
+  if (current) blocks.push(current);
+  return blocks;
+};
+
+const pushChange = (changes: DiffChange[], type: DiffChange['type'], value: string): void => {
+  const last = changes[changes.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    changes.push({ type, value });
+  }
+};
+
+/**
+ * LCS diff of two sequences. Common prefix and suffix are trimmed first,
+ * which keeps the table small for typical edits. When the rest is still too
+ * large, it is diffed through `coarsen` if given, or reported as replaced.
+ */
+const diffSequences = (a: string[], b: string[], coarsen?: (items: string[]) => string[]): DiffChange[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    const changes: DiffChange[] = [];
+    if (start > 0) pushChange(changes, 'equal', a.slice(0, start).join(''));
+    const middle = coarsen
+      ? diffSequences(coarsen(midA), coarsen(midB))
+      : [{ type: 'delete' as const, value: midA.join('') }, { type: 'insert' as const, value: midB.join('') }];
+    middle.forEach(change => pushChange(changes, change.type, change.value));
+    if (endA < a.length) pushChange(changes, 'equal', a.slice(endA).join(''));
+    return changes;
+  }
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const changes: DiffChange[] = [];
+  if (start > 0) pushChange(changes, 'equal', a.slice(0, start).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      pushChange(changes, 'equal', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      pushChange(changes, 'delete', midA[i]);
+      i++;
+    } else {
+      pushChange(changes, 'insert', midB[j]);
+      j++;
+    }
+  }
+  while (i < n) pushChange(changes, 'delete', midA[i++]);
+  while (j < m) pushChange(changes, 'insert', midB[j++]);
+
+  if (endA < a.length) pushChange(changes, 'equal', a.slice(endA).join(''));
+
+  return changes;
+};
+
+const diffTokens = (a: string[], b: string[]): DiffChange[] => diffSequences(a, b, toBlocks);
+
+/**
+ * Render changes as HTML with <ins>/<del> around changed text. Markup from
+ * the newer version is kept and removed markup is dropped, so the result
+ * stays well-formed.
+ */
+const renderHtmlDiff = (changes: DiffChange[]): string =>
+  changes
+    .map(change => {
+      if (change.type === 'equal') return change.value;
+
+      return tokenize(change.value)
+        .map(token => {
+          if (isTag(token)) return change.type === 'insert' ? token : '';
+          if (!token.trim()) return token;
+          return change.type === 'insert' ? `<ins>${token}</ins>` : `<del>${token}</del>`;
+        })
+        .join('')
+        .replace(/<\/ins>(\s*)<ins>/g, '$1')
+        .replace(/<\/del>(\s*)<del>/g, '$1');
+    })
+    .join('');
+
+/**
+ * Compare two revisions field by field, with an HTML diff of the content.
+ */
+export const diffRevisions = (from: IBlogRevision, to: IBlogRevision) => {
+  const changes = diffTokens(tokenize(from.content), tokenize(to.content));
+
+  const countWords = (type: DiffChange['type']) =>
+    changes
+      .filter(change => change.type === type)
+      .reduce((sum, change) => sum + tokenize(change.value).filter(t => !isTag(t) && t.trim()).length, 0);
+
+  const listDiff = (a: string[] = [], b: string[] = []) => ({
+    added: b.filter(item => !a.includes(item)),
+    removed: a.filter(item => !b.includes(item)),
+  });
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    fields: {
+      title: { from: from.title, to: to.title, changed: from.title !== to.title },
+      metaTitle: { from: from.metaTitle, to: to.metaTitle, changed: !sameValue(from.metaTitle, to.metaTitle) },
+      metaDescription: {
+        from: from.metaDescription,
+        to: to.metaDescription,
+        changed: !sameValue(from.metaDescription, to.metaDescription),
+      },
+      tags: listDiff(from.tags, to.tags),
+      seoKeywords: listDiff(from.seoKeywords, to.seoKeywords),
+    },
+    content: {
+      changed: changes.some(change => change.type !== 'equal'),
+      insertedWords: countWords('insert'),
+      deletedWords: countWords('delete'),
+      changes,
+      html: renderHtmlDiff(changes),
+    },
+  };
+};
@@ -0,0 +1,203 @@
+import mongoose from 'mongoose';
+import { IBlog, BlogStatus } from '../models/Blog';
+import Submission, { ISubmission } from '../models/Submission';
+import { createComment } from './comments';
+import { SchoolRole } from './schoolRoles';
+import { Permission, hasPermission } from './permissions';
+
+export interface WorkflowActor {
+  id: string;
+  role: string;
+  schoolRole?: SchoolRole;
+}
+
+/**
+ * Error raised when a requested status change is not allowed.
+ * `status` is the HTTP status code routes should respond with.
+ */
+export class WorkflowError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'WorkflowError';
+    this.status = status;
+  }
+}
+
+/**
+ * Allowed transitions between blog statuses and the roles that may fire them.
+ * Anything not listed here is rejected.
+ */
+const TRANSITIONS: Record<BlogStatus, Partial<Record<BlogStatus, string[]>>> = {
+  draft_writer: {
+    draft_created: ['writer', 'admin'],
+    review: ['writer', 'admin'],
+  },
+  draft_created: {
+    draft_writer: ['writer', 'admin'],
+    review: ['writer', 'admin'],
+  },
+  review: {
+    draft_created: ['writer', 'admin'],
+    approved_school: ['school', 'admin'],
+    rejected: ['school', 'admin'],
+  },
+  approved_school: {
+    review: ['school', 'writer', 'admin'],
+    rejected: ['school', 'admin'],
+    published_wp: ['school', 'writer', 'admin'],
+  },
+  rejected: {
+    draft_created: ['writer', 'admin'],
+    review: ['writer', 'admin'],
+  },
+  published_wp: {
+    approved_school: ['school', 'writer', 'admin'],
+  },
+};
+
+/**
+ * Submission status that mirrors each blog status.
+ */
+const SUBMISSION_STATUS: Record<BlogStatus, ISubmission['status']> = {
+  draft_writer: 'draft_created',
+  draft_created: 'draft_created',
+  review: 'review',
+  approved_school: 'review',
+  rejected: 'review',
+  published_wp: 'published_wp',
+};
+
+export const BLOG_STATUSES = Object.keys(TRANSITIONS) as BlogStatus[];
+
+/**
+ * Permission a school user needs to make a transition. Taking a post off
+ * WordPress counts as publishing, not approving.
+ */
+const schoolPermissionFor = (from: BlogStatus, to: BlogStatus): Permission => {
+  if (from === 'published_wp' || to === 'published_wp') return 'blog.publish';
+  if (to === 'approved_school' || to === 'rejected') return 'blog.approve';
+  return 'blog.review';
+};
+
+// The table above covers platform roles; school roles narrow it further
+const actorMayTransition = (from: BlogStatus, to: BlogStatus, role: string, schoolRole?: SchoolRole): boolean =>
+  role !== 'school' || hasPermission({ role, schoolRole }, schoolPermissionFor(from, to));
+
+/**
+ * List the statuses a blog can move to from `from` for the given role
+ * (and school role, for school users).
+ */
+export const getAllowedTransitions = (from: BlogStatus, role: string, schoolRole?: SchoolRole): BlogStatus[] => {
+  const targets = TRANSITIONS[from] || {};
+  return (Object.keys(targets) as BlogStatus[])
+    .filter(to => targets[to]!.includes(role) && actorMayTransition(from, to, role, schoolRole));
+};
+
+/**
+ * Throws a WorkflowError if `actor` may not move `blog` to `to`.
+ * Rejections must carry a reason, which is posted as a comment.
+ */
+export const assertTransition = (blog: IBlog, to: BlogStatus, actor: WorkflowActor, reason?: string): void => {
+  if (!BLOG_STATUSES.includes(to)) {
+    throw new WorkflowError('Invalid status');
+  }
+
+  const from = blog.status;
+  const roles = TRANSITIONS[from]?.[to];
+
+  if (!roles) {
+    throw new WorkflowError(`Cannot move blog from ${from} to ${to}`);
+  }
+
+  if (!roles.includes(actor.role)) {
+    throw new WorkflowError(`Role ${actor.role} cannot move blog from ${from} to ${to}`, 403);
+  }
+
+  if (!actorMayTransition(from, to, actor.role, actor.schoolRole)) {
+    throw new WorkflowError(`School role ${actor.schoolRole} cannot move blog from ${from} to ${to}`, 403);
+  }
+
+  if (to === 'rejected' && !reason?.trim()) {
+    throw new WorkflowError('A comment explaining the rejection is required');
+  }
+
+  // Only the WordPress publish flows set wordpressPostId and wordpressStatus,
+  // so these keep published_wp honest.
+  if (to === 'published_wp' && (!blog.wordpressPostId || blog.wordpressStatus !== 'publish')) {
+    throw new WorkflowError('Blog must be published to WordPress before it can be marked published');
+  }
+
+  if (from === 'published_wp' && (blog.wordpressStatus || 'publish') === 'publish') {
+    throw new WorkflowError('Unpublish the WordPress post before changing its status');
+  }
+};
+
+/**
+ * Keep the parent submission's status in step with the blog.
+ */
+export const syncSubmissionStatus = async (blog: IBlog): Promise<void> => {
+  if (!blog.submissionId) return;
+
+  await Submission.findByIdAndUpdate(blog.submissionId, {
+    status: submissionStatusFor(blog),
+  });
+};
+
+/**
+ * The status a submission should have given its blog, or given that no
+ * draft has been written for it yet.
+ */
+export const submissionStatusFor = (blog: IBlog | null): ISubmission['status'] =>
+  blog ? SUBMISSION_STATUS[blog.status] : 'submitted_school';
+
+/**
+ * Record the initial status of a freshly created blog.
+ * Call before the first save.
+ */
+export const recordInitialStatus = (blog: IBlog, actor: WorkflowActor): void => {
+  blog.statusHistory.push({
+    to: blog.status,
+    actor: new mongoose.Types.ObjectId(actor.id),
+    actorRole: actor.role,
+    createdAt: new Date(),
+  });
+};
+
+/**
+ * Validate and apply a status transition, append it to the blog's history,
+ * save the blog and sync the submission status.
+ */
+export const transitionBlog = async (
+  blog: IBlog,
+  to: BlogStatus,
+  actor: WorkflowActor,
+  reason?: string
+): Promise<IBlog> => {
+  assertTransition(blog, to, actor, reason);
+
+  blog.statusHistory.push({
+    from: blog.status,
+    to,
+    actor: new mongoose.Types.ObjectId(actor.id),
+    actorRole: actor.role,
+    reason,
+    createdAt: new Date(),
+  });
+  blog.status = to;
+  await blog.save();
+
+  await syncSubmissionStatus(blog);
+
+  // Rejections are explained in the blog's comment thread
+  if (to === 'rejected') {
+    await createComment(
+      actor,
+      { targetType: 'blog', targetId: String(blog._id), body: reason! },
+      blog.assignedSchool?.toString()
+    );
+  }
+
+  return blog;
+};
@@ -0,0 +1,245 @@
+import mongoose, { ClientSession } from 'mongoose';
+import School, { ISchool } from '../models/School';
+import Transaction, { ITransaction, TransactionType } from '../models/Transaction';
+import PublishJob from '../models/PublishJob';
+import { checkLowBalance } from './lowBalanceAlerts';
+
+/**
+ * All changes to `School.coins` go through this module. Balance updates are
+ * conditional `$inc`s, so concurrent requests never lose an update and a
+ * debit never takes the balance below zero, and each one writes its ledger
+ * row in the same Mongo transaction (MongoDB must run as a replica set).
+ *
+ * Callers that pass their own session run `checkLowBalance` once it commits;
+ * otherwise it runs here after every change.
+ *
+ * The one exception is a publish reservation: the cost is held back from
+ * the balance while WordPress is called and only written to the ledger once
+ * the post exists. Reconciliation counts open reservations for that reason.
+ */
+
+// Ledger types that add to the balance; every other type takes away from it
+export const CREDIT_TYPES: TransactionType[] = [
+    'purchase',
+    'reward',
+    'adjustment_credit',
+    'allowance',
+    'bonus',
+    'referral_reward',
+];
+
+export const isCreditType = (type: TransactionType): boolean => CREDIT_TYPES.includes(type);
+
+/**
+ * Error raised when a coin operation cannot be applied.
+ * `status` is the HTTP status code and `details` is merged into the response.
+ */
+export class CoinError extends Error {
+    status: number;
+    details?: Record<string, any>;
+
+    constructor(message: string, status: number = 400, details?: Record<string, any>) {
+        super(message);
+        this.name = 'CoinError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+export interface LedgerEntry {
+    type: TransactionType;
+    coins: number;
+    amount?: number;
+    referenceId?: string;
+    description?: string;
+    code?: string;
+    createdBy?: string;
+}
+
+interface ApplyOptions {
+    session?: ClientSession; // Join a transaction the caller already started
+    clampToBalance?: boolean; // Debit as much as the balance allows instead of failing
+}
+
+/**
+ * Run `fn` in a Mongo transaction, retried on transient errors.
+ */
+export const runInTransaction = <T>(fn: (session: ClientSession) => Promise<T>): Promise<T> =>
+    mongoose.connection.transaction(fn);
+
+const insufficientCoins = async (schoolId: string, required: number, session?: ClientSession): Promise<CoinError> => {
+    const current = await School.findById(schoolId).select('coins').session(session || null);
+    if (!current) return new CoinError('School not found', 404);
+    return new CoinError('Insufficient coins', 400, { availableCoins: current.coins, requiredCoins: required });
+};
+
+/**
+ * Apply a ledger entry to a school's balance and record it.
+ * Returns the updated school and the ledger row; `transaction.coins` is what
+ * was actually moved, which can be less than asked for with `clampToBalance`.
+ */
+export const applyCoinEntry = async (
+    schoolId: string,
+    entry: LedgerEntry,
+    options: ApplyOptions = {}
+): Promise<{ school: ISchool; transaction: ITransaction }> => {
+    if (!Number.isInteger(entry.coins) || entry.coins < 0) {
+        throw new CoinError('Coins must be a non-negative whole number');
+    }
+
+    const apply = async (session: ClientSession) => {
+        const credit = isCreditType(entry.type);
+        let coins = entry.coins;
+
+        if (!credit && options.clampToBalance) {
+            const current = await School.findById(schoolId).select('coins').session(session);
+            coins = Math.min(coins, Math.max(current?.coins ?? 0, 0));
+        }
+
+        const school = await School.findOneAndUpdate(
+            credit ? { _id: schoolId } : { _id: schoolId, coins: { $gte: coins } },
+            { $inc: { coins: credit ? coins : -coins } },
+            { new: true, session }
+        );
+
+        if (!school) {
+            throw await insufficientCoins(schoolId, coins, session);
+        }
+
+        const [transaction] = await Transaction.create(
+            [{
+                ...entry,
+                schoolId: school._id,
+                coins,
+                coinsBefore: credit ? school.coins - coins : school.coins + coins,
+                coinsAfter: school.coins,
+            }],
+            { session }
+        );
+
+        return { school, transaction };
+    };
+
+    if (options.session) return apply(options.session);
+
+    const result = await runInTransaction(apply);
+    void checkLowBalance(schoolId);
+    return result;
+};
+
+/**
+ * Hold coins back from the balance without a ledger row (publish reservations).
+ * Fails rather than letting the balance go negative. Inside a session the
+ * caller records the hold and checks the low balance once it commits.
+ */
+export const holdCoins = async (schoolId: string, coins: number, session?: ClientSession): Promise<ISchool> => {
+    const school = await School.findOneAndUpdate(
+        { _id: schoolId, coins: { $gte: coins } },
+        { $inc: { coins: -coins } },
+        { new: true, session }
+    );
+
+    if (!school) {
+        throw await insufficientCoins(schoolId, coins, session);
+    }
+
+    if (!session) void checkLowBalance(schoolId);
+    return school;
+};
+
+/**
+ * Give held coins back.
+ */
+export const releaseHeldCoins = async (schoolId: string, coins: number, session?: ClientSession): Promise<void> => {
+    if (coins > 0) {
+        await School.findByIdAndUpdate(schoolId, { $inc: { coins } }, { session });
+        if (!session) void checkLowBalance(schoolId);
+    }
+};
+
+/**
+ * Coins currently held back from a school by publish reservations.
+ */
+export const getHeldCoins = async (schoolId: string): Promise<number> => {
+    const [row] = await PublishJob.aggregate([
+        {
+            $match: {
+                schoolId: new mongoose.Types.ObjectId(schoolId),
+                coinsBefore: { $exists: true, $ne: null },
+                ledgerCommitted: false,
+            },
+        },
+        { $group: { _id: null, held: { $sum: '$coinsReserved' } } },
+    ]);
+    return row?.held || 0;
+};
+
+/**
+ * Credit or debit a school's coins by hand, with the reason on the ledger.
+ * A debit is refused if it would take the balance below zero.
+ */
+export const adjustSchoolCoins = (
+    schoolId: string,
+    direction: 'credit' | 'debit',
+    coins: number,
+    reason: string,
+    adminId: string
+) =>
+    applyCoinEntry(schoolId, {
+        type: direction === 'credit' ? 'adjustment_credit' : 'adjustment_debit',
+        coins,
+        description: reason,
+        createdBy: adminId,
+    });
+
+export interface LedgerMismatch {
+    schoolId: string;
+    name: string;
+    balance: number;
+    ledgerBalance: number; // Credits less debits across the school's Transaction rows
+    heldCoins: number; // Open publish reservations
+    difference: number; // balance - (ledgerBalance - heldCoins)
+}
+
+/**
+ * Compare every school's balance (or one school's) with its ledger.
+ * Reads happen in one transaction so they see a consistent snapshot.
+ */
+export const reconcileLedger = async (schoolId?: string): Promise<{ checked: number; mismatches: LedgerMismatch[] }> =>
+    runInTransaction(async session => {
+        const schoolFilter: any = schoolId ? { _id: new mongoose.Types.ObjectId(schoolId) } : {};
+        const ledgerMatch: any = schoolId ? { schoolId: schoolFilter._id } : {};
+
+        // One operation at a time: a transaction's session can't run them concurrently
+        const schools = await School.find(schoolFilter).select('name coins').session(session);
+        const ledger = await Transaction.aggregate([
+            { $match: ledgerMatch },
+            {
+                $group: {
+                    _id: '$schoolId',
+                    balance: { $sum: { $cond: [{ $in: ['$type', CREDIT_TYPES] }, '$coins', { $multiply: ['$coins', -1] }] } },
+                },
+            },
+        ]).session(session);
+        const holds = await PublishJob.aggregate([
+            { $match: { ...ledgerMatch, coinsBefore: { $exists: true, $ne: null }, ledgerCommitted: false } },
+            { $group: { _id: '$schoolId', held: { $sum: '$coinsReserved' } } },
+        ]).session(session);
+
+        const ledgerBySchool = new Map<string, number>(ledger.map(row => [String(row._id), row.balance]));
+        const heldBySchool = new Map<string, number>(holds.map(row => [String(row._id), row.held]));
+
+        const mismatches: LedgerMismatch[] = [];
+        for (const school of schools) {
+            const id = String(school._id);
+            const ledgerBalance = ledgerBySchool.get(id) || 0;
+            const heldCoins = heldBySchool.get(id) || 0;
+            const difference = (school.coins || 0) - (ledgerBalance - heldCoins);
+
+            if (difference !== 0) {
+                mismatches.push({ schoolId: id, name: school.name, balance: school.coins || 0, ledgerBalance, heldCoins, difference });
+            }
+        }
+
+        return { checked: schools.length, mismatches };
+    });
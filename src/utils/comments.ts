@@ -0,0 +1,129 @@
+import mongoose from 'mongoose';
+import Blog from '../models/Blog';
+import Submission from '../models/Submission';
+import User from '../models/User';
+import Comment, { IComment, ICommentAnchor } from '../models/Comment';
+import { hasPermission } from './permissions';
+
+export type CommentTargetType = IComment['targetType'];
+
+interface CommentActor {
+  id: string;
+  role: string;
+  schoolId?: string;
+}
+
+// Matches "@someone@school.in" style mentions in a comment body
+const MENTION_PATTERN = /@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+/**
+ * Look up the record a comment attaches to and return the school that owns it.
+ * Returns null when the target does not exist.
+ */
+export const findCommentTarget = async (
+  targetType: CommentTargetType,
+  targetId: string
+): Promise<{ schoolId?: string; content?: string } | null> => {
+  if (!mongoose.Types.ObjectId.isValid(targetId)) return null;
+
+  if (targetType === 'blog') {
+    const blog = await Blog.findById(targetId).select('assignedSchool content');
+    if (!blog) return null;
+    return { schoolId: blog.assignedSchool?.toString(), content: blog.content };
+  }
+
+  const submission = await Submission.findById(targetId).select('schoolId description');
+  if (!submission) return null;
+  return { schoolId: submission.schoolId?.toString(), content: submission.description };
+};
+
+/**
+ * School users only see threads on their own school's records.
+ */
+export const canAccessSchoolRecord = (user: CommentActor, schoolId?: string): boolean =>
+  hasPermission(user, 'comment.participate', { schoolId });
+
+/**
+ * Resolve @email mentions in the body plus any explicit user ids into users
+ * that are allowed to see the thread.
+ */
+const resolveMentions = async (body: string, explicit: string[] = [], schoolId?: string) => {
+  const emails = Array.from(body.matchAll(MENTION_PATTERN), match => match[1].toLowerCase());
+  const ids = explicit.filter(id => mongoose.Types.ObjectId.isValid(id));
+
+  if (emails.length === 0 && ids.length === 0) return [];
+
+  const users = await User.find({
+    isActive: true,
+    $or: [{ email: { $in: emails } }, { _id: { $in: ids } }],
+  }).select('role schoolId');
+
+  return users
+    .filter(user => hasPermission({ role: user.role, schoolId: user.schoolId?.toString() }, 'comment.participate', { schoolId }))
+    .map(user => user._id);
+};
+
+/**
+ * Create a comment or reply on a blog or submission.
+ * Replies inherit the target of their parent and cannot carry an anchor.
+ */
+export const createComment = async (
+  actor: CommentActor,
+  input: {
+    targetType: CommentTargetType;
+    targetId: string;
+    body: string;
+    parentId?: string;
+    anchor?: ICommentAnchor;
+    mentions?: string[];
+  },
+  schoolId?: string
+): Promise<IComment> => {
+  const mentions = await resolveMentions(input.body, input.mentions, schoolId);
+
+  return Comment.create({
+    targetType: input.targetType,
+    targetId: input.targetId,
+    schoolId,
+    parentId: input.parentId,
+    author: actor.id,
+    body: input.body,
+    anchor: input.parentId ? undefined : input.anchor,
+    mentions,
+  });
+};
+
+/**
+ * Validate a text-range anchor against the target content.
+ * Returns an error message, or null when the anchor is usable.
+ */
+export const validateAnchor = (anchor: any, content: string = ''): string | null => {
+  if (anchor === undefined || anchor === null) return null;
+
+  const { start, end } = anchor;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start) {
+    return 'Anchor must have integer start and end with end > start';
+  }
+  if (end > content.length) {
+    return 'Anchor is outside the content';
+  }
+  return null;
+};
+
+/**
+ * Group a flat list of comments into top-level threads with their replies.
+ */
+export const buildThreads = (comments: IComment[]) => {
+  const threads = comments
+    .filter(comment => !comment.parentId)
+    .map(comment => ({ ...comment.toObject(), replies: [] as ReturnType<IComment['toObject']>[] }));
+
+  const byId = new Map(threads.map(thread => [thread._id.toString(), thread]));
+
+  for (const comment of comments) {
+    if (!comment.parentId) continue;
+    byId.get(comment.parentId.toString())?.replies.push(comment.toObject());
+  }
+
+  return threads;
+};
@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import { ClientSession } from 'mongoose';
+import Coupon, { ICoupon } from '../models/Coupon';
+import PaymentOrder, { IPaymentOrder } from '../models/PaymentOrder';
+import School from '../models/School';
+import { applyCoinEntry } from './coinService';
+import { getPricingConfig, CouponDiscount } from './pricing';
+
+// Characters referral codes are built from; no 0/O or 1/I to misread
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// How long an unpaid order holds its coupon against the limits
+const PENDING_ORDER_HOLD_MS = 60 * 60 * 1000;
+
+/**
+ * Error raised when a coupon or referral code can't be used.
+ * `status` is the HTTP status code to respond with.
+ */
+export class CouponError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 400) {
+        super(message);
+        this.name = 'CouponError';
+        this.status = status;
+    }
+}
+
+export const normalizeCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Find a coupon a school can use on a new order, or explain why it can't.
+ * Limits count paid orders plus recent unpaid ones, so a school can't open
+ * several orders with the same code before paying any of them. An order
+ * that is never paid stops counting after an hour.
+ */
+export const findRedeemableCoupon = async (code: string, schoolId: string): Promise<ICoupon> => {
+    const coupon = await Coupon.findOne({ code: normalizeCode(code) });
+    if (!coupon || !coupon.isActive) {
+        throw new CouponError('Coupon code not found', 404);
+    }
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) {
+        throw new CouponError('This coupon is not valid yet');
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+        throw new CouponError('This coupon has expired');
+    }
+    if (coupon.allowedSchoolIds.length > 0 && !coupon.allowedSchoolIds.some(id => String(id) === schoolId)) {
+        throw new CouponError('This coupon is not available to your school', 403);
+    }
+    const pending = {
+        couponId: coupon._id,
+        status: 'created',
+        createdAt: { $gt: new Date(now.getTime() - PENDING_ORDER_HOLD_MS) },
+    };
+
+    if (coupon.maxRedemptions) {
+        const held = await PaymentOrder.countDocuments(pending);
+        if (coupon.redemptionCount + held >= coupon.maxRedemptions) {
+            throw new CouponError('This coupon has been fully redeemed');
+        }
+    }
+
+    const used = await PaymentOrder.countDocuments({
+        schoolId,
+        couponId: coupon._id,
+        $or: [{ creditedAt: { $exists: true } }, pending],
+    });
+    if (used >= coupon.perSchoolLimit) {
+        throw new CouponError('Your school has already used this coupon');
+    }
+
+    return coupon;
+};
+
+/**
+ * Count a paid order's use of its coupon, unless that would take the coupon
+ * past its limits. Orders opened before the limit was reached can still be
+ * paid afterwards; this is the check that holds. Returns why the coupon was
+ * refused, or null when the use was counted.
+ */
+const claimCouponUse = async (order: IPaymentOrder, session: ClientSession): Promise<string | null> => {
+    const coupon = await Coupon.findById(order.couponId).session(session);
+    if (!coupon) return 'Coupon no longer exists';
+
+    const used = await PaymentOrder.countDocuments({
+        _id: { $ne: order._id },
+        schoolId: order.schoolId,
+        couponId: coupon._id,
+        creditedAt: { $exists: true },
+    }).session(session);
+    if (used >= coupon.perSchoolLimit) return 'School had already used this coupon';
+
+    // Concurrent credits of the same coupon conflict on this write, so the
+    // transaction that loses retries and sees the new count
+    const counted = await Coupon.updateOne(
+        coupon.maxRedemptions
+            ? { _id: coupon._id, redemptionCount: { $lt: coupon.maxRedemptions } }
+            : { _id: coupon._id },
+        { $inc: { redemptionCount: 1 } },
+        { session }
+    );
+    return counted.modifiedCount === 1 ? null : 'Coupon was fully redeemed';
+};
+
+export const couponDiscountFor = (coupon: ICoupon): CouponDiscount => ({
+    type: coupon.discountType,
+    value: coupon.discountValue,
+});
+
+/**
+ * A school's referral code, created the first time it is asked for.
+ * Codes start with the school's name so they are recognisable, e.g. "STMA-7KQ2".
+ */
+export const getReferralCode = async (schoolId: string): Promise<string> => {
+    const school = await School.findById(schoolId).select('name referralCode');
+    if (!school) throw new CouponError('School not found', 404);
+    if (school.referralCode) return school.referralCode;
+
+    const prefix = school.name.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 4) || 'SCH';
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const suffix = Array.from(crypto.randomBytes(4), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+        try {
+            const updated = await School.findOneAndUpdate(
+                { _id: schoolId, referralCode: { $exists: false } },
+                { referralCode: `${prefix}-${suffix}` },
+                { new: true }
+            );
+            // Set by a concurrent request
+            if (!updated) return (await School.findById(schoolId).select('referralCode'))!.referralCode!;
+            return updated.referralCode!;
+        } catch (error: any) {
+            if (error.code !== 11000) throw error;
+        }
+    }
+
+    throw new Error('Could not generate a unique referral code');
+};
+
+/**
+ * Record that a school was referred by the school owning `code`.
+ * Only allowed once, and only before the school's first purchase.
+ */
+export const applyReferralCode = async (schoolId: string, code: string) => {
+    const referrer = await School.findOne({ referralCode: normalizeCode(code) }).select('name isActive');
+    if (!referrer || !referrer.isActive) {
+        throw new CouponError('Referral code not found', 404);
+    }
+    if (String(referrer._id) === schoolId) {
+        throw new CouponError('A school cannot refer itself');
+    }
+
+    const purchased = await PaymentOrder.exists({ schoolId, creditedAt: { $exists: true } });
+    if (purchased) {
+        throw new CouponError('Referral codes can only be used before the first purchase', 409);
+    }
+
+    const school = await School.findOneAndUpdate(
+        { _id: schoolId, referredBy: { $exists: false } },
+        { referredBy: referrer._id },
+        { new: true }
+    );
+    if (!school) {
+        throw new CouponError('Your school has already used a referral code', 409);
+    }
+
+    return { school, referrer };
+};
+
+/**
+ * Redeem the codes behind a paid order, inside the transaction that credits it:
+ * count the coupon's use and credit its bonus coins, and on the school's first
+ * purchase reward the school that referred it. Ledger rows carry the code.
+ *
+ * A coupon that is over its limits by now pays no bonus; the order keeps the
+ * discount it was charged at and records why the coupon was refused.
+ * Returns the bonus coins credited and the ids of any other schools whose
+ * balance changed.
+ */
+export const redeemOrderCodes = async (
+    order: IPaymentOrder,
+    paymentId: string,
+    session: ClientSession
+): Promise<{ bonusCoins: number; rewardedSchoolIds: string[] }> => {
+    const schoolId = String(order.schoolId);
+    let bonusCoins = 0;
+
+    if (order.couponId) {
+        const rejectedReason = await claimCouponUse(order, session);
+
+        if (rejectedReason) {
+            console.warn(`Coupon ${order.couponCode} refused for order ${order.razorpayOrderId}: ${rejectedReason}`);
+            order.set({ bonusCoins: 0, couponRejectedReason: rejectedReason });
+            await PaymentOrder.updateOne(
+                { _id: order._id },
+                { $set: { bonusCoins: 0, couponRejectedReason: rejectedReason } },
+                { session }
+            );
+        } else if (order.bonusCoins > 0) {
+            bonusCoins = order.bonusCoins;
+            await applyCoinEntry(
+                schoolId,
+                {
+                    type: 'bonus',
+                    coins: order.bonusCoins,
+                    referenceId: paymentId,
+                    code: order.couponCode,
+                    description: `Bonus coins from coupon ${order.couponCode}`,
+                },
+                { session }
+            );
+        }
+    }
+
+    // Claimed once per school, so only the first purchase pays out
+    const referred = await School.findOneAndUpdate(
+        { _id: schoolId, referredBy: { $exists: true }, referralRewardedAt: { $exists: false } },
+        { referralRewardedAt: new Date() },
+        { new: true, session }
+    );
+    if (!referred) return { bonusCoins, rewardedSchoolIds: [] };
+
+    const config = await getPricingConfig();
+    const referrer = await School.findById(referred.referredBy).select('referralCode').session(session);
+    if (!referrer || config.referralReward <= 0) return { bonusCoins, rewardedSchoolIds: [] };
+
+    await applyCoinEntry(
+        String(referrer._id),
+        {
+            type: 'referral_reward',
+            coins: config.referralReward,
+            referenceId: paymentId,
+            code: referrer.referralCode,
+            description: `Referral reward: ${referred.name} made its first purchase`,
+        },
+        { session }
+    );
+
+    return { bonusCoins, rewardedSchoolIds: [String(referrer._id)] };
+};
@@ -0,0 +1,12 @@
+type CsvValue = string | number | undefined | null;
+
+const csvCell = (value: CsvValue): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV document from a header row and data rows.
+ */
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+    [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
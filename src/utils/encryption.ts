@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+const getKey = (): Buffer =>
+  crypto
+    .createHash('sha256')
+    .update(process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.JWT_SECRET || 'fallback_secret')
+    .digest();
+
+/**
+ * Encrypt a secret for storage. Output is "iv:authTag:ciphertext" in hex.
+ */
+export const encryptSecret = (plainText: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv.toString('hex'), authTag.toString('hex'), encrypted.toString('hex')].join(':');
+};
+
+/**
+ * Decrypt a value produced by encryptSecret.
+ */
+export const decryptSecret = (payload: string): string => {
+  const [ivHex, authTagHex, encryptedHex] = payload.split(':');
+  if (!ivHex || !authTagHex || !encryptedHex) {
+    throw new Error('Malformed encrypted secret');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encryptedHex, 'hex')),
+    decipher.final(),
+  ]).toString('utf8');
+};
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import bcrypt from 'bcryptjs';
+import Invitation, { IInvitation, InvitationRole } from '../models/Invitation';
+import School from '../models/School';
+import User, { IUser } from '../models/User';
+import mailer, { frontendUrl } from './mailer';
+import { hashToken } from './sessions';
+import { SchoolRole } from './schoolRoles';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Frontend page the link opens; it posts the token back with a name and password
+const ACCEPT_INVITATION_PATH = '/accept-invitation';
+
+const ROLE_LABELS: Record<InvitationRole, string> = {
+    admin: 'an administrator',
+    writer: 'a writer',
+    marketer: 'a marketer',
+    school: 'a school user',
+};
+
+const SCHOOL_ROLE_LABELS: Record<SchoolRole, string> = {
+    school_admin: 'a school admin',
+    editor: 'an editor',
+    contributor: 'a contributor',
+};
+
+/**
+ * Error raised when an invitation can't be created, resent, revoked or accepted.
+ * `status` is the HTTP status code to respond with.
+ */
+export class InvitationError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 400) {
+        super(message);
+        this.name = 'InvitationError';
+        this.status = status;
+    }
+}
+
+const newToken = () => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    return { token, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + INVITATION_TTL_MS) };
+};
+
+const sendInvitationEmail = async (invitation: IInvitation, token: string, inviterName: string): Promise<void> => {
+    const school = invitation.schoolId ? await School.findById(invitation.schoolId).select('name') : null;
+    const joining = school ? `${school.name} on SchoolChamps` : 'SchoolChamps';
+    const link = frontendUrl(`${ACCEPT_INVITATION_PATH}?token=${token}`);
+
+    await mailer.send({
+        to: invitation.email,
+        subject: `You're invited to join ${joining}`,
+        text: `${inviterName} has invited you to join ${joining} as `
+            + `${invitation.schoolRole ? SCHOOL_ROLE_LABELS[invitation.schoolRole] : ROLE_LABELS[invitation.role]}.\n\n`
+            + `Set up your account here:\n${link}\n\n`
+            + `The invitation expires on ${invitation.expiresAt.toISOString().slice(0, 10)}.`,
+    });
+};
+
+/**
+ * Invite someone to create an account. An earlier invitation still pending
+ * for the same email, role and school is revoked, so only the newest link
+ * works. Invitations from other schools or for other roles are left alone.
+ */
+export const createInvitation = async (
+    input: { email: string; role: InvitationRole; schoolId?: string; schoolRole?: SchoolRole },
+    inviter: IUser
+): Promise<IInvitation> => {
+    const email = input.email.trim().toLowerCase();
+
+    if (await User.exists({ email })) {
+        throw new InvitationError('A user with this email already exists', 409);
+    }
+
+    if (input.role === 'school') {
+        const school = input.schoolId ? await School.findById(input.schoolId).select('isActive') : null;
+        if (!school || !school.isActive) {
+            throw new InvitationError('School users must be invited to an active school');
+        }
+    }
+
+    await Invitation.updateMany(
+        {
+            email,
+            role: input.role,
+            schoolId: input.role === 'school' ? input.schoolId : { $exists: false },
+            acceptedAt: { $exists: false },
+            revokedAt: { $exists: false },
+        },
+        { revokedAt: new Date(), revokedBy: inviter._id }
+    );
+
+    const { token, tokenHash, expiresAt } = newToken();
+    const invitation = await Invitation.create({
+        email,
+        role: input.role,
+        schoolId: input.role === 'school' ? input.schoolId : undefined,
+        schoolRole: input.role === 'school' ? input.schoolRole || 'contributor' : undefined,
+        tokenHash,
+        invitedBy: inviter._id,
+        expiresAt,
+    });
+
+    await sendInvitationEmail(invitation, token, inviter.name);
+    return invitation;
+};
+
+/**
+ * Send a pending (or expired) invitation again with a new link and a fresh
+ * expiry. The old link stops working.
+ */
+export const resendInvitation = async (invitation: IInvitation, inviter: IUser): Promise<IInvitation> => {
+    if (invitation.acceptedAt || invitation.revokedAt) {
+        throw new InvitationError('Only pending invitations can be resent', 409);
+    }
+
+    const { token, tokenHash, expiresAt } = newToken();
+    invitation.tokenHash = tokenHash;
+    invitation.expiresAt = expiresAt;
+    invitation.sentCount += 1;
+    invitation.lastSentAt = new Date();
+    await invitation.save();
+
+    await sendInvitationEmail(invitation, token, inviter.name);
+    return invitation;
+};
+
+/**
+ * Withdraw an invitation so its link no longer works.
+ */
+export const revokeInvitation = async (invitation: IInvitation, revokedBy: string): Promise<IInvitation> => {
+    if (invitation.acceptedAt) {
+        throw new InvitationError('This invitation has already been accepted', 409);
+    }
+
+    if (!invitation.revokedAt) {
+        invitation.revokedAt = new Date();
+        invitation.revokedBy = new mongoose.Types.ObjectId(revokedBy);
+        await invitation.save();
+    }
+    return invitation;
+};
+
+/**
+ * The pending invitation a link points to, or null if it can't be used.
+ */
+export const findPendingInvitation = (token: string) =>
+    Invitation.findOne({
+        tokenHash: hashToken(token),
+        acceptedAt: { $exists: false },
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+    });
+
+/**
+ * Create the invited user's account. The invitation is claimed atomically,
+ * so a link can only ever create one account. The email address is treated
+ * as verified, since the invitation reached it.
+ */
+export const acceptInvitation = async (token: string, name: string, password: string): Promise<IUser> => {
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+        throw new InvitationError('This invitation is invalid or has expired');
+    }
+
+    if (await User.exists({ email: invitation.email })) {
+        throw new InvitationError('A user with this email already exists', 409);
+    }
+
+    const claimed = await Invitation.findOneAndUpdate(
+        { _id: invitation._id, tokenHash: invitation.tokenHash, acceptedAt: { $exists: false }, revokedAt: { $exists: false } },
+        { acceptedAt: new Date() },
+        { new: true }
+    );
+    if (!claimed) {
+        throw new InvitationError('This invitation is invalid or has expired');
+    }
+
+    const salt = await bcrypt.genSalt(10);
+    let user: IUser;
+    try {
+        user = await User.create({
+            name,
+            email: claimed.email,
+            password: await bcrypt.hash(password, salt),
+            role: claimed.role,
+            schoolId: claimed.role === 'school' ? claimed.schoolId : undefined,
+            schoolRole: claimed.role === 'school' ? claimed.schoolRole : undefined,
+            emailVerified: true,
+            emailVerifiedAt: new Date(),
+        });
+    } catch (error) {
+        // Leave the invitation usable if the account couldn't be created
+        await Invitation.updateOne({ _id: claimed._id }, { $unset: { acceptedAt: 1 } });
+        throw error;
+    }
+
+    claimed.acceptedUserId = new mongoose.Types.ObjectId(user.id);
+    await claimed.save();
+    return user;
+};
@@ -0,0 +1,337 @@
+import PDFDocument from 'pdfkit';
+import { ClientSession } from 'mongoose';
+import Counter from '../models/Counter';
+import Invoice, { IInvoice, IInvoiceLine, IInvoiceParty } from '../models/Invoice';
+import School from '../models/School';
+import { IPaymentOrder } from '../models/PaymentOrder';
+import { toCsv } from './csv';
+import { runInTransaction } from './coinService';
+
+// India Standard Time is UTC+5:30 all year
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Indian financial year (April to March) a date falls in, e.g. "2026-27".
+ * Worked out in IST, so the 31 March boundary doesn't depend on the server's time zone.
+ */
+export const financialYearFor = (date: Date): string => {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${String(startYear + 1).slice(-2)}`;
+};
+
+/**
+ * Seller details printed on every invoice, from the environment.
+ */
+const getSeller = (): IInvoiceParty => ({
+    name: process.env.INVOICE_SELLER_NAME || 'SchoolChamps',
+    address: process.env.INVOICE_SELLER_ADDRESS,
+    state: process.env.INVOICE_SELLER_STATE,
+    gstin: process.env.INVOICE_SELLER_GSTIN,
+    email: process.env.INVOICE_SELLER_EMAIL,
+});
+
+/**
+ * Intra-state supplies split GST into CGST and SGST; anything else is IGST.
+ * GSTIN state codes are compared when both sides have one, otherwise the
+ * state names. A buyer without a state is treated as local.
+ */
+const isIntraState = (seller: IInvoiceParty, billTo: IInvoiceParty): boolean => {
+    if (seller.gstin && billTo.gstin) {
+        return seller.gstin.slice(0, 2) === billTo.gstin.slice(0, 2);
+    }
+    if (!seller.state || !billTo.state) return true;
+    return seller.state.trim().toLowerCase() === billTo.state.trim().toLowerCase();
+};
+
+/**
+ * Next invoice number for a financial year. The counter is incremented
+ * atomically, so numbers are sequential and never handed out twice. Call it
+ * in the transaction that creates the invoice, so a failed create gives the
+ * number back instead of leaving a gap.
+ */
+const nextInvoiceNumber = async (
+    financialYear: string,
+    session: ClientSession
+): Promise<{ invoiceNumber: string; sequence: number }> => {
+    const counter = await Counter.findOneAndUpdate(
+        { key: `invoice:${financialYear}` },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true, session }
+    );
+
+    const prefix = process.env.INVOICE_PREFIX || 'SC';
+    return {
+        invoiceNumber: `${prefix}/${financialYear}/${String(counter.seq).padStart(6, '0')}`,
+        sequence: counter.seq,
+    };
+};
+
+/**
+ * Issue the tax invoice for a paid order. Safe to call more than once:
+ * an order only ever gets one invoice. The invoice number is allocated in
+ * the same transaction as the invoice, so GST serials have no gaps.
+ */
+export const issueInvoiceForOrder = async (order: IPaymentOrder): Promise<IInvoice> => {
+    try {
+        return await runInTransaction(session => createOrderInvoice(order, session));
+    } catch (error: any) {
+        // Issued concurrently for the same order; that transaction kept the number
+        if (error.code === 11000) {
+            const issued = await Invoice.findOne({ paymentOrderId: order._id });
+            if (issued) return issued;
+        }
+        throw error;
+    }
+};
+
+const createOrderInvoice = async (order: IPaymentOrder, session: ClientSession): Promise<IInvoice> => {
+    const existing = await Invoice.findOne({ paymentOrderId: order._id }).session(session);
+    if (existing) return existing;
+
+    const school = await School.findById(order.schoolId).session(session);
+    if (!school) {
+        throw new Error('School not found for payment order');
+    }
+
+    // Orders created before pricing breakdowns were stored are billed as a flat amount
+    const breakdown = order.breakdown || {
+        base: order.amount,
+        discount: 0,
+        couponDiscount: 0,
+        subtotal: order.amount,
+        platformFee: 0,
+        gst: 0,
+        rounding: 0,
+        total: order.amount,
+        discountPercent: 0,
+        platformFeePercent: 0,
+        gstPercent: 0,
+    };
+
+    const seller = getSeller();
+    const billTo: IInvoiceParty = {
+        name: school.billingName || school.name,
+        address: school.address,
+        city: school.city,
+        state: school.state,
+        pincode: school.pincode,
+        gstin: school.gstin,
+        email: school.contactEmail,
+    };
+
+    const lines: IInvoiceLine[] = [
+        { description: `${order.packName || 'Credit pack'} (${order.coins} coins)`, amount: breakdown.base, taxable: false },
+    ];
+    if (breakdown.discount > 0) {
+        lines.push({ description: `Discount (${breakdown.discountPercent}%)`, amount: -breakdown.discount, taxable: false });
+    }
+    if (breakdown.couponDiscount > 0) {
+        lines.push({ description: `Coupon ${order.couponCode}`, amount: -breakdown.couponDiscount, taxable: false });
+    }
+    if (breakdown.platformFee > 0) {
+        lines.push({ description: `Platform fee (${breakdown.platformFeePercent}%)`, amount: breakdown.platformFee, taxable: true });
+    }
+    // Orders from before rounding was stored have none
+    const rounding = breakdown.rounding || 0;
+    if (rounding > 0) {
+        lines.push({ description: 'Rounding', amount: rounding, taxable: false });
+    }
+
+    const intraState = isIntraState(seller, billTo);
+    const cgst = intraState ? Math.floor(breakdown.gst / 2) : 0;
+    const sgst = intraState ? breakdown.gst - cgst : 0;
+    const igst = intraState ? 0 : breakdown.gst;
+
+    const issuedAt = order.creditedAt || new Date();
+    const financialYear = financialYearFor(issuedAt);
+    const { invoiceNumber, sequence } = await nextInvoiceNumber(financialYear, session);
+
+    const [invoice] = await Invoice.create(
+        [{
+            invoiceNumber,
+            financialYear,
+            sequence,
+            schoolId: order.schoolId,
+            paymentOrderId: order._id,
+            razorpayPaymentId: order.razorpayPaymentId,
+            issuedAt,
+            seller,
+            billTo,
+            supplyType: intraState ? 'intra_state' : 'inter_state',
+            lines,
+            coins: order.coins + (order.bonusCoins || 0),
+            subtotal: breakdown.subtotal + breakdown.platformFee + rounding,
+            taxableValue: breakdown.platformFee,
+            gstPercent: breakdown.gstPercent,
+            cgst,
+            sgst,
+            igst,
+            total: breakdown.total,
+        }],
+        { session }
+    );
+    return invoice;
+};
+
+/**
+ * Format paise as rupees, e.g. 123456 -> "INR 1,234.56".
+ */
+export const formatAmount = (paise: number): string =>
+    `INR ${(paise / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+const partyLines = (party: IInvoiceParty): string[] => [
+    party.name,
+    party.address,
+    [party.city, party.state, party.pincode].filter(Boolean).join(', '),
+    party.gstin ? `GSTIN: ${party.gstin}` : undefined,
+    party.email,
+].filter((line): line is string => Boolean(line));
+
+/**
+ * Tax rows shown under the line items: CGST + SGST or IGST.
+ */
+const taxRows = (invoice: IInvoice): Array<[string, number]> =>
+    invoice.supplyType === 'intra_state'
+        ? [
+            [`CGST (${invoice.gstPercent / 2}%)`, invoice.cgst],
+            [`SGST (${invoice.gstPercent / 2}%)`, invoice.sgst],
+        ]
+        : [[`IGST (${invoice.gstPercent}%)`, invoice.igst]];
+
+/**
+ * Render an invoice as a standalone HTML page.
+ */
+export const renderInvoiceHtml = (invoice: IInvoice): string => {
+    const party = (label: string, p: IInvoiceParty) => `
+        <div class="party">
+          <h3>${label}</h3>
+          ${partyLines(p).map(line => `<div>${escapeHtml(line)}</div>`).join('')}
+        </div>`;
+
+    const row = (label: string, amount: number, className = '') =>
+        `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${formatAmount(amount)}</td></tr>`;
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Tax Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+    <style>
+      body { font-family: sans-serif; color: #222; max-width: 760px; margin: 40px auto; }
+      .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+      table { width: 100%; border-collapse: collapse; }
+      td, th { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+      .amount { text-align: right; }
+      .total td { font-weight: bold; border-top: 2px solid #222; }
+      .muted { color: #666; font-size: 12px; }
+    </style>
+  </head>
+  <body>
+    <h1>Tax Invoice</h1>
+    <div>Invoice No: <strong>${escapeHtml(invoice.invoiceNumber)}</strong></div>
+    <div>Date: ${invoice.issuedAt.toISOString().slice(0, 10)}</div>
+    ${invoice.razorpayPaymentId ? `<div>Payment ID: ${escapeHtml(invoice.razorpayPaymentId)}</div>` : ''}
+    <div class="parties">
+      ${party('Sold by', invoice.seller)}
+      ${party('Billed to', invoice.billTo)}
+    </div>
+    <table>
+      <thead><tr><th>Description</th><th class="amount">Amount</th></tr></thead>
+      <tbody>
+        ${invoice.lines.map(line => row(line.description, line.amount)).join('\n        ')}
+        ${row('Taxable value', invoice.taxableValue)}
+        ${taxRows(invoice).map(([label, amount]) => row(label, amount)).join('\n        ')}
+        ${row('Total', invoice.total, 'total')}
+      </tbody>
+    </table>
+    <p class="muted">GST is charged on the platform fee only. ${invoice.coins} coins were credited to the school's account.</p>
+  </body>
+</html>`;
+};
+
+/**
+ * Render an invoice as a PDF.
+ */
+export const renderInvoicePdf = (invoice: IInvoice): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 50 });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        doc.fontSize(20).text('Tax Invoice');
+        doc.moveDown(0.5).fontSize(10);
+        doc.text(`Invoice No: ${invoice.invoiceNumber}`);
+        doc.text(`Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`);
+        if (invoice.razorpayPaymentId) doc.text(`Payment ID: ${invoice.razorpayPaymentId}`);
+
+        const partiesTop = doc.y + 20;
+        doc.font('Helvetica-Bold').text('Sold by', 50, partiesTop);
+        doc.font('Helvetica').text(partyLines(invoice.seller).join('\n'), 50, partiesTop + 15, { width: 230 });
+        doc.font('Helvetica-Bold').text('Billed to', 320, partiesTop);
+        doc.font('Helvetica').text(partyLines(invoice.billTo).join('\n'), 320, partiesTop + 15, { width: 230 });
+
+        let y = Math.max(doc.y, partiesTop + 90) + 20;
+        const row = (label: string, amount: number, bold = false) => {
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+            doc.text(label, 50, y, { width: 350 });
+            doc.text(formatAmount(amount), 400, y, { width: 145, align: 'right' });
+            y += 20;
+        };
+
+        doc.font('Helvetica-Bold').text('Description', 50, y).text('Amount', 400, y, { width: 145, align: 'right' });
+        y += 20;
+        invoice.lines.forEach(line => row(line.description, line.amount));
+        row('Taxable value', invoice.taxableValue);
+        taxRows(invoice).forEach(([label, amount]) => row(label, amount));
+        doc.moveTo(50, y - 4).lineTo(545, y - 4).stroke();
+        row('Total', invoice.total, true);
+
+        doc.font('Helvetica').fontSize(8).fillColor('#666').text(
+            `GST is charged on the platform fee only. ${invoice.coins} coins were credited to the school's account.`,
+            50,
+            y + 20
+        );
+
+        doc.end();
+    });
+
+/**
+ * Invoices as CSV, one row per invoice, amounts in rupees.
+ */
+export const invoicesToCsv = (invoices: IInvoice[]): string => {
+    const rupees = (paise: number) => (paise / 100).toFixed(2);
+    const header = [
+        'Invoice No', 'Date', 'School', 'GSTIN', 'State', 'Supply Type', 'Coins',
+        'Taxable Value', 'CGST', 'SGST', 'IGST', 'Total', 'Payment ID',
+    ];
+
+    const rows = invoices.map(invoice => [
+        invoice.invoiceNumber,
+        invoice.issuedAt.toISOString().slice(0, 10),
+        invoice.billTo.name,
+        invoice.billTo.gstin,
+        invoice.billTo.state,
+        invoice.supplyType,
+        invoice.coins,
+        rupees(invoice.taxableValue),
+        rupees(invoice.cgst),
+        rupees(invoice.sgst),
+        rupees(invoice.igst),
+        rupees(invoice.total),
+        invoice.razorpayPaymentId,
+    ]);
+
+    return toCsv(header, rows);
+};
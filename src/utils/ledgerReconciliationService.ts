@@ -0,0 +1,62 @@
+import * as cron from 'node-cron';
+import { reconcileLedger, LedgerMismatch } from './coinService';
+
+/**
+ * Ledger Reconciliation Service
+ * Runs daily at 4:00 AM and reports every school whose coin balance does
+ * not match the sum of its Transaction rows (less open publish reservations).
+ * The result of the last run is kept for the admin reconciliation endpoint.
+ */
+class LedgerReconciliationService {
+    private job: cron.ScheduledTask | null = null;
+    lastRun: { ranAt: Date; checked: number; mismatches: LedgerMismatch[] } | null = null;
+
+    /**
+     * Start the daily cron job.
+     */
+    start() {
+        // Run every day at 4:00 AM
+        this.job = cron.schedule('0 4 * * *', async () => {
+            console.log('🔄 [LedgerReconciliation] Checking coin balances against the ledger...');
+            await this.run();
+        });
+
+        console.log('✅ [LedgerReconciliation] Cron job scheduled: daily at 4:00 AM');
+    }
+
+    /**
+     * Stop the cron job.
+     */
+    stop() {
+        if (this.job) {
+            this.job.stop();
+            console.log('⏹️ [LedgerReconciliation] Cron job stopped.');
+        }
+    }
+
+    /**
+     * Reconcile every school. Can be called manually for testing.
+     */
+    async run() {
+        try {
+            const report = await reconcileLedger();
+            this.lastRun = { ranAt: new Date(), ...report };
+
+            if (report.mismatches.length === 0) {
+                console.log(`✅ [LedgerReconciliation] ${report.checked} schools checked, all balances match`);
+                return;
+            }
+
+            for (const mismatch of report.mismatches) {
+                console.warn(
+                    `⚠️ [LedgerReconciliation] ${mismatch.name} (${mismatch.schoolId}): balance ${mismatch.balance}, ` +
+                    `ledger ${mismatch.ledgerBalance}, held ${mismatch.heldCoins}, off by ${mismatch.difference}`
+                );
+            }
+        } catch (error: any) {
+            console.error('❌ [LedgerReconciliation] Error:', error.message);
+        }
+    }
+}
+
+export default new LedgerReconciliationService();
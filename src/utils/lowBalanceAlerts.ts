@@ -0,0 +1,135 @@
+import School from '../models/School';
+import User from '../models/User';
+import mailer, { frontendUrl } from './mailer';
+import { notifyUsers } from './notifications';
+import { getPricingConfig, getPackQuotes, resolveActionPricing } from './pricing';
+import { formatAmount } from './invoices';
+
+// Frontend pages the alerts link to
+const RECHARGE_PATH = '/wallet/recharge';
+const BLOCKED_SCHOOLS_PATH = '/admin/schools?blocked=true';
+
+/**
+ * Alert a school's users when its balance is below the low balance
+ * threshold (the school's own, or the platform default; 0 turns alerts off).
+ *
+ * Called after every balance change. An alert is sent once per dip: the
+ * `lowBalanceNotifiedAt` claim stops repeats and is cleared once the balance
+ * is back above the threshold. Never throws, so it can't fail the caller.
+ */
+export const checkLowBalance = async (schoolId: string): Promise<void> => {
+    try {
+        const [school, config] = await Promise.all([
+            School.findById(schoolId).select('name coins pricingOverride lowBalanceThreshold lowBalanceNotifiedAt'),
+            getPricingConfig(),
+        ]);
+        if (!school) return;
+
+        const threshold = school.lowBalanceThreshold ?? config.lowBalanceThreshold;
+
+        if (school.coins >= threshold) {
+            if (school.lowBalanceNotifiedAt) {
+                await School.updateOne({ _id: school._id }, { $unset: { lowBalanceNotifiedAt: 1 } });
+            }
+            return;
+        }
+
+        const claimed = await School.findOneAndUpdate(
+            { _id: school._id, lowBalanceNotifiedAt: { $exists: false } },
+            { lowBalanceNotifiedAt: new Date() }
+        );
+        if (!claimed) return;
+
+        // Suggest the smallest pack that lifts the balance back over the threshold
+        const packs = getPackQuotes(config, school);
+        const pack = packs.find(p => school.coins + p.coins >= threshold) || packs[packs.length - 1];
+        const rechargePath = pack ? `${RECHARGE_PATH}?packId=${pack._id}` : RECHARGE_PATH;
+
+        const { cost } = resolveActionPricing(config, 'publish', school);
+        const blocked = school.coins < cost;
+        const message = blocked
+            ? `${school.name} has ${school.coins} coins left, not enough to publish a post (${cost} coins).`
+            : `${school.name} has ${school.coins} coins left, below your alert level of ${threshold}.`;
+
+        const users = await User.find({ schoolId: school._id, role: 'school', isActive: true }).select('email');
+
+        await notifyUsers(users.map(u => String(u._id)), {
+            type: 'low_balance',
+            title: blocked ? 'Out of coins' : 'Coin balance is low',
+            message,
+            link: rechargePath,
+            data: { coins: school.coins, threshold, publishCost: cost, packId: pack?._id },
+        });
+
+        if (users.length > 0) {
+            const packLine = pack
+                ? `Recharge with ${pack.name} (${pack.coins} coins for ${formatAmount(pack.breakdown.total)}): ${frontendUrl(rechargePath)}`
+                : `Recharge: ${frontendUrl(rechargePath)}`;
+
+            await mailer.send({
+                to: users.map(u => u.email),
+                subject: blocked ? `${school.name} is out of coins` : `${school.name}: coin balance is low`,
+                text: `${message}\n\n${packLine}`,
+            });
+        }
+    } catch (error: any) {
+        console.error(`❌ Low balance check failed for school ${schoolId}:`, error.message);
+    }
+};
+
+export interface BlockedSchool {
+    schoolId: string;
+    name: string;
+    coins: number;
+    contactEmail: string;
+    publishCost: number;
+}
+
+/**
+ * Active schools that cannot afford to publish a post right now.
+ */
+export const getBlockedSchools = async (): Promise<BlockedSchool[]> => {
+    const config = await getPricingConfig();
+    const schools = await School.find({ isActive: true }).select('name coins contactEmail pricingOverride').sort({ coins: 1 });
+
+    return schools
+        .map(school => ({
+            schoolId: String(school._id),
+            name: school.name,
+            coins: school.coins,
+            contactEmail: school.contactEmail,
+            publishCost: resolveActionPricing(config, 'publish', school).cost,
+        }))
+        .filter(school => school.coins < school.publishCost);
+};
+
+/**
+ * Email and notify admins with the list of schools blocked from publishing.
+ * Nothing is sent when no school is blocked.
+ */
+export const sendBlockedSchoolsDigest = async (): Promise<number> => {
+    const blocked = await getBlockedSchools();
+    if (blocked.length === 0) return 0;
+
+    const admins = await User.find({ role: 'admin', isActive: true }).select('email');
+    const lines = blocked.map(s => `- ${s.name}: ${s.coins} coins (needs ${s.publishCost})`);
+    const title = `${blocked.length} school${blocked.length === 1 ? ' is' : 's are'} blocked from publishing`;
+
+    await notifyUsers(admins.map(a => String(a._id)), {
+        type: 'blocked_schools_digest',
+        title,
+        message: lines.join('\n'),
+        link: BLOCKED_SCHOOLS_PATH,
+        data: { schoolIds: blocked.map(s => s.schoolId) },
+    });
+
+    if (admins.length > 0) {
+        await mailer.send({
+            to: admins.map(a => a.email),
+            subject: title,
+            text: `${title}:\n\n${lines.join('\n')}\n\n${frontendUrl(BLOCKED_SCHOOLS_PATH)}`,
+        });
+    }
+
+    return blocked.length;
+};
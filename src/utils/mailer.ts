@@ -0,0 +1,91 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+    to: string | string[];
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export type MailTransportName = 'smtp' | 'log';
+
+/**
+ * Absolute link to a page of the frontend, for use in emails.
+ */
+export const frontendUrl = (path: string): string => `${process.env.FRONTEND_URL || 'http://localhost:3000'}${path}`;
+
+/**
+ * Mailer
+ * The transport is chosen by MAIL_TRANSPORT:
+ * - `smtp`: any SMTP server, including a local sink such as MailHog or
+ *   smtp4dev for testing (SMTP_HOST=localhost, SMTP_PORT=1025, no auth)
+ * - `log`: nothing is sent, messages are only logged
+ * When unset it is `smtp` if SMTP_HOST is set and `log` otherwise.
+ * Any other nodemailer transport can be plugged in with `setTransport`.
+ */
+class Mailer {
+    private transporter: Transporter | null = null;
+    private transportName: MailTransportName | 'custom' = 'log';
+
+    private createTransport(): Transporter {
+        const name = (process.env.MAIL_TRANSPORT as MailTransportName) || (process.env.SMTP_HOST ? 'smtp' : 'log');
+
+        if (name === 'smtp') {
+            this.transportName = 'smtp';
+            return nodemailer.createTransport({
+                host: process.env.SMTP_HOST || 'localhost',
+                port: parseInt(process.env.SMTP_PORT || '587'),
+                secure: process.env.SMTP_SECURE === 'true',
+                // Local sinks rarely speak TLS
+                ignoreTLS: process.env.SMTP_IGNORE_TLS === 'true',
+                auth: process.env.SMTP_USER
+                    ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+                    : undefined,
+            });
+        }
+
+        this.transportName = 'log';
+        return nodemailer.createTransport({ jsonTransport: true });
+    }
+
+    private getTransporter(): Transporter {
+        if (!this.transporter) {
+            this.transporter = this.createTransport();
+        }
+        return this.transporter;
+    }
+
+    /**
+     * Replace the transport, e.g. with a stream or test transport.
+     * Pass null to go back to the one configured by the environment.
+     */
+    setTransport(transporter: Transporter | null) {
+        this.transporter = transporter;
+        this.transportName = 'custom';
+    }
+
+    /**
+     * Send a message. Failures are logged, never thrown: mail is a side
+     * effect and must not fail the request that triggered it.
+     */
+    async send(message: MailMessage): Promise<boolean> {
+        try {
+            await this.getTransporter().sendMail({
+                from: process.env.MAIL_FROM || 'SchoolChamps <no-reply@schoolchamps.in>',
+                ...message,
+            });
+
+            if (this.transportName === 'log') {
+                // The body can hold sign-in links, so it stays out of production logs
+                const body = process.env.NODE_ENV === 'production' ? '' : `\n${message.text}`;
+                console.log(`✉️ [Mailer] (not sent, log transport) to ${message.to}: ${message.subject}${body}`);
+            }
+            return true;
+        } catch (error: any) {
+            console.error(`❌ [Mailer] Failed to send "${message.subject}":`, error.message);
+            return false;
+        }
+    }
+}
+
+export default new Mailer();
@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+import Notification, { NotificationType } from '../models/Notification';
+
+export interface NotificationContent {
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string;
+    data?: Record<string, any>;
+}
+
+/**
+ * Create the same in-app notification for each user.
+ */
+export const notifyUsers = async (
+    userIds: Array<string | mongoose.Types.ObjectId>,
+    content: NotificationContent
+): Promise<void> => {
+    if (userIds.length === 0) return;
+    await Notification.insertMany(userIds.map(userId => ({ userId, ...content })));
+};
@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import { ClientSession } from 'mongoose';
+import Razorpay from 'razorpay';
+import PaymentOrder, { IPaymentOrder } from '../models/PaymentOrder';
+import { issueInvoiceForOrder } from './invoices';
+import { applyCoinEntry, runInTransaction, CoinError } from './coinService';
+import { checkLowBalance } from './lowBalanceAlerts';
+import { redeemOrderCodes } from './coupons';
+
+// Note: In production, these should be handled securely.
+export const razorpay = new Razorpay({
+    key_id: process.env.RAZORPAY_KEY_ID || '',
+    key_secret: process.env.RAZORPAY_KEY_SECRET || '',
+});
+
+// Marks refunds made through the admin API, whose coins are taken back up front
+const ADMIN_REFUND_SOURCE = 'admin';
+
+/**
+ * Error raised when a payment cannot be credited or refunded.
+ * `status` is the HTTP status code to respond with.
+ */
+export class PaymentError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 400) {
+        super(message);
+        this.name = 'PaymentError';
+        this.status = status;
+    }
+}
+
+/**
+ * Constant-time comparison of a hex HMAC-SHA256 signature.
+ */
+export const verifyHmacSignature = (payload: string | Buffer, signature: string | undefined, secret: string): boolean => {
+    if (!signature || !secret) return false;
+
+    const expected = crypto.createHmac('sha256', secret).update(payload).digest('hex');
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+
+    return expectedBuffer.length === signatureBuffer.length
+        && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+};
+
+/**
+ * Mark an order paid and credit its coins to the school.
+ *
+ * The browser callback and the webhook can both arrive for the same
+ * payment; the conditional update on `creditedAt` lets only the first one
+ * through, so the coins are credited exactly once. Coupon bonus coins and
+ * referral rewards are credited in the same transaction.
+ * Returns the order and whether this call did the crediting.
+ */
+export const creditPaymentOrder = async (
+    order: IPaymentOrder,
+    paymentId: string,
+    via: 'verify' | 'webhook'
+): Promise<{ order: IPaymentOrder; credited: boolean; coins?: number }> => {
+    let result: { claimed: IPaymentOrder; balance: number; rewardedSchoolIds: string[] } | null;
+    try {
+        // Claiming the order, crediting the school and the ledger row commit together
+        result = await runInTransaction(async session => {
+            // Orders held for an amount mismatch are only settled by an admin
+            const claimed = await PaymentOrder.findOneAndUpdate(
+                { _id: order._id, creditedAt: { $exists: false }, status: { $ne: 'amount_mismatch' } },
+                {
+                    $set: {
+                        status: 'paid',
+                        razorpayPaymentId: paymentId,
+                        creditedAt: new Date(),
+                        creditedVia: via,
+                    },
+                    $unset: { failureReason: 1 },
+                },
+                { new: true, session }
+            );
+
+            if (!claimed) return null;
+
+            const { school } = await applyCoinEntry(
+                String(claimed.schoolId),
+                {
+                    type: 'purchase',
+                    coins: claimed.coins,
+                    amount: claimed.baseAmount,
+                    referenceId: paymentId,
+                    code: claimed.couponCode,
+                    description: `Credit purchase via Razorpay (${via})`,
+                },
+                { session }
+            );
+
+            const { bonusCoins, rewardedSchoolIds } = await redeemOrderCodes(claimed, paymentId, session);
+            const balance = school.coins + bonusCoins;
+
+            return { claimed, balance, rewardedSchoolIds };
+        });
+    } catch (error: any) {
+        // Duplicate key: this payment was already credited through another order.
+        // The transaction undid the claim, so only the failure is left to record
+        if (error.code === 11000) {
+            await PaymentOrder.findOneAndUpdate(
+                { _id: order._id, creditedAt: { $exists: false } },
+                { status: 'failed', failureReason: 'Payment already credited' }
+            );
+            throw new PaymentError('This payment has already been credited', 409);
+        }
+        throw error;
+    }
+
+    if (!result) {
+        const current = await PaymentOrder.findById(order._id);
+        return { order: current || order, credited: false };
+    }
+
+    const { claimed, balance, rewardedSchoolIds } = result;
+    void checkLowBalance(String(claimed.schoolId));
+    rewardedSchoolIds.forEach(id => void checkLowBalance(id));
+    console.log(`✅ Payment order ${claimed.razorpayOrderId} credited ${claimed.coins + claimed.bonusCoins} coins via ${via}`);
+
+    // The coins are already credited; a failed invoice is logged rather than failing the payment
+    try {
+        await issueInvoiceForOrder(claimed);
+    } catch (error) {
+        console.error(`Failed to issue invoice for order ${claimed.razorpayOrderId}:`, error);
+    }
+
+    return { order: claimed, credited: true, coins: balance };
+};
+
+/**
+ * Hold an order whose captured amount differs from what was ordered. The
+ * coins are not credited; the order shows up for admins to settle by hand.
+ */
+export const flagAmountMismatch = async (order: IPaymentOrder, paymentId: string, capturedAmount: number) =>
+    PaymentOrder.findOneAndUpdate(
+        { _id: order._id, creditedAt: { $exists: false } },
+        {
+            status: 'amount_mismatch',
+            razorpayPaymentId: paymentId,
+            capturedAmount,
+            failureReason: `Captured ${capturedAmount} paise, expected ${order.amount}`,
+        },
+        { new: true }
+    );
+
+/**
+ * Record a failed payment attempt. A paid order is never moved back.
+ */
+export const markPaymentOrderFailed = async (razorpayOrderId: string, paymentId: string, reason?: string) =>
+    PaymentOrder.findOneAndUpdate(
+        { razorpayOrderId, creditedAt: { $exists: false } },
+        {
+            status: 'failed',
+            razorpayPaymentId: paymentId,
+            failureReason: reason || 'Payment failed',
+        },
+        { new: true }
+    );
+
+/**
+ * Coins to take back when refunding `amount` paise of an order, coupon bonus
+ * included. Partial refunds are proportional; the refund that completes the
+ * order takes whatever is left, so rounding never strands coins.
+ */
+export const coinsForRefund = (order: IPaymentOrder, amount: number): number => {
+    const coins = order.coins + (order.bonusCoins || 0);
+    const remainingCoins = coins - (order.refundedCoins || 0);
+    if (order.refundedAmount + amount >= order.amount) return remainingCoins;
+    return Math.min(Math.round((coins * amount) / order.amount), remainingCoins);
+};
+
+/**
+ * Apply a processed refund to the order it belongs to. Each refund ID is
+ * applied once, so a redelivered webhook changes nothing.
+ * Returns null if the refund was already applied (or the order is unknown).
+ */
+export const recordPaymentOrderRefund = async (
+    paymentId: string,
+    refundId: string,
+    amount: number,
+    coins: number = 0,
+    session?: ClientSession
+) => {
+    const order = await PaymentOrder.findOneAndUpdate(
+        { razorpayPaymentId: paymentId, refundIds: { $ne: refundId } },
+        { $push: { refundIds: refundId }, $inc: { refundedAmount: amount, refundedCoins: coins } },
+        { new: true, session }
+    );
+
+    if (!order) return null;
+
+    order.status = order.refundedAmount >= order.amount ? 'refunded' : 'partially_refunded';
+    await order.save();
+    return order;
+};
+
+/**
+ * Refund all or part of a paid order through Razorpay and take the matching
+ * coins back from the school.
+ *
+ * The coins are debited before Razorpay is called, so they cannot be spent
+ * while the refund is in flight, and are returned if Razorpay rejects it.
+ * Refunds the school has already spent the coins for are refused.
+ */
+export const refundPaymentOrder = async (
+    order: IPaymentOrder,
+    amount: number,
+    reason: string,
+    adminId: string
+) => {
+    if (!order.creditedAt || !order.razorpayPaymentId) {
+        throw new PaymentError('Only paid orders can be refunded');
+    }
+
+    const refundable = order.amount - order.refundedAmount;
+    if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+        throw new PaymentError(`Refund amount must be between 1 and ${refundable} paise`);
+    }
+
+    const coins = coinsForRefund(order, amount);
+    const schoolId = String(order.schoolId);
+
+    let debit;
+    try {
+        debit = await applyCoinEntry(schoolId, {
+            type: 'refund',
+            coins,
+            referenceId: order.razorpayOrderId,
+            description: `Refund for order ${order.razorpayOrderId}: ${reason}`,
+            createdBy: adminId,
+        });
+    } catch (error) {
+        if (error instanceof CoinError && error.status === 400) {
+            throw new PaymentError(`The school no longer has the ${coins} coins this refund would take back`, 409);
+        }
+        throw error;
+    }
+
+    let refund;
+    try {
+        refund = await razorpay.payments.refund(order.razorpayPaymentId, {
+            amount,
+            notes: { reason, source: ADMIN_REFUND_SOURCE, coins: String(coins) },
+        });
+    } catch (error: any) {
+        await applyCoinEntry(schoolId, {
+            type: 'adjustment_credit',
+            coins,
+            referenceId: order.razorpayOrderId,
+            description: `Refund for order ${order.razorpayOrderId} rejected by Razorpay; coins returned`,
+            createdBy: adminId,
+        });
+        throw new PaymentError(`Razorpay refund failed: ${error.error?.description || error.message}`, 502);
+    }
+
+    // Only a refund Razorpay accepted counts against revenue
+    debit.transaction.referenceId = refund.id;
+    debit.transaction.amount = amount / 100;
+    await debit.transaction.save();
+
+    // The refund.processed webhook may have recorded it already; either way it is applied once
+    const updated = await recordPaymentOrderRefund(order.razorpayPaymentId, refund.id, amount, coins);
+
+    console.log(`↩️ Refunded ${amount} paise of order ${order.razorpayOrderId}, took back ${coins} coins`);
+    return {
+        order: updated || (await PaymentOrder.findById(order._id)) || order,
+        refund,
+        coins,
+        balance: debit.school.coins,
+    };
+};
+
+/**
+ * Apply a refund.processed webhook.
+ *
+ * Refunds made through the admin API already took their coins back, so
+ * only the order is updated. Refunds made elsewhere (e.g. the Razorpay
+ * dashboard) take the coins back here; as the money has already gone,
+ * the balance is reduced as far as zero rather than refused.
+ */
+export const applyRazorpayRefund = async (refund: {
+    id: string;
+    payment_id: string;
+    amount: number;
+    notes?: Record<string, string>;
+}) => {
+    if (refund.notes?.source === ADMIN_REFUND_SOURCE) {
+        return recordPaymentOrderRefund(refund.payment_id, refund.id, refund.amount, Number(refund.notes.coins) || 0);
+    }
+
+    const order = await PaymentOrder.findOne({ razorpayPaymentId: refund.payment_id });
+    if (!order) return null;
+
+    const coins = coinsForRefund(order, refund.amount);
+
+    const updated = await runInTransaction(async session => {
+        const updated = await recordPaymentOrderRefund(refund.payment_id, refund.id, refund.amount, coins, session);
+        if (!updated || coins <= 0) return updated;
+
+        const { transaction } = await applyCoinEntry(
+            String(order.schoolId),
+            {
+                type: 'refund',
+                coins,
+                amount: refund.amount / 100,
+                referenceId: refund.id,
+                description: `Refund for order ${order.razorpayOrderId} (made outside the admin panel)`,
+            },
+            { session, clampToBalance: true }
+        );
+
+        if (transaction.coins < coins) {
+            console.warn(`⚠️ Refund ${refund.id}: school ${order.schoolId} only had ${transaction.coins} of ${coins} coins to take back`);
+        }
+        return updated;
+    });
+
+    void checkLowBalance(String(order.schoolId));
+    return updated;
+};
@@ -0,0 +1,253 @@
+import { IUser } from '../models/User';
+import { SchoolRole, SCHOOL_ROLES, DEFAULT_SCHOOL_ROLE } from './schoolRoles';
+
+/**
+ * Central registry of what each role may do. Routes ask for a permission
+ * through `can()` (middleware) or `hasPermission()` instead of listing roles.
+ *
+ * A role holds a permission on `any` record, or only on records that belong
+ * to its own school (`own_school`). School users are further narrowed by
+ * their school role.
+ */
+
+export type UserRole = IUser['role'];
+
+export const ROLES: UserRole[] = ['admin', 'writer', 'marketer', 'school'];
+
+export type PermissionScope = 'any' | 'own_school';
+
+interface PermissionRule {
+  description: string;
+  roles: Partial<Record<UserRole, PermissionScope>>;
+  // School roles that get the permission when `school` is granted; all of them when omitted
+  schoolRoles?: SchoolRole[];
+}
+
+const SCHOOL_MANAGERS: SchoolRole[] = ['school_admin', 'editor'];
+const SCHOOL_ADMINS: SchoolRole[] = ['school_admin'];
+
+const PERMISSIONS = {
+  // Blogs
+  'blog.read': {
+    description: 'View posts, their history and revisions',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+  },
+  'blog.create': {
+    description: 'Generate AI drafts from submissions',
+    roles: { admin: 'any', writer: 'any' },
+  },
+  'blog.edit': {
+    description: 'Edit post content, images and restore revisions',
+    roles: { admin: 'any', writer: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_MANAGERS,
+  },
+  'blog.manage': {
+    description: 'Use the editorial dashboard, assign posts to schools and move them through the workflow',
+    roles: { admin: 'any', writer: 'any' },
+  },
+  'blog.review': {
+    description: 'Review assigned posts and send them back for changes',
+    roles: { admin: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_MANAGERS,
+  },
+  'blog.approve': {
+    description: 'Approve or reject posts',
+    roles: { admin: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_MANAGERS,
+  },
+  'blog.publish': {
+    description: 'Publish, update and unpublish posts on WordPress',
+    roles: { admin: 'any', writer: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_MANAGERS,
+  },
+  'blog.delete': {
+    description: 'Delete posts',
+    roles: { admin: 'any' },
+  },
+  'media.upload': {
+    description: 'Upload media to WordPress',
+    roles: { admin: 'any', writer: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_MANAGERS,
+  },
+
+  // Submissions
+  'submission.create': {
+    description: 'Send topics and material for posts',
+    roles: { admin: 'any', school: 'own_school' },
+  },
+  'submission.read': {
+    description: 'View submissions',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+  },
+  'submission.update': {
+    description: 'Change the status and assignee of submissions',
+    roles: { admin: 'any', writer: 'any' },
+  },
+  'submission.delete': {
+    description: 'Delete submissions',
+    roles: { admin: 'any' },
+  },
+
+  // Comments
+  'comment.participate': {
+    description: 'Read and write comments on posts and submissions',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+  },
+  'comment.moderate': {
+    description: "Delete other people's comments",
+    roles: { admin: 'any' },
+  },
+
+  // Social media
+  'social.read': {
+    description: 'View social posts',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+  },
+  'social.generate': {
+    description: 'Generate social captions for posts',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+  },
+  'social.publish': {
+    description: 'Publish, schedule, retry and delete social posts',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_MANAGERS,
+  },
+  'social.manage_accounts': {
+    description: 'Connect the central social media accounts',
+    roles: { admin: 'any' },
+  },
+
+  // Schools
+  'school.read': {
+    description: 'View school profiles',
+    roles: { admin: 'any', writer: 'any', marketer: 'any', school: 'own_school' },
+  },
+  'school.manage': {
+    description: 'Create, update and delete schools',
+    roles: { admin: 'any' },
+  },
+  'school.manage_settings': {
+    description: 'Connect WordPress and social accounts, set balance alerts',
+    roles: { admin: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_ADMINS,
+  },
+  'school.manage_staff': {
+    description: 'Invite staff and change their school roles',
+    roles: { admin: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_ADMINS,
+  },
+
+  // Billing
+  'billing.read': {
+    description: 'View the wallet, transactions, invoices and billing details',
+    roles: { admin: 'any', school: 'own_school' },
+  },
+  'billing.manage': {
+    description: 'Change billing details',
+    roles: { admin: 'any', school: 'own_school' },
+    schoolRoles: SCHOOL_ADMINS,
+  },
+  'billing.purchase': {
+    description: 'Buy credits, redeem codes and manage the subscription',
+    roles: { school: 'own_school' },
+    schoolRoles: SCHOOL_ADMINS,
+  },
+  'billing.audit': {
+    description: 'View credit analytics, subscriptions, the ledger and invoice exports',
+    roles: { admin: 'any' },
+  },
+  'billing.adjust': {
+    description: 'Refund orders and adjust school balances',
+    roles: { admin: 'any' },
+  },
+  'pricing.manage': {
+    description: 'Manage prices, credit packs, plans and per-school pricing',
+    roles: { admin: 'any' },
+  },
+  'coupon.manage': {
+    description: 'Manage coupons',
+    roles: { admin: 'any' },
+  },
+
+  // Platform
+  'analytics.read': {
+    description: 'View the platform overview',
+    roles: { admin: 'any' },
+  },
+  'user.manage': {
+    description: 'Manage user accounts and view permissions',
+    roles: { admin: 'any' },
+  },
+  'security.manage': {
+    description: 'Review security events',
+    roles: { admin: 'any' },
+  },
+} satisfies Record<string, PermissionRule>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+export interface PermissionSubject {
+  role: string;
+  schoolId?: string;
+  schoolRole?: SchoolRole;
+}
+
+// The school a record belongs to, e.g. a blog's assignedSchool or a submission's schoolId
+export interface OwnedResource {
+  schoolId?: unknown;
+}
+
+/**
+ * How far `user` holds `permission`, or null when it doesn't.
+ */
+export const permissionScope = (user: PermissionSubject, permission: Permission): PermissionScope | null => {
+  const rule: PermissionRule = PERMISSIONS[permission];
+  const scope = rule.roles[user.role as UserRole];
+  if (!scope) return null;
+
+  if (user.role === 'school' && rule.schoolRoles && !rule.schoolRoles.includes(user.schoolRole || DEFAULT_SCHOOL_ROLE)) {
+    return null;
+  }
+  return scope;
+};
+
+/**
+ * Whether `user` holds `permission`. With a resource, `own_school` grants
+ * also require the resource to belong to the user's school; without one,
+ * only the grant itself is checked (list routes scope their own queries).
+ */
+export const hasPermission = (user: PermissionSubject, permission: Permission, resource?: OwnedResource): boolean => {
+  const scope = permissionScope(user, permission);
+  if (!scope) return false;
+  if (scope === 'any' || !resource) return true;
+
+  return !!user.schoolId && resource.schoolId != null && String(resource.schoolId) === user.schoolId;
+};
+
+export interface EffectivePermission {
+  permission: Permission;
+  description: string;
+  scope: PermissionScope;
+}
+
+export const permissionsFor = (user: PermissionSubject): EffectivePermission[] =>
+  PERMISSION_NAMES.flatMap(permission => {
+    const scope = permissionScope(user, permission);
+    return scope ? [{ permission, description: PERMISSIONS[permission].description, scope }] : [];
+  });
+
+/**
+ * The registry as a table, for the admin permissions page.
+ */
+export const describePermissions = () =>
+  PERMISSION_NAMES.map(permission => {
+    const rule: PermissionRule = PERMISSIONS[permission];
+    return {
+      permission,
+      description: rule.description,
+      roles: rule.roles,
+      schoolRoles: rule.roles.school ? rule.schoolRoles || SCHOOL_ROLES : [],
+    };
+  });
@@ -0,0 +1,29 @@
+/**
+ * Error thrown by the social platform clients. Keeps the raw error body
+ * returned by the platform so it can be stored for later inspection.
+ * `retryable` is false when trying again can't help, e.g. a caption that is
+ * too long or an account that isn't connected.
+ */
+export class PlatformError extends Error {
+  payload?: any;
+  retryable: boolean;
+
+  constructor(message: string, payload?: any, retryable: boolean = true) {
+    super(message);
+    this.name = 'PlatformError';
+    this.payload = payload;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Whether a failed platform call is worth trying again: network errors,
+ * rate limits and server errors are; other 4xx responses are not.
+ */
+export const isRetryable = (error: any): boolean => {
+  if (error instanceof PlatformError) return error.retryable;
+
+  const status = error?.response?.status;
+  if (!status) return true;
+  return status === 429 || status >= 500;
+};
@@ -0,0 +1,164 @@
+import PricingConfig, { IPricingConfig, ICreditPack, PricedAction } from '../models/PricingConfig';
+import School, { ISchool } from '../models/School';
+
+export const PRICED_ACTIONS: PricedAction[] = ['publish'];
+
+// Used to seed the config the first time it is read
+const DEFAULT_ACTIONS = [{ action: 'publish' as PricedAction, cost: 99, reward: 50 }];
+const DEFAULT_PACKS = [
+    { name: '1 Post', coins: 99, baseAmount: 99, sortOrder: 1 },
+    { name: '5 Posts', coins: 495, baseAmount: 495, sortOrder: 2 },
+    { name: '20 Posts', coins: 1980, baseAmount: 1980, sortOrder: 3 },
+];
+
+/**
+ * Price of a purchase broken down for the order and the invoice.
+ * All amounts are in paise.
+ */
+export interface PriceBreakdown {
+    base: number;
+    discount: number; // School's partner discount
+    couponDiscount: number;
+    subtotal: number;
+    platformFee: number;
+    gst: number;
+    rounding: number; // Added to bring the total up to a whole multiple of 5 paise
+    total: number;
+    discountPercent: number;
+    platformFeePercent: number;
+    gstPercent: number;
+}
+
+/**
+ * Load the pricing config, creating it with the defaults on first use.
+ */
+export const getPricingConfig = async (): Promise<IPricingConfig> => {
+    const existing = await PricingConfig.findOne({ key: 'default' });
+    if (existing) return existing;
+
+    try {
+        return await PricingConfig.create({ key: 'default', packs: DEFAULT_PACKS, actions: DEFAULT_ACTIONS });
+    } catch (error: any) {
+        // Another request created it first
+        if (error.code === 11000) return (await PricingConfig.findOne({ key: 'default' }))!;
+        throw error;
+    }
+};
+
+// Razorpay won't take an order for less than ₹1
+const MIN_SUBTOTAL = 100;
+
+// Totals are rounded up to the next 5 paise, as the original fixed price was (₹101.34 -> ₹101.35)
+const TOTAL_ROUNDING_STEP = 5;
+
+export interface CouponDiscount {
+    type: 'percent' | 'flat';
+    value: number; // Percent, or rupees for a flat discount
+}
+
+/**
+ * Work out the discounts, platform fee and GST (charged on the fee) for a
+ * base price in rupees. A coupon applies after the school's discount and
+ * never takes the price below ₹1. Each step is rounded to the paisa and
+ * the total up to the next 5 paise.
+ */
+export const computePriceBreakdown = (
+    baseAmount: number,
+    config: Pick<IPricingConfig, 'platformFeePercent' | 'gstPercent'>,
+    discountPercent: number = 0,
+    coupon?: CouponDiscount
+): PriceBreakdown => {
+    const base = Math.round(baseAmount * 100);
+    const discount = Math.round((base * discountPercent) / 100);
+    const afterDiscount = base - discount;
+
+    let couponDiscount = 0;
+    if (coupon) {
+        couponDiscount = coupon.type === 'percent'
+            ? Math.round((afterDiscount * coupon.value) / 100)
+            : Math.round(coupon.value * 100);
+        couponDiscount = Math.max(Math.min(couponDiscount, afterDiscount - MIN_SUBTOTAL), 0);
+    }
+
+    const subtotal = afterDiscount - couponDiscount;
+    const platformFee = Math.round((subtotal * config.platformFeePercent) / 100);
+    const gst = Math.round((platformFee * config.gstPercent) / 100);
+    const beforeRounding = subtotal + platformFee + gst;
+    const total = Math.ceil(beforeRounding / TOTAL_ROUNDING_STEP) * TOTAL_ROUNDING_STEP;
+
+    return {
+        base,
+        discount,
+        couponDiscount,
+        subtotal,
+        platformFee,
+        gst,
+        rounding: total - beforeRounding,
+        total,
+        discountPercent,
+        platformFeePercent: config.platformFeePercent,
+        gstPercent: config.gstPercent,
+    };
+};
+
+// The seeded 1 Post pack has always cost ₹101.35 at the default 2% fee and 18% GST
+const DEFAULT_PACK_TOTAL = 10135;
+const defaultPackTotal = computePriceBreakdown(DEFAULT_PACKS[0].baseAmount, { platformFeePercent: 2, gstPercent: 18 }).total;
+if (defaultPackTotal !== DEFAULT_PACK_TOTAL) {
+    console.warn(`⚠️ Default 1 Post pack prices at ${defaultPackTotal} paise instead of ${DEFAULT_PACK_TOTAL}`);
+}
+
+/**
+ * Active packs with the price a given school would pay for each.
+ */
+export const getPackQuotes = (config: IPricingConfig, school?: ISchool | null) => {
+    const discountPercent = school?.pricingOverride?.discountPercent || 0;
+
+    return config.packs
+        .filter(pack => pack.isActive)
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map(pack => ({
+            _id: pack._id,
+            name: pack.name,
+            description: pack.description,
+            coins: pack.coins,
+            breakdown: computePriceBreakdown(pack.baseAmount, config, discountPercent),
+        }));
+};
+
+/**
+ * Find an active pack by id.
+ */
+export const findActivePack = (config: IPricingConfig, packId: string): ICreditPack | undefined =>
+    config.packs.find(pack => pack._id.toString() === packId && pack.isActive);
+
+/**
+ * Coin cost and reward of an action, with a school's override applied on
+ * top of the config's defaults.
+ */
+export const resolveActionPricing = (
+    config: IPricingConfig,
+    action: PricedAction,
+    school?: Pick<ISchool, 'pricingOverride'> | null
+): { cost: number; reward: number } => {
+    const defaults = config.actions.find(a => a.action === action)
+        || DEFAULT_ACTIONS.find(a => a.action === action)!;
+    const override = school?.pricingOverride?.actions?.find(a => a.action === action);
+
+    return {
+        cost: override?.cost ?? defaults.cost,
+        reward: override?.reward ?? defaults.reward,
+    };
+};
+
+/**
+ * Coin cost and reward of an action for a school.
+ */
+export const getActionPricing = async (
+    action: PricedAction,
+    schoolId?: string
+): Promise<{ cost: number; reward: number }> => {
+    const config = await getPricingConfig();
+    const school = schoolId ? await School.findById(schoolId).select('pricingOverride') : null;
+    return resolveActionPricing(config, action, school);
+};
@@ -0,0 +1,289 @@
+import { IBlog } from '../models/Blog';
+import Transaction from '../models/Transaction';
+import PublishJob, { IPublishJob } from '../models/PublishJob';
+import { holdCoins, releaseHeldCoins, applyCoinEntry, runInTransaction, CoinError } from './coinService';
+import { checkLowBalance } from './lowBalanceAlerts';
+import { getWordPressClient, getPublishSites } from './wordpressClient';
+import { transitionBlog, WorkflowActor } from './blogWorkflow';
+import { getActionPricing } from './pricing';
+import {
+  uploadFeaturedImage,
+  resolveTagIds,
+  buildPostPayload,
+  markSynced,
+  loadPublishingSchool,
+  pushMirror,
+} from './wordpressSync';
+
+// An in-progress job older than this is assumed to belong to a crashed request
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+type PublishActor = WorkflowActor;
+
+/**
+ * Error raised when a publish cannot go ahead.
+ * `status` is the HTTP status code and `details` is merged into the response.
+ */
+export class PublishError extends Error {
+  status: number;
+  details?: Record<string, any>;
+
+  constructor(message: string, status: number = 400, details?: Record<string, any>) {
+    super(message);
+    this.name = 'PublishError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Take ownership of the blog's publish job. Returns null when another request
+ * holds it or it has already completed.
+ */
+const claimJob = async (blog: IBlog, actor: PublishActor): Promise<IPublishJob | null> => {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+
+  try {
+    return await PublishJob.findOneAndUpdate(
+      {
+        blogId: blog._id,
+        $or: [{ status: 'failed' }, { status: 'in_progress', updatedAt: { $lt: staleBefore } }],
+      },
+      {
+        $set: { status: 'in_progress', schoolId: blog.assignedSchool, startedBy: actor.id },
+        $inc: { attempts: 1 },
+        $unset: { lastError: 1 },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  } catch (error: any) {
+    // Duplicate key: the unique blogId index blocked the upsert
+    if (error.code === 11000) return null;
+    throw error;
+  }
+};
+
+/**
+ * Hold the publish cost back from the school's balance. The conditional
+ * update fails rather than letting the balance go negative.
+ * Cost and reward come from the pricing config, with any school override.
+ *
+ * The hold and the job's record of it commit together, so coins never leave
+ * the balance without a job that can commit or release them.
+ */
+const reserveCoins = async (job: IPublishJob): Promise<void> => {
+  if (job.coinsBefore !== undefined) return;
+
+  const schoolId = job.schoolId.toString();
+  const { cost, reward } = await getActionPricing('publish', schoolId);
+
+  let coinsBefore: number;
+  try {
+    coinsBefore = await runInTransaction(async session => {
+      const school = await holdCoins(schoolId, cost, session);
+      await PublishJob.updateOne(
+        { _id: job._id },
+        { $set: { coinsReserved: cost, coinsReward: reward, coinsBefore: school.coins + cost } },
+        { session }
+      );
+      return school.coins + cost;
+    });
+  } catch (error) {
+    if (error instanceof CoinError && error.status === 400) {
+      throw new PublishError(`Insufficient coins. Each post requires ${cost} coins.`, 403, error.details);
+    }
+    throw error;
+  }
+
+  // Only now that it is committed, so a failed hold is never released
+  job.set({ coinsReserved: cost, coinsReward: reward, coinsBefore });
+  void checkLowBalance(schoolId);
+};
+
+/**
+ * Give reserved coins back. Only safe while nothing has been posted.
+ */
+const releaseCoins = async (job: IPublishJob): Promise<void> => {
+  if (job.coinsBefore === undefined) return;
+
+  const schoolId = job.schoolId.toString();
+  await runInTransaction(async session => {
+    await releaseHeldCoins(schoolId, job.coinsReserved, session);
+    await PublishJob.updateOne(
+      { _id: job._id },
+      { $set: { coinsReserved: 0, coinsReward: 0 }, $unset: { coinsBefore: 1 } },
+      { session }
+    );
+  });
+
+  job.set({ coinsReserved: 0, coinsReward: 0, coinsBefore: undefined });
+  void checkLowBalance(schoolId);
+};
+
+/**
+ * Turn the reservation into ledger entries and pay out the reward.
+ * The debit row, the reward and the committed flag are written in one
+ * transaction, so a retry never records them twice.
+ */
+const commitLedger = async (job: IPublishJob, blog: IBlog): Promise<void> => {
+  if (job.ledgerCommitted || job.coinsBefore === undefined) return;
+
+  const coinsBefore = job.coinsBefore;
+  const schoolId = job.schoolId.toString();
+
+  await runInTransaction(async session => {
+    // The reserved coins already left the balance; this records where they went
+    if (job.coinsReserved > 0) {
+      await Transaction.create(
+        [{
+          schoolId: job.schoolId,
+          type: 'debit',
+          coins: job.coinsReserved,
+          coinsBefore,
+          coinsAfter: coinsBefore - job.coinsReserved,
+          referenceId: blog._id,
+          description: `Post publishing cost: ${blog.title}`,
+        }],
+        { session }
+      );
+    }
+
+    if (job.coinsReward > 0) {
+      await applyCoinEntry(
+        schoolId,
+        {
+          type: 'reward',
+          coins: job.coinsReward,
+          referenceId: String(blog._id),
+          description: `Reward for publishing: ${blog.title}`,
+        },
+        { session }
+      );
+    }
+
+    job.ledgerCommitted = true;
+    await job.save({ session });
+  });
+
+  if (job.coinsReward > 0) {
+    void checkLowBalance(schoolId);
+  }
+};
+
+/**
+ * Publish a blog to WordPress.
+ *
+ * Coins are reserved up front and only written to the ledger once WordPress
+ * returns a post id; any failure before that releases the reservation.
+ * The PublishJob row makes repeat calls safe: a completed job is returned
+ * as-is and a post id already created is never created again.
+ */
+export const publishBlog = async (
+  blog: IBlog,
+  actor: PublishActor
+): Promise<{ blog: IBlog; job: IPublishJob | null; alreadyPublished: boolean }> => {
+  if (!blog.assignedSchool) {
+    throw new PublishError('Blog must be assigned to a school before publishing');
+  }
+
+  if (blog.status === 'published_wp' && blog.wordpressPostId) {
+    const existing = await PublishJob.findOne({ blogId: blog._id });
+    return { blog, job: existing, alreadyPublished: true };
+  }
+
+  const job = await claimJob(blog, actor);
+
+  if (!job) {
+    const existing = await PublishJob.findOne({ blogId: blog._id });
+    if (existing?.status === 'completed') {
+      return { blog, job: existing, alreadyPublished: true };
+    }
+    throw new PublishError('This blog is already being published', 409);
+  }
+
+  // Admins publish without charging the school
+  const charge = actor.role !== 'admin';
+  let wpModifiedAt: string | undefined;
+
+  const school = await loadPublishingSchool(blog);
+  const sites = getPublishSites(school);
+
+  try {
+    if (charge) {
+      await reserveCoins(job);
+    }
+
+    // The primary site is fixed on the first attempt so retries stay on it
+    if (!job.wordpressSite) {
+      job.wordpressSite = sites[0];
+    }
+    const client = getWordPressClient(job.wordpressSite, school);
+
+    if (!job.wordpressPostId) {
+      if (job.featuredMediaId === undefined) {
+        job.featuredMediaId = await uploadFeaturedImage(blog, client);
+      }
+
+      const tagIds = await resolveTagIds(blog.tags, client);
+
+      const wpPost = await client.createPost({
+        ...buildPostPayload(blog, tagIds, job.featuredMediaId),
+        status: 'publish',
+      });
+      wpModifiedAt = wpPost.modified_gmt;
+
+      // Persist the post id straight away so a retry never posts twice
+      job.wordpressPostId = wpPost.id;
+      job.wordpressUrl = wpPost.link;
+      await job.save();
+    }
+  } catch (error: any) {
+    if (!job.wordpressPostId) {
+      await releaseCoins(job);
+    }
+    job.status = 'failed';
+    job.lastError = error.message;
+    await job.save();
+    throw error;
+  }
+
+  try {
+    await commitLedger(job, blog);
+
+    // Update blog with WordPress info and mark it published
+    blog.wordpressSite = job.wordpressSite!;
+    blog.wordpressPostId = job.wordpressPostId;
+    blog.wordpressUrl = job.wordpressUrl;
+    blog.wordpressMediaId = job.featuredMediaId;
+    blog.wordpressMediaSource = job.featuredMediaId ? blog.featuredImage : undefined;
+    blog.publishedAt = new Date();
+    markSynced(blog, { status: 'publish', modified_gmt: wpModifiedAt });
+
+    // Copy to the school's own site as well when it publishes to both
+    const mirrorSite = sites.find(site => site !== job.wordpressSite);
+    if (mirrorSite && !blog.mirrorWordpressPostId) {
+      try {
+        await pushMirror(blog, getWordPressClient(mirrorSite, school));
+      } catch (mirrorError: any) {
+        console.error('Mirror WordPress site unavailable:', mirrorError.message);
+      }
+    }
+    if (blog.status !== 'published_wp') {
+      await transitionBlog(blog, 'published_wp', actor);
+    } else {
+      await blog.save();
+    }
+
+    job.status = 'completed';
+    job.completedAt = new Date();
+    await job.save();
+  } catch (error: any) {
+    // WordPress already has the post; keep the reservation and let a retry finish up
+    job.status = 'failed';
+    job.lastError = error.message;
+    await job.save();
+    throw error;
+  }
+
+  return { blog, job, alreadyPublished: false };
+};
@@ -0,0 +1,12 @@
+/**
+ * Roles a user can hold within their school. They only apply to users with
+ * the `school` role; what each may do is set in the permission registry
+ * (utils/permissions).
+ */
+
+export type SchoolRole = 'school_admin' | 'editor' | 'contributor';
+
+export const SCHOOL_ROLES: SchoolRole[] = ['school_admin', 'editor', 'contributor'];
+
+// School users from before school roles existed keep the full set of powers they had
+export const DEFAULT_SCHOOL_ROLE: SchoolRole = 'school_admin';
@@ -0,0 +1,26 @@
+import SecurityEvent, { SecurityEventType } from '../models/SecurityEvent';
+import { AuthRequest } from '../middleware/authMiddleware';
+
+/**
+ * Record a suspicious event for admins to review.
+ * Logging never fails the request that triggered it.
+ */
+export const logSecurityEvent = async (
+    type: SecurityEventType,
+    req: AuthRequest | null,
+    details: Record<string, any> = {},
+    schoolId?: string
+): Promise<void> => {
+    try {
+        await SecurityEvent.create({
+            type,
+            schoolId: schoolId || req?.user?.schoolId,
+            userId: req?.user?.id,
+            ip: req?.ip,
+            details,
+        });
+        console.warn(`🚨 Security event: ${type}`, details);
+    } catch (error: any) {
+        console.error('Failed to record security event:', error.message);
+    }
+};
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import User, { IUser } from '../models/User';
+import Session, { ISession } from '../models/Session';
+import { logSecurityEvent } from './securityEvents';
+
+/**
+ * Sign-in sessions: short-lived access tokens (JWTs) paired with rotating
+ * refresh tokens kept server-side as Session documents.
+ *
+ * An access token carries its session id and the user's token version.
+ * `authMiddleware` rejects it once the session is revoked or the version
+ * is bumped, so deactivating a user or resetting their password takes
+ * effect on the next request rather than when the token expires.
+ */
+
+const ACCESS_TOKEN_TTL_SECONDS = (Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15) * 60;
+const REFRESH_TOKEN_TTL_MS = (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+export const jwtSecret = (): string => process.env.JWT_SECRET || 'fallback_secret';
+
+export interface AccessTokenPayload {
+    id: string;
+    role: string;
+    email: string;
+    schoolId?: string;
+    sid: string; // Session the token was issued for
+    tv: number; // User's token version when it was issued
+}
+
+export interface SessionTokens {
+    token: string; // Access token
+    refreshToken: string;
+    expiresIn: number; // Access token lifetime in seconds
+    sessionId: string;
+}
+
+/**
+ * Error raised when a session can't be created, refreshed or revoked.
+ * `status` is the HTTP status code to respond with.
+ */
+export class SessionError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 401) {
+        super(message);
+        this.name = 'SessionError';
+        this.status = status;
+    }
+}
+
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const signAccessToken = (user: IUser, sessionId: string): string => {
+    const payload: AccessTokenPayload = {
+        id: String(user._id),
+        role: user.role,
+        email: user.email,
+        schoolId: user.schoolId ? String(user.schoolId._id) : undefined,
+        sid: sessionId,
+        tv: user.tokenVersion || 0,
+    };
+    return jwt.sign(payload, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+};
+
+const clientDetails = (req: Request) => ({
+    userAgent: req.get('user-agent')?.slice(0, 300),
+    ip: req.ip,
+});
+
+/**
+ * Start a session for a user who has just signed in.
+ */
+export const createSession = async (user: IUser, req: Request): Promise<SessionTokens> => {
+    const refreshToken = newRefreshToken();
+    const session = await Session.create({
+        userId: user._id,
+        refreshTokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        ...clientDetails(req),
+    });
+
+    return {
+        token: signAccessToken(user, String(session._id)),
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        sessionId: String(session._id),
+    };
+};
+
+/**
+ * Swap a refresh token for a new access token and refresh token.
+ *
+ * Each refresh token works once. Presenting one that has already been
+ * swapped means it was copied, so the whole session is revoked and both
+ * holders have to sign in again.
+ */
+export const refreshSession = async (refreshToken: string, req: Request): Promise<SessionTokens> => {
+    const hash = hashToken(refreshToken);
+    const session = await Session.findOne({ refreshTokenHash: hash });
+
+    if (!session) {
+        const reused = await Session.findOneAndUpdate(
+            { previousTokenHash: hash, revokedAt: { $exists: false } },
+            { revokedAt: new Date(), revokedReason: 'reuse_detected' },
+            { new: true }
+        );
+        if (reused) {
+            await logSecurityEvent('refresh_token_reuse', req, { sessionId: String(reused._id), userId: String(reused.userId) });
+        }
+        throw new SessionError('Invalid refresh token');
+    }
+
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+        throw new SessionError('Session has ended. Please log in again.');
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user || !user.isActive) {
+        await revokeSession(session, 'revoked');
+        throw new SessionError('Account is inactive. Please contact administrator.', 403);
+    }
+
+    // Conditional on the current hash, so two refreshes racing with the same token can't both win
+    const next = newRefreshToken();
+    const rotated = await Session.findOneAndUpdate(
+        { _id: session._id, refreshTokenHash: hash, revokedAt: { $exists: false } },
+        {
+            refreshTokenHash: hashToken(next),
+            previousTokenHash: hash,
+            lastUsedAt: new Date(),
+            ...clientDetails(req),
+        },
+        { new: true }
+    );
+    if (!rotated) {
+        throw new SessionError('Invalid refresh token');
+    }
+
+    return {
+        token: signAccessToken(user, String(rotated._id)),
+        refreshToken: next,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        sessionId: String(rotated._id),
+    };
+};
+
+/**
+ * End one session. Access tokens issued for it stop working straight away.
+ */
+export const revokeSession = async (session: ISession, reason: NonNullable<ISession['revokedReason']>): Promise<void> => {
+    if (session.revokedAt) return;
+    await Session.updateOne(
+        { _id: session._id, revokedAt: { $exists: false } },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+};
+
+/**
+ * End every session a user has, optionally keeping one (the caller's own).
+ * Returns how many were ended.
+ */
+export const revokeUserSessions = async (
+    userId: string,
+    reason: NonNullable<ISession['revokedReason']>,
+    exceptSessionId?: string
+): Promise<number> => {
+    const filter: any = { userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+    const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+    return result.modifiedCount;
+};
+
+/**
+ * Invalidate every token a user holds: bump their token version so existing
+ * access tokens are rejected, and end their sessions so refresh tokens are too.
+ * Used when a user is deactivated or their password changes.
+ */
+export const invalidateUserTokens = async (userId: string): Promise<void> => {
+    await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+    await revokeUserSessions(userId, 'token_version');
+};
+
+/**
+ * A user's sessions that can still be refreshed, newest first.
+ */
+export const listActiveSessions = (userId: string) =>
+    Session.find({ userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+        .select('userAgent ip lastUsedAt createdAt expiresAt')
+        .sort({ lastUsedAt: -1 });
@@ -0,0 +1,48 @@
+import SocialToken, { ISocialToken } from '../models/SocialToken';
+import School from '../models/School';
+
+export type SocialAccount = 'central' | 'school';
+export type SocialTarget = 'central' | 'school' | 'both';
+
+export const SOCIAL_TARGETS: SocialTarget[] = ['central', 'school', 'both'];
+
+/**
+ * Query for the stored token of one platform account.
+ * The central SchoolChamps accounts have no school.
+ */
+export const socialTokenFilter = (platform: ISocialToken['platform'], schoolId?: string) => ({
+  platform,
+  schoolId: schoolId || null,
+});
+
+/**
+ * Accounts a post should go out on for a target setting.
+ */
+export const getSocialAccounts = (target: SocialTarget): SocialAccount[] =>
+  target === 'both' ? ['central', 'school'] : [target];
+
+/**
+ * Platforms a school has connected its own accounts for.
+ */
+export const getConnectedPlatforms = async (schoolId: string): Promise<string[]> => {
+  const tokens = await SocialToken.find({ schoolId }).select('platform pageId personUrn orgUrn instagramAccountId');
+
+  const platforms = tokens
+    .filter(token => {
+      if (token.platform === 'facebook') return !!token.pageId;
+      if (token.platform === 'linkedin') return !!(token.orgUrn || token.personUrn);
+      if (token.platform === 'instagram') return !!token.instagramAccountId;
+      return true;
+    })
+    .map(token => token.platform as string);
+
+  // Instagram details entered on the school before accounts were connected via OAuth
+  if (!platforms.includes('instagram')) {
+    const school = await School.findById(schoolId).select('instagramAccessToken instagramAccountId');
+    if (school?.instagramAccessToken && school?.instagramAccountId) {
+      platforms.push('instagram');
+    }
+  }
+
+  return platforms;
+};
@@ -0,0 +1,104 @@
+import Blog, { IBlog } from '../models/Blog';
+import { ISocialPost } from '../models/SocialPost';
+import InstagramClient from './InstagramClient';
+import FacebookClient from './FacebookClient';
+import LinkedInClient from './LinkedInClient';
+import TwitterClient from './TwitterClient';
+import { PlatformError, isRetryable } from './platformError';
+
+export type SocialPlatform = ISocialPost['platform'];
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = ['instagram', 'linkedin', 'twitter', 'facebook'];
+
+/**
+ * Caption text with hashtags appended, as it should appear on the platform.
+ */
+export const buildCaption = (caption: string, hashtags?: string[]): string =>
+  hashtags && Array.isArray(hashtags) && hashtags.length > 0
+    ? `${caption}\n\n${hashtags.map((h: string) => h.startsWith('#') ? h : `#${h}`).join(' ')}`
+    : caption;
+
+const toPublicUrl = (imageUrl: string): string =>
+  imageUrl.startsWith('http')
+    ? imageUrl
+    : `${process.env.BACKEND_URL || 'http://localhost:5000'}/${imageUrl.replace(/\\/g, '/')}`;
+
+/**
+ * Publish a caption (and the blog's featured image) to one platform.
+ * Posts to the school's own account when schoolId is given, otherwise to
+ * the central SchoolChamps account.
+ * Returns the platform's post id, or throws with the platform error.
+ */
+export const publishToPlatform = async (
+  platform: SocialPlatform,
+  caption: string,
+  blog: IBlog | null,
+  schoolId?: string
+): Promise<string | null> => {
+  switch (platform) {
+    case 'instagram': {
+      const imageUrl = blog?.featuredImage;
+      if (!imageUrl) {
+        throw new PlatformError('Instagram posts require a featured image', undefined, false);
+      }
+
+      const account = schoolId ? await InstagramClient.getSchoolCredentials(schoolId) : undefined;
+      const creationId = await InstagramClient.createMediaContainer(
+        toPublicUrl(imageUrl),
+        caption,
+        account?.instagramAccountId,
+        account?.accessToken
+      );
+      return InstagramClient.publishMedia(creationId, account?.instagramAccountId, account?.accessToken);
+    }
+    case 'facebook':
+      return FacebookClient.postToPageFeed(caption, blog?.featuredImage, schoolId);
+    case 'linkedin':
+      return LinkedInClient.createPost(caption, blog?.featuredImage, schoolId);
+    case 'twitter':
+      return TwitterClient.createTweet(caption, blog?.featuredImage, schoolId);
+    default:
+      throw new PlatformError(`Unsupported platform: ${platform}`, undefined, false);
+  }
+};
+
+export interface PublishAttempt {
+  published: boolean;
+  // Whether a failed attempt is worth repeating
+  retryable: boolean;
+}
+
+/**
+ * Run one publish attempt for a saved post that is already in the
+ * `publishing` state, and record the outcome on it.
+ */
+export const attemptPublish = async (post: ISocialPost, blog?: IBlog | null): Promise<PublishAttempt> => {
+  try {
+    if (post.account === 'school' && !post.schoolId) {
+      throw new PlatformError('School account post has no school', undefined, false);
+    }
+
+    const targetBlog = blog !== undefined ? blog : await Blog.findById(post.blogId);
+    const publishedId = await publishToPlatform(
+      post.platform,
+      buildCaption(post.caption, post.hashtags),
+      targetBlog,
+      post.account === 'school' ? post.schoolId?.toString() : undefined
+    );
+
+    post.status = 'published';
+    post.publishedId = publishedId || undefined;
+    post.publishedAt = new Date();
+    post.nextAttemptAt = undefined;
+    post.lastError = undefined;
+    post.errorPayload = undefined;
+    await post.save();
+    return { published: true, retryable: false };
+  } catch (error: any) {
+    post.status = 'failed';
+    post.lastError = error.message;
+    post.errorPayload = error.payload;
+    await post.save();
+    return { published: false, retryable: isRetryable(error) };
+  }
+};
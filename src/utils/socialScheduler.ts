@@ -0,0 +1,120 @@
+import * as cron from 'node-cron';
+import SocialPost, { ISocialPost } from '../models/SocialPost';
+import { attemptPublish } from './socialPublisher';
+
+// Give up after this many attempts
+const MAX_ATTEMPTS = 5;
+// First retry after 2 minutes, doubling each time
+const BASE_BACKOFF_MS = 2 * 60 * 1000;
+// A post stuck in publishing this long belongs to a crashed run
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+/**
+ * Social Scheduler Service
+ * Runs every minute to publish scheduled social posts that are due,
+ * retrying failed attempts with exponential backoff.
+ */
+class SocialSchedulerService {
+    private job: cron.ScheduledTask | null = null;
+    private running = false;
+
+    /**
+     * Start the cron job.
+     */
+    start() {
+        this.job = cron.schedule('* * * * *', async () => {
+            // Skip this tick if the previous run is still going
+            if (this.running) return;
+            this.running = true;
+            try {
+                await this.processDuePosts();
+            } finally {
+                this.running = false;
+            }
+        });
+
+        console.log('✅ [SocialScheduler] Cron job scheduled: every minute');
+    }
+
+    /**
+     * Stop the cron job.
+     */
+    stop() {
+        if (this.job) {
+            this.job.stop();
+            console.log('⏹️ [SocialScheduler] Cron job stopped.');
+        }
+    }
+
+    /**
+     * Delay before the next attempt after `attempts` failures.
+     */
+    backoffFor(attempts: number): number {
+        return BASE_BACKOFF_MS * Math.pow(2, Math.max(attempts - 1, 0));
+    }
+
+    /**
+     * Publish every post that is due.
+     * Can be called manually for testing.
+     */
+    async processDuePosts() {
+        try {
+            await this.recoverStalePosts();
+
+            // Claim posts one at a time so parallel workers never double-post
+            while (true) {
+                const post = await SocialPost.findOneAndUpdate(
+                    { status: 'scheduled', nextAttemptAt: { $lte: new Date() } },
+                    { status: 'publishing', lastAttemptAt: new Date(), $inc: { attempts: 1 } },
+                    { new: true, sort: { nextAttemptAt: 1 } }
+                );
+
+                if (!post) break;
+                await this.publish(post);
+            }
+        } catch (error: any) {
+            console.error('❌ [SocialScheduler] Run error:', error.message);
+        }
+    }
+
+    /**
+     * Clean up posts left in publishing by a crashed run. The platform may
+     * have accepted the post before the crash, so they are never retried
+     * automatically; someone checks the page and retries them by hand.
+     */
+    private async recoverStalePosts() {
+        const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+        await SocialPost.updateMany(
+            { status: 'publishing', lastAttemptAt: { $lt: staleBefore } },
+            { status: 'failed', lastError: 'Publishing was interrupted; check the page before retrying' }
+        );
+    }
+
+    private async publish(post: ISocialPost) {
+        const { published, retryable } = await attemptPublish(post);
+
+        if (published) {
+            console.log(`✅ [SocialScheduler] Published ${post.platform} post ${post._id}`);
+            return;
+        }
+
+        // Validation and configuration errors fail the same way every time
+        if (!retryable) {
+            console.error(`❌ [SocialScheduler] ${post.platform} post ${post._id} failed and won't be retried:`, post.lastError);
+            return;
+        }
+
+        if (post.attempts >= MAX_ATTEMPTS) {
+            console.error(`❌ [SocialScheduler] ${post.platform} post ${post._id} failed after ${post.attempts} attempts:`, post.lastError);
+            return;
+        }
+
+        // Back in the queue for another try
+        post.status = 'scheduled';
+        post.nextAttemptAt = new Date(Date.now() + this.backoffFor(post.attempts));
+        await post.save();
+        console.warn(`⚠️ [SocialScheduler] ${post.platform} post ${post._id} attempt ${post.attempts} failed, retrying at ${post.nextAttemptAt.toISOString()}`);
+    }
+}
+
+export default new SocialSchedulerService();
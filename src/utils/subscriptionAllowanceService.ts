@@ -0,0 +1,49 @@
+import * as cron from 'node-cron';
+import { grantDueAllowances } from './subscriptions';
+
+/**
+ * Subscription Allowance Service
+ * Runs every hour and grants the monthly coin allowance of every
+ * subscription that has one due within its paid period.
+ */
+class SubscriptionAllowanceService {
+    private job: cron.ScheduledTask | null = null;
+
+    /**
+     * Start the hourly cron job.
+     */
+    start() {
+        // Run at the top of every hour
+        this.job = cron.schedule('0 * * * *', async () => {
+            await this.run();
+        });
+
+        console.log('✅ [SubscriptionAllowance] Cron job scheduled: hourly');
+    }
+
+    /**
+     * Stop the cron job.
+     */
+    stop() {
+        if (this.job) {
+            this.job.stop();
+            console.log('⏹️ [SubscriptionAllowance] Cron job stopped.');
+        }
+    }
+
+    /**
+     * Grant due allowances. Can be called manually for testing.
+     */
+    async run() {
+        try {
+            const granted = await grantDueAllowances();
+            if (granted > 0) {
+                console.log(`🪙 [SubscriptionAllowance] Granted ${granted} monthly allowance(s)`);
+            }
+        } catch (error: any) {
+            console.error('❌ [SubscriptionAllowance] Error:', error.message);
+        }
+    }
+}
+
+export default new SubscriptionAllowanceService();
@@ -0,0 +1,262 @@
+import School from '../models/School';
+import Subscription, { ISubscription, SubscriptionStatus } from '../models/Subscription';
+import { IPricingConfig, ISubscriptionPlan, PlanPeriod } from '../models/PricingConfig';
+import { razorpay, PaymentError } from './paymentOrders';
+import { applyCoinEntry, runInTransaction } from './coinService';
+import { checkLowBalance } from './lowBalanceAlerts';
+import { computePriceBreakdown } from './pricing';
+
+// A school can hold one subscription in these states at a time
+export const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['created', 'authenticated', 'active', 'pending'];
+
+// Allowances are only granted while the subscription is paid up
+const GRANTING_STATUSES: SubscriptionStatus[] = ['active', 'pending'];
+
+// Razorpay needs a fixed number of billing cycles; these run for ten years
+const TOTAL_COUNT: Record<PlanPeriod, number> = { monthly: 120, yearly: 10 };
+
+/**
+ * `months` calendar months after `date`, kept on the same day of the month
+ * where it exists and on the month's last day where it doesn't (31 Jan -> 28 Feb).
+ */
+export const addMonths = (date: Date, months: number): Date => {
+    const result = new Date(date);
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, lastDay));
+    return result;
+};
+
+/**
+ * Create the Razorpay plan a subscription plan bills through. The price
+ * includes the platform fee and GST, like a credit pack.
+ */
+export const createRazorpayPlan = async (
+    plan: Pick<ISubscriptionPlan, 'name' | 'description' | 'period' | 'baseAmount'>,
+    config: IPricingConfig
+): Promise<string> => {
+    const breakdown = computePriceBreakdown(plan.baseAmount, config);
+    const razorpayPlan = await razorpay.plans.create({
+        period: plan.period,
+        interval: 1,
+        item: {
+            name: plan.name,
+            description: plan.description,
+            amount: breakdown.total,
+            currency: config.currency,
+        },
+    });
+    return razorpayPlan.id;
+};
+
+/**
+ * Plans a school can sign up to, with their price breakdown.
+ * Partner discounts don't apply: Razorpay bills every subscriber of a plan the same.
+ */
+export const getPlanQuotes = (config: IPricingConfig) =>
+    config.plans
+        .filter(plan => plan.isActive)
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map(plan => ({
+            _id: plan._id,
+            name: plan.name,
+            description: plan.description,
+            period: plan.period,
+            monthlyCoins: plan.monthlyCoins,
+            rolloverLimit: plan.rolloverLimit,
+            breakdown: computePriceBreakdown(plan.baseAmount, config),
+        }));
+
+/**
+ * Start a Razorpay subscription for a school. The school pays through the
+ * returned checkout link; nothing is granted until Razorpay reports it active.
+ */
+export const startSubscription = async (
+    schoolId: string,
+    plan: ISubscriptionPlan,
+    config: IPricingConfig,
+    userId: string
+): Promise<ISubscription> => {
+    const live = await Subscription.findOne({ schoolId, status: { $in: LIVE_SUBSCRIPTION_STATUSES } });
+    if (live) {
+        throw new PaymentError('This school already has a subscription. Cancel it before choosing another plan.', 409);
+    }
+
+    const razorpaySubscription = await razorpay.subscriptions.create({
+        plan_id: plan.razorpayPlanId,
+        total_count: TOTAL_COUNT[plan.period],
+        customer_notify: 1,
+        notes: { schoolId, planId: String(plan._id) },
+    });
+
+    return Subscription.create({
+        schoolId,
+        planId: plan._id,
+        planName: plan.name,
+        period: plan.period,
+        amount: computePriceBreakdown(plan.baseAmount, config).total,
+        monthlyCoins: plan.monthlyCoins,
+        rolloverLimit: plan.rolloverLimit,
+        razorpaySubscriptionId: razorpaySubscription.id,
+        razorpayPlanId: plan.razorpayPlanId,
+        shortUrl: razorpaySubscription.short_url,
+        status: razorpaySubscription.status,
+        createdBy: userId,
+    });
+};
+
+/**
+ * Cancel a subscription with Razorpay. By default it runs to the end of the
+ * paid period, so allowances already paid for are still granted.
+ */
+export const cancelSubscription = async (subscription: ISubscription, atPeriodEnd: boolean = true): Promise<ISubscription> => {
+    const razorpaySubscription = await razorpay.subscriptions.cancel(subscription.razorpaySubscriptionId, atPeriodEnd);
+
+    subscription.status = razorpaySubscription.status as SubscriptionStatus;
+    subscription.cancelAtPeriodEnd = atPeriodEnd;
+    await subscription.save();
+    return subscription;
+};
+
+/**
+ * Grant one monthly allowance.
+ *
+ * Spending is assumed to use allowance coins first, so the unspent
+ * allowance is what's left of the last one, capped at the balance. Anything
+ * over the plan's rollover limit expires before the new allowance lands.
+ * Claiming the allowance by its count makes a repeated run grant nothing.
+ */
+export const grantAllowance = async (subscription: ISubscription): Promise<boolean> => {
+    if (!subscription.allowanceAnchor) return false;
+
+    const schoolId = String(subscription.schoolId);
+    const count = subscription.allowancesGranted;
+
+    const granted = await runInTransaction(async session => {
+        const claimed = await Subscription.findOneAndUpdate(
+            { _id: subscription._id, allowancesGranted: count },
+            {
+                $inc: { allowancesGranted: 1 },
+                $set: { nextAllowanceAt: addMonths(subscription.allowanceAnchor!, count + 1) },
+            },
+            { new: true, session }
+        );
+        if (!claimed) return false;
+
+        const school = await School.findById(schoolId).select('coins').session(session);
+        const unspent = Math.min(claimed.allowanceRemaining, Math.max(school?.coins ?? 0, 0));
+        const expiring = Math.max(unspent - claimed.rolloverLimit, 0);
+
+        if (expiring > 0) {
+            await applyCoinEntry(
+                schoolId,
+                {
+                    type: 'allowance_expiry',
+                    coins: expiring,
+                    referenceId: claimed.razorpaySubscriptionId,
+                    description: `Unused ${claimed.planName} coins over the ${claimed.rolloverLimit} coin rollover limit`,
+                },
+                { session }
+            );
+        }
+
+        await applyCoinEntry(
+            schoolId,
+            {
+                type: 'allowance',
+                coins: claimed.monthlyCoins,
+                referenceId: claimed.razorpaySubscriptionId,
+                description: `${claimed.planName} monthly allowance (${count + 1})`,
+            },
+            { session }
+        );
+
+        claimed.allowanceRemaining = unspent - expiring + claimed.monthlyCoins;
+        await claimed.save({ session });
+        return true;
+    });
+
+    if (granted) {
+        void checkLowBalance(schoolId);
+    }
+    return granted;
+};
+
+/**
+ * Grant every allowance that has fallen due within a paid period.
+ * Returns how many were granted.
+ */
+export const grantDueAllowances = async (): Promise<number> => {
+    const now = new Date();
+    const due = await Subscription.find({
+        status: { $in: GRANTING_STATUSES },
+        nextAllowanceAt: { $lte: now },
+    });
+
+    let granted = 0;
+    for (let subscription of due) {
+        // Catch up on missed months, but never past the paid period
+        while (
+            subscription.nextAllowanceAt
+            && subscription.nextAllowanceAt <= now
+            && subscription.currentPeriodEnd
+            && subscription.nextAllowanceAt < subscription.currentPeriodEnd
+        ) {
+            try {
+                if (!(await grantAllowance(subscription))) break;
+                granted++;
+            } catch (error: any) {
+                console.error(`❌ Allowance for subscription ${subscription.razorpaySubscriptionId} failed:`, error.message);
+                break;
+            }
+
+            const reloaded = await Subscription.findById(subscription._id);
+            if (!reloaded) break;
+            subscription = reloaded;
+        }
+    }
+
+    return granted;
+};
+
+/**
+ * Apply a Razorpay subscription.* webhook: keep the status and paid period in
+ * step, record each charge once, and start the allowance schedule the first
+ * time the subscription becomes active.
+ */
+export const applySubscriptionWebhook = async (event: string, payload: any): Promise<ISubscription | null> => {
+    const entity = payload?.subscription?.entity;
+    if (!entity?.id) return null;
+
+    const subscription = await Subscription.findOne({ razorpaySubscriptionId: entity.id });
+    if (!subscription) {
+        console.warn(`⚠️ Razorpay webhook: no subscription found for ${entity.id}`);
+        return null;
+    }
+
+    subscription.status = entity.status;
+    if (entity.current_start) subscription.currentPeriodStart = new Date(entity.current_start * 1000);
+    if (entity.current_end) subscription.currentPeriodEnd = new Date(entity.current_end * 1000);
+
+    const payment = payload?.payment?.entity;
+    if (event === 'subscription.charged' && payment?.id
+        && !subscription.payments.some(p => p.paymentId === payment.id)) {
+        subscription.payments.push({ paymentId: payment.id, amount: payment.amount, paidAt: new Date() });
+    }
+
+    if (GRANTING_STATUSES.includes(subscription.status) && !subscription.allowanceAnchor) {
+        subscription.allowanceAnchor = subscription.currentPeriodStart || new Date();
+        subscription.nextAllowanceAt = subscription.allowanceAnchor;
+    }
+
+    await subscription.save();
+
+    // Grant the first allowance now rather than waiting for the scheduled job
+    if (subscription.allowancesGranted === 0 && GRANTING_STATUSES.includes(subscription.status)) {
+        await grantAllowance(subscription);
+    }
+
+    return subscription;
+};
@@ -1,13 +1,17 @@
 import * as cron from 'node-cron';
 import LinkedInClient from './LinkedInClient';
 import FacebookClient from './FacebookClient';
+import TwitterClient from './TwitterClient';
 import SocialToken from '../models/SocialToken';
+import { socialTokenFilter } from './socialAccounts';
 
 /**
  * Token Refresh Service
  * Runs daily at 3:00 AM to:
  * - Refresh LinkedIn access tokens approaching expiry (within 7 days)
  * - Validate Facebook page tokens are still active
+ * - Refresh the Twitter/X access token (it only lives two hours)
+ * The same checks run for every school's own connected accounts.
  */
 class TokenRefreshService {
     private job: cron.ScheduledTask | null = null;
@@ -42,24 +46,39 @@ class TokenRefreshService {
     async refreshAll() {
         await this.checkLinkedIn();
         await this.checkFacebook();
+        await this.checkTwitter();
+
+        try {
+            const schoolTokens = await SocialToken.find({ schoolId: { $ne: null } }).select('platform schoolId');
+            for (const token of schoolTokens) {
+                const schoolId = token.schoolId!.toString();
+                if (token.platform === 'linkedin') await this.checkLinkedIn(schoolId);
+                if (token.platform === 'facebook') await this.checkFacebook(schoolId);
+                if (token.platform === 'twitter') await this.checkTwitter(schoolId);
+            }
+        } catch (error: any) {
+            console.error('❌ [TokenRefresh] School account check error:', error.message);
+        }
     }
 
     /**
      * Check and refresh LinkedIn token if expiring within 7 days.
      */
-    private async checkLinkedIn() {
+    private async checkLinkedIn(schoolId?: string) {
+        const label = schoolId ? `School ${schoolId} LinkedIn` : 'LinkedIn';
+
         try {
-            const tokenDoc = await SocialToken.findOne({ platform: 'linkedin' });
+            const tokenDoc = await SocialToken.findOne(socialTokenFilter('linkedin', schoolId));
 
             if (!tokenDoc) {
-                console.log('ℹ️ [TokenRefresh] No LinkedIn token stored — skipping.');
+                console.log(`ℹ️ [TokenRefresh] No ${label} token stored — skipping.`);
                 return;
             }
 
             if (!tokenDoc.tokenExpiresAt) {
-                console.log('⚠️ [TokenRefresh] LinkedIn token has no expiry date — validating...');
-                const isValid = await LinkedInClient.validateToken();
-                console.log(`   LinkedIn token valid: ${isValid}`);
+                console.log(`⚠️ [TokenRefresh] ${label} token has no expiry date — validating...`);
+                const isValid = await LinkedInClient.validateToken(schoolId);
+                console.log(`   ${label} token valid: ${isValid}`);
                 return;
             }
 
@@ -67,21 +86,21 @@ class TokenRefreshService {
                 (tokenDoc.tokenExpiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
             );
 
-            console.log(`ℹ️ [TokenRefresh] LinkedIn token expires in ${daysUntilExpiry} days.`);
+            console.log(`ℹ️ [TokenRefresh] ${label} token expires in ${daysUntilExpiry} days.`);
 
             if (daysUntilExpiry <= 7) {
-                console.log('🔄 [TokenRefresh] LinkedIn token expiring soon — refreshing...');
-                const success = await LinkedInClient.refreshAccessToken();
+                console.log(`🔄 [TokenRefresh] ${label} token expiring soon — refreshing...`);
+                const success = await LinkedInClient.refreshAccessToken(schoolId);
                 if (success) {
-                    console.log('✅ [TokenRefresh] LinkedIn token refreshed successfully.');
+                    console.log(`✅ [TokenRefresh] ${label} token refreshed successfully.`);
                 } else {
-                    console.error('❌ [TokenRefresh] LinkedIn token refresh FAILED. Manual re-auth may be needed.');
+                    console.error(`❌ [TokenRefresh] ${label} token refresh FAILED. Manual re-auth may be needed.`);
                 }
             } else {
-                console.log('✅ [TokenRefresh] LinkedIn token is healthy.');
+                console.log(`✅ [TokenRefresh] ${label} token is healthy.`);
             }
         } catch (error: any) {
-            console.error('❌ [TokenRefresh] LinkedIn check error:', error.message);
+            console.error(`❌ [TokenRefresh] ${label} check error:`, error.message);
         }
     }
 
@@ -90,23 +109,56 @@ class TokenRefreshService {
      * Facebook long-lived page tokens don't expire by time,
      * but can be invalidated by password changes or permission revocations.
      */
-    private async checkFacebook() {
+    private async checkFacebook(schoolId?: string) {
+        const label = schoolId ? `School ${schoolId} Facebook` : 'Facebook';
+
         try {
-            const tokenDoc = await SocialToken.findOne({ platform: 'facebook' });
+            const tokenDoc = await SocialToken.findOne(socialTokenFilter('facebook', schoolId));
+
+            if (schoolId && !tokenDoc?.pageId) {
+                console.log(`ℹ️ [TokenRefresh] ${label} has no page selected — skipping.`);
+                return;
+            }
 
             if (!tokenDoc && !process.env.META_ACCESS_TOKEN) {
                 console.log('ℹ️ [TokenRefresh] No Facebook token stored or in env — skipping.');
                 return;
             }
 
-            const isValid = await FacebookClient.validateToken();
+            const isValid = await FacebookClient.validateToken(schoolId);
             if (isValid) {
-                console.log('✅ [TokenRefresh] Facebook token is valid.');
+                console.log(`✅ [TokenRefresh] ${label} token is valid.`);
+            } else {
+                console.error(`❌ [TokenRefresh] ${label} token is INVALID! Please ${schoolId ? 'reconnect the page' : 're-generate via Meta Graph Explorer'}.`);
+            }
+        } catch (error: any) {
+            console.error(`❌ [TokenRefresh] ${label} check error:`, error.message);
+        }
+    }
+
+    /**
+     * Refresh the Twitter token so its rotating refresh token stays fresh.
+     * Access tokens are also refreshed on demand before each post.
+     */
+    private async checkTwitter(schoolId?: string) {
+        const label = schoolId ? `School ${schoolId} Twitter` : 'Twitter';
+
+        try {
+            const tokenDoc = await SocialToken.findOne(socialTokenFilter('twitter', schoolId));
+
+            if (!tokenDoc) {
+                console.log('ℹ️ [TokenRefresh] No Twitter token stored — skipping.');
+                return;
+            }
+
+            const success = await TwitterClient.refreshAccessToken(schoolId);
+            if (success) {
+                console.log(`✅ [TokenRefresh] ${label} token refreshed successfully.`);
             } else {
-                console.error('❌ [TokenRefresh] Facebook token is INVALID! Please re-generate via Meta Graph Explorer.');
+                console.error(`❌ [TokenRefresh] ${label} token refresh FAILED. Manual re-auth may be needed.`);
             }
         } catch (error: any) {
-            console.error('❌ [TokenRefresh] Facebook check error:', error.message);
+            console.error(`❌ [TokenRefresh] ${label} check error:`, error.message);
         }
     }
 }
@@ -1,18 +1,164 @@
 import axios, { AxiosInstance } from 'axios';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { ISchool } from '../models/School';
+import { decryptSecret } from './encryption';
 
-class WordPressClient {
+export interface WordPressConfig {
+  baseUrl: string;
+  username: string;
+  password: string;
+}
+
+export type WordPressSite = 'central' | 'school';
+
+// IPv4 ranges the server must never be pointed at: this host, private networks,
+// carrier-grade NAT and link-local (cloud metadata lives at 169.254.169.254)
+const BLOCKED_IPV4 = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+];
+
+const ipv4ToNumber = (ip: string): number =>
+  ip.split('.').reduce((total, part) => total * 256 + parseInt(part, 10), 0);
+
+const isBlockedIPv4 = (ip: string): boolean => {
+  const value = ipv4ToNumber(ip);
+  return BLOCKED_IPV4.some(range => {
+    const [base, bits] = range.split('/');
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + 2 ** (32 - parseInt(bits, 10));
+  });
+};
+
+const isBlockedIPv6 = (ip: string): boolean => {
+  const address = ip.toLowerCase();
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isBlockedIPv4(mapped[1]);
+  return (
+    address === '::' ||
+    address === '::1' ||
+    /^f[cd]/.test(address) || // unique local fc00::/7
+    /^fe[89ab]/.test(address) || // link-local fe80::/10
+    address.startsWith('::ffff:') // mapped addresses in hex form
+  );
+};
+
+const isBlockedAddress = (address: string, family?: number): boolean =>
+  (family ?? net.isIP(address)) === 6 ? isBlockedIPv6(address) : isBlockedIPv4(address);
+
+/**
+ * dns.lookup that refuses addresses in our own network. The URL check only
+ * sees the hostname; this catches public names that resolve to an internal
+ * address, at the moment we connect.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address : [{ address, family: family ?? 0 }];
+    if (addresses.some(entry => isBlockedAddress(entry.address, entry.family))) {
+      callback(new WordPressUrlError(`${hostname} resolves to a non-public address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+// Used for every request to a WordPress site. Redirects are not followed
+// either, so a site can't bounce our credentials to another host.
+const wordPressAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * Reject hosts that point back into our own network: loopback, private and
+ * link-local addresses, and internal names without a public domain.
+ */
+const isBlockedHost = (hostname: string): boolean => {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  switch (net.isIP(host)) {
+    case 4:
+      return isBlockedIPv4(host);
+    case 6:
+      return isBlockedIPv6(host);
+  }
+
+  return !host.includes('.') || /\.(localhost|local|internal|localdomain|home|lan|intranet)$/.test(host);
+};
+
+/**
+ * Error raised when a WordPress site URL is not one we will connect to.
+ * `status` is the HTTP status code routes should respond with.
+ */
+export class WordPressUrlError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'WordPressUrlError';
+    this.status = status;
+  }
+}
+
+/**
+ * Accept either a site root or a full REST base and return the wp/v2 base.
+ * Only public https sites are allowed, since we send credentials to them.
+ */
+export const normalizeWordPressUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url).trim());
+  } catch {
+    throw new WordPressUrlError('Valid WordPress URL is required');
+  }
+
+  if (parsed.protocol !== 'https:') {
+    throw new WordPressUrlError('WordPress URL must use https');
+  }
+  if (parsed.username || parsed.password) {
+    throw new WordPressUrlError('WordPress URL must not contain credentials');
+  }
+  if (isBlockedHost(parsed.hostname)) {
+    throw new WordPressUrlError('WordPress URL must point to a public site');
+  }
+
+  parsed.search = '';
+  parsed.hash = '';
+  const trimmed = parsed.toString().replace(/\/+$/, '');
+  return /\/wp-json\/wp\/v2$/.test(trimmed) ? trimmed : `${trimmed}/wp-json/wp/v2`;
+};
+
+export class WordPressClient {
   private client: AxiosInstance;
+  private config: WordPressConfig;
+
+  constructor(config?: WordPressConfig) {
+    this.config = config || {
+      baseUrl: process.env.WP_BASE_URL || 'https://wp.schoolchamps.in/wp-json/wp/v2',
+      username: process.env.WP_USER || '',
+      password: process.env.WP_APP_PASS || '',
+    };
 
-  constructor() {
     this.client = axios.create({
-      baseURL: process.env.WP_BASE_URL || 'https://wp.schoolchamps.in/wp-json/wp/v2',
+      baseURL: this.config.baseUrl,
       auth: {
-        username: process.env.WP_USER || '',
-        password: process.env.WP_APP_PASS || '',
+        username: this.config.username,
+        password: this.config.password,
       },
       headers: {
         'Content-Type': 'application/json',
       },
+      httpsAgent: wordPressAgent,
+      maxRedirects: 0,
     });
   }
 
@@ -39,16 +185,18 @@ class WordPressClient {
     }
 
     const response = await axios.post(
-      `${process.env.WP_BASE_URL}/media`,
+      `${this.config.baseUrl}/media`,
       formData,
       {
         auth: {
-          username: process.env.WP_USER || '',
-          password: process.env.WP_APP_PASS || '',
+          username: this.config.username,
+          password: this.config.password,
         },
         headers: {
           ...formData.getHeaders(),
         },
+        httpsAgent: wordPressAgent,
+        maxRedirects: 0,
       }
     );
 
@@ -104,6 +252,60 @@ class WordPressClient {
     const response = await this.client.get('/tags');
     return response.data;
   }
+
+  /**
+   * Check the credentials by fetching the authenticated user.
+   */
+  async testConnection(): Promise<{ id: number; name: string }> {
+    const response = await this.client.get('/users/me', { params: { context: 'edit' } });
+    return { id: response.data.id, name: response.data.name };
+  }
 }
 
-export default new WordPressClient();
+const centralClient = new WordPressClient();
+
+/**
+ * Build a client for a school's own WordPress site.
+ * The school must be loaded with `+wordpress.appPassword`.
+ */
+export const createSchoolWordPressClient = (school: ISchool): WordPressClient => {
+  const wp = school.wordpress;
+  if (!wp?.baseUrl || !wp?.username || !wp?.appPassword) {
+    throw new Error(`School ${school.name} has no WordPress site configured`);
+  }
+
+  return new WordPressClient({
+    baseUrl: normalizeWordPressUrl(wp.baseUrl),
+    username: wp.username,
+    password: decryptSecret(wp.appPassword),
+  });
+};
+
+/**
+ * Pick the client for a site. `school` is only needed for the school site.
+ */
+export const getWordPressClient = (site: WordPressSite, school?: ISchool | null): WordPressClient => {
+  if (site === 'central') return centralClient;
+  if (!school) throw new Error('School is required for the school WordPress site');
+  return createSchoolWordPressClient(school);
+};
+
+/**
+ * Sites a school publishes to: the first is the primary site whose post id
+ * is stored on the blog, the second (if any) gets a mirror copy.
+ */
+export const getPublishSites = (school?: ISchool | null): WordPressSite[] => {
+  const hasOwnSite = !!school?.wordpress?.baseUrl && !!school?.wordpress?.appPassword;
+  if (!school || !hasOwnSite) return ['central'];
+
+  switch (school.publishTarget) {
+    case 'school':
+      return ['school'];
+    case 'both':
+      return ['central', 'school'];
+    default:
+      return ['central'];
+  }
+};
+
+export default centralClient;
@@ -0,0 +1,321 @@
+import fs from 'fs';
+import { IBlog, BlogSyncStatus, computeSyncHash } from '../models/Blog';
+import School, { ISchool } from '../models/School';
+import { WordPressClient, WordPressSite, getWordPressClient, getPublishSites } from './wordpressClient';
+import { transitionBlog, WorkflowActor } from './blogWorkflow';
+
+type SyncActor = WorkflowActor;
+
+/**
+ * Load a blog's school including its encrypted WordPress password.
+ */
+export const loadPublishingSchool = async (blog: IBlog): Promise<ISchool | null> => {
+  if (!blog.assignedSchool) return null;
+  return School.findById(blog.assignedSchool).select('+wordpress.appPassword');
+};
+
+/**
+ * Clients for the site holding the blog's post and, when publishing to
+ * both sites, the site that should hold the mirror copy.
+ */
+export const getBlogClients = async (
+  blog: IBlog
+): Promise<{ primary: WordPressClient; mirror?: WordPressClient; mirrorSite?: WordPressSite }> => {
+  const school = await loadPublishingSchool(blog);
+  const primarySite = blog.wordpressSite || 'central';
+  const primary = getWordPressClient(primarySite, school);
+
+  const sites = getPublishSites(school);
+  const mirrorSite = sites.find(site => site !== primarySite);
+
+  // Keep updating an existing mirror even if the school later narrowed its target
+  const existingMirrorSite = blog.mirrorWordpressPostId
+    ? (primarySite === 'central' ? 'school' : 'central')
+    : undefined;
+  const site = existingMirrorSite || mirrorSite;
+
+  if (!site) return { primary };
+
+  try {
+    return { primary, mirror: getWordPressClient(site, school), mirrorSite: site };
+  } catch (error: any) {
+    console.error('Mirror WordPress site unavailable:', error.message);
+    return { primary };
+  }
+};
+
+/**
+ * Upload the blog's featured image to a WordPress media library.
+ * Failures are logged and the post goes out without an image.
+ */
+export const uploadFeaturedImage = async (blog: IBlog, client: WordPressClient): Promise<number | undefined> => {
+  if (!blog.featuredImage) return undefined;
+
+  try {
+    const isRemote = blog.featuredImage.startsWith('http');
+    if (isRemote || fs.existsSync(blog.featuredImage)) {
+      const mediaResponse = await client.uploadMedia({
+        path: blog.featuredImage,
+        originalname: blog.featuredImage.split('/').pop()?.split('?')[0] || 'image.jpg',
+        mimetype: 'image/jpeg',
+      } as Express.Multer.File);
+      return mediaResponse.id;
+    }
+  } catch (uploadError: any) {
+    console.error('Image upload error:', uploadError);
+    // Continue without featured image if upload fails
+  }
+
+  return undefined;
+};
+
+/**
+ * Map tag names to WordPress tag ids, creating missing tags.
+ */
+export const resolveTagIds = async (tags: string[], client: WordPressClient): Promise<number[]> => {
+  const tagIds: number[] = [];
+  if (!tags || tags.length === 0) return tagIds;
+
+  try {
+    const existingTags = await client.getTags();
+    for (const tagName of tags) {
+      const existingTag = existingTags.find(
+        (t: any) => t.name.toLowerCase() === tagName.toLowerCase()
+      );
+      if (existingTag) {
+        tagIds.push(existingTag.id);
+      } else {
+        const newTag = await client.createTag(tagName);
+        tagIds.push(newTag.id);
+      }
+    }
+  } catch (tagError: any) {
+    console.error('Tag creation error:', tagError);
+  }
+
+  return tagIds;
+};
+
+/**
+ * WordPress post fields built from the local blog.
+ */
+export const buildPostPayload = (blog: IBlog, tagIds: number[], featuredMediaId?: number) => ({
+  title: blog.title,
+  slug: blog.slug,
+  content: blog.content,
+  excerpt: blog.metaDescription,
+  featured_media: featuredMediaId,
+  meta: {
+    _yoast_wpseo_title: blog.metaTitle,
+    _yoast_wpseo_metadesc: blog.metaDescription,
+  },
+  tags: tagIds,
+});
+
+/**
+ * Record that the local blog now matches the WordPress post.
+ * Does not save the blog.
+ */
+export const markSynced = (blog: IBlog, wpPost?: { status?: string; modified_gmt?: string }): void => {
+  if (wpPost?.status) blog.wordpressStatus = wpPost.status as IBlog['wordpressStatus'];
+  if (wpPost?.modified_gmt) blog.wordpressModifiedAt = wpPost.modified_gmt;
+  blog.wordpressSyncHash = computeSyncHash(blog);
+  blog.syncStatus = 'in_sync';
+  blog.lastSyncedAt = new Date();
+};
+
+/**
+ * Create or update the mirror copy of a post on the secondary site.
+ * Mirror failures never fail the primary operation; the next update retries.
+ * Does not save the blog.
+ */
+export const pushMirror = async (
+  blog: IBlog,
+  client: WordPressClient,
+  status: 'publish' | 'draft' | 'trash' = 'publish',
+  imageChanged: boolean = false
+): Promise<void> => {
+  try {
+    if (status === 'trash') {
+      if (blog.mirrorWordpressPostId) await client.deletePost(blog.mirrorWordpressPostId);
+      return;
+    }
+
+    if (!blog.mirrorWordpressPostId || imageChanged) {
+      blog.mirrorWordpressMediaId = await uploadFeaturedImage(blog, client);
+    }
+
+    const tagIds = await resolveTagIds(blog.tags, client);
+    const payload = {
+      ...buildPostPayload(blog, tagIds, blog.mirrorWordpressMediaId ?? 0),
+      status,
+    };
+
+    const wpPost = blog.mirrorWordpressPostId
+      ? await client.updatePost(blog.mirrorWordpressPostId, payload)
+      : await client.createPost(payload);
+
+    blog.mirrorWordpressPostId = wpPost.id;
+    blog.mirrorWordpressUrl = wpPost.link;
+  } catch (error: any) {
+    console.error('Mirror WordPress post error:', error.response?.data || error.message);
+  }
+};
+
+/**
+ * Push the current title, content, excerpt, Yoast meta, tags and featured
+ * image of a published blog to its WordPress post(s).
+ */
+export const updatePublishedPost = async (blog: IBlog): Promise<IBlog> => {
+  const { primary, mirror } = await getBlogClients(blog);
+  let featuredMediaId = blog.wordpressMediaId;
+
+  // Only re-upload the image when it changed since the last push
+  const imageChanged = (blog.featuredImage || undefined) !== blog.wordpressMediaSource;
+  if (imageChanged) {
+    featuredMediaId = await uploadFeaturedImage(blog, primary);
+    blog.wordpressMediaId = featuredMediaId;
+    blog.wordpressMediaSource = featuredMediaId ? blog.featuredImage : undefined;
+  }
+
+  const tagIds = await resolveTagIds(blog.tags, primary);
+  const wpPost = await primary.updatePost(blog.wordpressPostId!, {
+    ...buildPostPayload(blog, tagIds, featuredMediaId ?? 0),
+  });
+
+  if (mirror) {
+    await pushMirror(blog, mirror, 'publish', imageChanged);
+  }
+
+  blog.wordpressUrl = wpPost.link;
+  markSynced(blog, wpPost);
+  await blog.save();
+
+  return blog;
+};
+
+/**
+ * Take a published post down, either back to draft or into the WordPress
+ * trash, and move the blog back to approved_school.
+ */
+export const unpublishPost = async (
+  blog: IBlog,
+  mode: 'draft' | 'trash',
+  actor: SyncActor,
+  reason?: string
+): Promise<IBlog> => {
+  const { primary, mirror } = await getBlogClients(blog);
+
+  const wpPost = mode === 'trash'
+    ? await primary.deletePost(blog.wordpressPostId!)
+    : await primary.updatePost(blog.wordpressPostId!, { status: 'draft' });
+
+  if (mirror && blog.mirrorWordpressPostId) {
+    await pushMirror(blog, mirror, mode);
+  }
+
+  blog.wordpressStatus = mode;
+  if (wpPost?.modified_gmt) blog.wordpressModifiedAt = wpPost.modified_gmt;
+  await transitionBlog(blog, 'approved_school', actor, reason);
+
+  return blog;
+};
+
+/**
+ * Put an unpublished post back live with the current local content.
+ * The school already paid for this post, so no coins are charged.
+ */
+export const republishPost = async (blog: IBlog, actor: SyncActor): Promise<IBlog> => {
+  const { primary, mirror } = await getBlogClients(blog);
+
+  const tagIds = await resolveTagIds(blog.tags, primary);
+  const wpPost = await primary.updatePost(blog.wordpressPostId!, {
+    ...buildPostPayload(blog, tagIds, blog.wordpressMediaId ?? 0),
+    status: 'publish',
+  });
+
+  if (mirror) {
+    await pushMirror(blog, mirror, 'publish');
+  }
+
+  blog.wordpressUrl = wpPost.link;
+  blog.publishedAt = new Date();
+  markSynced(blog, wpPost);
+  await transitionBlog(blog, 'published_wp', actor);
+
+  return blog;
+};
+
+/**
+ * Compare the local blog with the live WordPress post, along with the
+ * baseline the comparison used. Leaves the blog untouched.
+ */
+const compareWithWordPress = async (blog: IBlog) => {
+  if (!blog.wordpressPostId) {
+    return { sync: { syncStatus: 'not_published' as BlogSyncStatus } };
+  }
+
+  const { primary } = await getBlogClients(blog);
+
+  let wpPost: any;
+  try {
+    wpPost = await primary.getPost(blog.wordpressPostId);
+  } catch (error: any) {
+    if (error.response?.status === 404 || error.response?.status === 410) {
+      return { sync: { syncStatus: 'missing' as BlogSyncStatus } };
+    }
+    throw error;
+  }
+
+  // Older posts have no baseline yet; take the current one as in sync
+  const baselineModifiedAt = blog.wordpressModifiedAt || wpPost.modified_gmt;
+  const baselineHash = blog.wordpressSyncHash || computeSyncHash(blog);
+
+  const localChanged = computeSyncHash(blog) !== baselineHash;
+  const remoteChanged = wpPost.modified_gmt !== baselineModifiedAt;
+
+  const syncStatus: BlogSyncStatus = localChanged && remoteChanged
+    ? 'conflict'
+    : localChanged
+      ? 'local_changes'
+      : remoteChanged
+        ? 'remote_changes'
+        : 'in_sync';
+
+  return {
+    sync: {
+      syncStatus,
+      localChanged,
+      remoteChanged,
+      wordpressSite: blog.wordpressSite,
+      wordpressStatus: wpPost.status as IBlog['wordpressStatus'],
+      wordpressModifiedAt: wpPost.modified_gmt as string,
+      mirrorWordpressUrl: blog.mirrorWordpressUrl,
+      lastSyncedAt: blog.lastSyncedAt,
+    },
+    baseline: { modifiedAt: baselineModifiedAt as string, hash: baselineHash },
+  };
+};
+
+/**
+ * Compare the local blog with the live WordPress post without saving anything.
+ */
+export const checkSyncStatus = async (blog: IBlog) => (await compareWithWordPress(blog)).sync;
+
+/**
+ * Compare like checkSyncStatus and store the result in blog.syncStatus.
+ * Older posts without a baseline get the current one.
+ */
+export const refreshSyncStatus = async (blog: IBlog) => {
+  const { sync, baseline } = await compareWithWordPress(blog);
+
+  blog.syncStatus = sync.syncStatus;
+  if (sync.wordpressStatus) blog.wordpressStatus = sync.wordpressStatus;
+  if (baseline) {
+    blog.wordpressModifiedAt = baseline.modifiedAt;
+    blog.wordpressSyncHash = baseline.hash;
+  }
+  await blog.save();
+
+  return sync;
+};